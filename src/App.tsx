@@ -1,12 +1,73 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { format } from 'date-fns'
 import {
-  stats, db, Tx, Student, Loan, addDays,
-  activeLoansForStudent, countActiveLoans,
+  stats, db, Tx, Student, Loan, LoanOutcome, LoanRule, LoanUnit, BookReservation, Fine, FinePolicy, FineRule, DeviceConflict, TaggedItem, ClockCheck, Item, ItemStatus,
+  activeLoansForStudent, activeLoanForItem, lookupItemTitle, findStudentByCard, upsertStudents, knownItemTags,
   ensurePersistence, openDB, exportJsonBlob, importFromJson
 } from './lib/db'
-import { requestPort, readLines } from './lib/serial'
+import { DeviceEvent } from './lib/serial'
+import { ReaderConnection, CommandResult } from './lib/reader'
+import {
+  ReaderTransport, TransportSettings, MockTransport, DEFAULT_BRIDGE_URL, createTransport
+} from './lib/transports'
+import {
+  ReaderConfig, ReaderRole, ReaderRuntime, ScanSources, KEYBOARD_WEDGE_READER,
+  loadReaders, saveReaders, createReaderConfig, roleAccepts, pickCommandReader, pickWriterReader, producingReaderId
+} from './lib/readers'
+import { attachKeyboardWedge, isWedgeEnabled, setWedgeEnabled, loadWedgeItemPattern, saveWedgeItemPattern } from './lib/wedge'
+import { EmulatorTransport, VirtualDevice } from './lib/emulator'
+import { createRecorder, captureToBlob, parseCapture, replayCapture } from './lib/capture'
 import { upsertTransactions, isSupabaseConfigured } from './lib/supabase'
 import { seedInitialData } from './lib/demo'
+import { UidProfile, UID_PROFILES, DEFAULT_UID_PROFILE, canonicalizeUid, loadKeyboardUidProfile, saveKeyboardUidProfile } from './lib/uid'
+import { parseStudentsCsv } from './lib/csv'
+import { reconcileDeviceQueue, openDeviceConflicts, resolveDeviceConflict } from './lib/reconcile'
+import {
+  TagWriteRequest, TagWriteReport, TagWriteResult, TagWriteStep, TAG_WRITE_STEPS,
+  writeItemTag, suggestItemTag, loadOwnerCode, saveOwnerCode
+} from './lib/tag-writer'
+import {
+  ScanSession, ScanSessionSettings, ScanState, DeskPatron,
+  createScanSession, loadScanSessionSettings, saveScanSessionSettings
+} from './lib/scan-session'
+import {
+  DeviceProfile, Capability, CAPABILITIES, handshake, supportsCommand, firmwareWarning,
+  loadDeviceProfiles, saveDeviceProfile, forgetDeviceProfile
+} from './lib/firmware'
+import { DRIFT_THRESHOLD_MS, syncDeviceClock, clockHistory, isClockTrusted, formatDrift } from './lib/clock'
+import { ITEM_TYPES, ITEM_STATUSES, ItemInput, saveItem, setItemStatus, searchItems } from './lib/catalog'
+import { borrow, returnLoan, renew, closeLoan, checkInFound, missingLoanForItem, minutesOverdue, describeMinutes, OutcomeFine } from './lib/circulation'
+import {
+  LoanRuleInput, DEFAULT_LOAN_RULE, loadLoanRules, saveLoanRules, loanRuleFor, parseLoanPeriod, periodMinutes, describePeriod, rulePeriod
+} from './lib/loan-rules'
+import {
+  reservationManager, byQueuePriority, HOLD_PICKUP_DAYS, fineManager, loadFineSettings, saveFineSettings
+} from './lib/analytics'
+import {
+  LibraryCalendar, Closure, WEEKDAY_NAMES, DEFAULT_CALENDAR, loadLibraryCalendar, saveLibraryCalendar, parseIcsClosures, mergeClosures
+} from './lib/calendar'
+import { FinePolicyInput, DEFAULT_FINE_POLICY, getFinePolicy, finePolicyHistory, saveFinePolicy, replacementCharge } from './lib/fine-policy'
+import { getErrorMessage } from './lib/error-handling'
+
+const LOAN_OUTCOMES: Record<LoanOutcome, string> = {
+  LOST: 'Lost',
+  DAMAGED: 'Damaged',
+  CLAIMED_RETURNED: 'Claimed returned',
+}
+
+const FINE_TYPES: Record<Fine['type'], string> = {
+  OVERDUE: 'Overdue',
+  DAMAGE: 'Damage',
+  LOST: 'Replacement',
+  OTHER: 'Other',
+}
+
+const FINE_STATUS: Record<Fine['status'], string> = {
+  PENDING: 'Unpaid',
+  PARTIAL: 'Part paid',
+  PAID: 'Paid',
+  WAIVED: 'Waived',
+}
 
 const BLUE = '#166FE5'
 const ORANGE = '#FF7A00'
@@ -35,6 +96,13 @@ function useBadges(){
   return { ...b, refresh }
 }
 
+const IDLE_READER: ReaderRuntime = { state: 'disconnected', attempt: 0, status: null }
+
+interface ReaderLink {
+  conn: ReaderConnection
+  transport: ReaderTransport
+}
+
 function Card({title, value, color}:{title:string; value:React.ReactNode; color:string}){
   return <div className="card">
     <div className="stripe" style={{background:color}}/>
@@ -53,14 +121,42 @@ export default function App(){
   const [log, setLog] = useState<string>('')
   const logBoxRef = useRef<HTMLDivElement>(null)
 
-  // Device & sync
-  const [connected, setConnected] = useState(false)
+  // Device & sync: every configured reader gets its own connection
+  const [readers, setReaders] = useState<ReaderConfig[]>(loadReaders)
+  const readersRef = useRef(readers)
+  readersRef.current = readers
+  const linksRef = useRef(new Map<string, ReaderLink>())
+  const [runtime, setRuntime] = useState<Record<string, ReaderRuntime>>({})
+  const [commandReaderId, setCommandReaderId] = useState('') // '' = pick automatically
+  const scanSourcesRef = useRef<ScanSources>({})
+  const connected = readers.some(r => runtime[r.id]?.state === 'connected')
+  const [wedge, setWedge] = useState<boolean>(isWedgeEnabled)
+  const [keyboardUidProfile, setKeyboardUidProfile] = useState<UidProfile>(loadKeyboardUidProfile)
+  const [wedgeItemPattern, setWedgeItemPattern] = useState<string>(loadWedgeItemPattern)
+  // What each reader's firmware reported at the last handshake
+  const [deviceProfiles, setDeviceProfiles] = useState<Record<string, DeviceProfile>>(loadDeviceProfiles)
+  const deviceProfilesRef = useRef(deviceProfiles)
+  deviceProfilesRef.current = deviceProfiles
+  // Latest clock check per reader
+  const [clockChecks, setClockChecks] = useState<Record<string, ClockCheck>>({})
+
+  // Session capture / replay
+  const recorderRef = useRef(createRecorder())
+  const [recording, setRecording] = useState(false)
+  const [replaying, setReplaying] = useState(false)
+  const cancelReplayRef = useRef<(() => void) | null>(null)
   const [autosync, setAutosync] = useState(true)
-  const [port, setPort] = useState<any>(null)
-  const [deviceStatus, setDeviceStatus] = useState<any>(null)
 
   // Scans
   const [lastScannedUID, setLastScannedUID] = useState<string>('')
+  const [lastScannedTag, setLastScannedTag] = useState<string>('')
+
+  // Scan session: drops repeated scans, tracks SCAN_ARMED/SCAN_DONE and who is at the desk
+  const [scanSettings, setScanSettings] = useState<ScanSessionSettings>(loadScanSessionSettings)
+  const [scanState, setScanState] = useState<ScanState>('idle')
+  const [deskPatron, setDeskPatron] = useState<{ uid: string; student: Student | null } | null>(null)
+  const scanSessionRef = useRef<ScanSession | null>(null)
+  const deskUidRef = useRef<string | null>(null)
 
   // Borrow/Return refs
   const borrowCardRef = useRef<HTMLInputElement>(null)
@@ -82,7 +178,10 @@ export default function App(){
   const [tx, setTx] = useState<Tx[]>([])
   const [txQuery, setTxQuery] = useState('')
   const [loans, setLoans] = useState<Loan[]>([])
+  const [returnStudent, setReturnStudent] = useState<Student | null>(null)
   const [alerts, setAlerts] = useState<Loan[]>([])
+  const [dueNextHour, setDueNextHour] = useState<Loan[]>([])
+  const [conflicts, setConflicts] = useState<DeviceConflict[]>([])
 
   // === INIT: open DB & request persistence, seed demo data, hydrate lists ===
   useEffect(() => {
@@ -97,6 +196,9 @@ export default function App(){
       setStudents(await db.students.orderBy('created_at').reverse().toArray())
       setTx(await db.transactions.orderBy('occurred_at').reverse().limit(500).toArray())
       refreshAlerts()
+      setConflicts(await openDeviceConflicts())
+      const latest = await Promise.all(readersRef.current.map(r => clockHistory(r.id, 1)))
+      setClockChecks(Object.fromEntries(latest.flat().map(c => [c.device_id, c])))
     })()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
@@ -111,6 +213,23 @@ export default function App(){
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [autosync, authed])
 
+  // Daily fine job: overdue loans still out accrue once per day (checked hourly while open).
+  // Lapsed reservations and holds are expired on the same beat, passing holds on.
+  useEffect(()=>{
+    if(!authed) return
+    const accrue = () => {
+      fineManager.runDailyAccrual()
+        .then(fines => { if(fines?.length) append(`[FINES] ${fines.length} overdue fine(s) raised or increased`) })
+        .catch(err => append(`[FINES] Daily accrual failed: ${getErrorMessage(err)}`))
+      reservationManager.cleanupExpiredReservations()
+        .then(n => { if(n) append(`[RESERVATIONS] ${n} expired`) })
+        .catch(err => append(`[RESERVATIONS] Expiry check failed: ${getErrorMessage(err)}`))
+    }
+    accrue()
+    const iv = setInterval(accrue, 60 * 60 * 1000)
+    return ()=> clearInterval(iv)
+  }, [authed])
+
   function append(s:string){
     setLog(l => l + `[${new Date().toLocaleTimeString()}] ${s}\n`)
     setTimeout(()=>{
@@ -119,53 +238,354 @@ export default function App(){
     }, 0)
   }
 
-  // ==== Web Serial events ====
-  function onDeviceLine(evt:any){
-    if (evt?.line) append(evt.line) // raw device log
-
-    if (evt?.event === 'card') {
-      const uid = evt.uid
-      setLastScannedUID(uid)
-      append(`[CARD] ${uid}`)
-      if (route === '#borrow' && borrowCardRef.current) {
-        borrowCardRef.current.value = uid
-        append(`[CARD→Borrow] ${uid}`)
-      } else if (route === '#return' && returnCardRef.current) {
-        returnCardRef.current.value = uid
-        append(`[CARD→Return] ${uid}`)
-        loadLoansForReturn()
+  // ==== Reader events ====
+  function readerName(id: string){
+    return readersRef.current.find(r => r.id === id)?.name ?? id
+  }
+
+  function scanSession(): ScanSession {
+    if (!scanSessionRef.current) {
+      scanSessionRef.current = createScanSession({
+        ...scanSettings,
+        onStateChange: setScanState,
+        onPatronChange: p => onDeskPatronRef.current(p),
+      })
+    }
+    return scanSessionRef.current
+  }
+
+  function onDeviceLine(incoming: DeviceEvent, source: ReaderConfig){
+    // Prefix log lines with the reader once there is more than one to tell apart
+    const tag = readersRef.current.length > 1 ? `[${source.name}] ` : ''
+    if (!roleAccepts(source.role, incoming)) {
+      append(`${tag}Ignored ${incoming.event} scan (reader role: ${source.role}).`)
+      return
+    }
+    // Canonical UIDs first, so repeats and the desk patron compare like with like
+    const evt = scanSession().accept(
+      incoming.event === 'card' ? { ...incoming, uid: canonicalizeUid(incoming.uid, source.uidProfile) } : incoming,
+      source.id
+    )
+    if (!evt) return // the same card or label again, still resting on the pad
+    switch (evt.event) {
+      case 'raw':
+        append(tag + evt.line) // raw device log
+        break
+      case 'card': {
+        const uid = evt.uid
+        scanSourcesRef.current.card = { uid, reader: source.id }
+        setLastScannedUID(uid)
+        append(`${tag}[CARD] ${uid}`)
+        if (route === '#borrow' && borrowCardRef.current) {
+          borrowCardRef.current.value = uid
+          append(`[CARD→Borrow] ${uid}`)
+        } else if (route === '#return' && returnCardRef.current) {
+          returnCardRef.current.value = uid
+          append(`[CARD→Return] ${uid}`)
+          loadLoansForReturn()
+        }
+        break
+      }
+      case 'item': {
+        const itemTag = evt.tag
+        scanSourcesRef.current.item = { tag: itemTag, reader: source.id }
+        setLastScannedTag(itemTag)
+        append(`${tag}[ITEM] ${itemTag}`)
+        if (route === '#borrow' && borrowItemTagRef.current) {
+          const desk = scanSession().patron
+          if (desk && borrowCardRef.current && !borrowCardRef.current.value.trim() && !borrowIndexRef.current?.value.trim()) {
+            borrowCardRef.current.value = desk.uid
+            append(`[DESK→Borrow] ${desk.uid}`)
+          }
+          borrowItemTagRef.current.value = itemTag
+          append(`[ITEM→Borrow] ${itemTag}`)
+          fillBorrowTitle(itemTag)
+        } else if (route === '#return') {
+          returnByItemTag(itemTag)
+        }
+        break
+      }
+      case 'status':
+        updateRuntime(source.id, { status: evt.data })
+        break
+      case 'parse_error':
+        append(`${tag}[PARSE ${evt.error.kind}] ${evt.error.message}`)
+        break
+    }
+  }
+
+  // Connections keep the handler they were given; route it through a ref so scans see the current route
+  const onDeviceLineRef = useRef(onDeviceLine)
+  onDeviceLineRef.current = onDeviceLine
+
+  // A new patron, or the last one timed out: card fields still holding the previous
+  // student are cleared so the next item isn't lent to them
+  async function onDeskPatron(p: DeskPatron | null){
+    const previous = deskUidRef.current
+    deskUidRef.current = p?.uid ?? null
+    if (previous && previous !== p?.uid) {
+      for (const ref of [borrowCardRef, returnCardRef]) {
+        if (ref.current?.value === previous) ref.current.value = ''
       }
-    } else if (evt?.event === 'status') {
-      setDeviceStatus(evt.data)
+      if (!p) append(`[DESK] ${previous} timed out.`)
     }
+    if (!p) { setDeskPatron(null); return }
+    if (previous === p.uid) return
+    const student = (await findStudentByCard(p.uid)) ?? null
+    if (deskUidRef.current === p.uid) setDeskPatron({ uid: p.uid, student })
   }
+  const onDeskPatronRef = useRef(onDeskPatron)
+  onDeskPatronRef.current = onDeskPatron
 
-  async function connectSerial(){
-    const p = await requestPort()
-    if(!p){ append('Serial not available or cancelled.'); return }
-    setPort(p)
-    setConnected(true)
-    append('Connected to device.')
-    readLines(p, onDeviceLine, ()=>{
-      append('Port closed.')
-      setConnected(false)
-      setPort(null)
+  useEffect(() => () => scanSessionRef.current?.dispose(), [])
+
+  function changeScanSettings(next: ScanSessionSettings){
+    saveScanSessionSettings(next)
+    setScanSettings(next)
+    scanSession().configure(next)
+    append(`Scan session: repeats within ${next.debounceMs} ms dropped, desk patron kept ${Math.round(next.patronTimeoutMs / 1000)} s.`)
+  }
+
+  function updateRuntime(id: string, patch: Partial<ReaderRuntime>){
+    setRuntime(rt => ({ ...rt, [id]: { ...(rt[id] ?? IDLE_READER), ...patch } }))
+  }
+
+  function openReader(cfg: ReaderConfig): ReaderConnection {
+    const transport = createTransport(cfg.transport)
+    const conn: ReaderConnection = new ReaderConnection(transport, {
+      onEvent: evt => {
+        const source = readersRef.current.find(r => r.id === cfg.id)
+        if (source) onDeviceLineRef.current(evt, source)
+      },
+      onStateChange: (state, attempt) => {
+        // A connection replaced after a settings change has nothing left to report
+        if (linksRef.current.get(cfg.id)?.conn !== conn) return
+        updateRuntime(cfg.id, { state, attempt, ...(state === 'connected' ? {} : { status: null }) })
+        if (state === 'reconnecting') append(`${readerName(cfg.id)}: port lost. Reconnecting (attempt ${attempt})…`)
+        else if (state === 'disconnected') append(`${readerName(cfg.id)}: port closed.`)
+      },
+      onTraffic: (dir, line) => recorderRef.current.record(dir, line, cfg.id),
+      onConnected: reconnected => {
+        append(`${readerName(cfg.id)}: ${reconnected ? 'reconnected' : 'connected'} (${transport.label}).`)
+        identifyDevice(cfg.id, conn).then(async () => {
+          if (readerSupports(cfg.id, 'clock')) await checkDeviceClock(cfg.id)
+          sendSerialCommand('STATUS', cfg.id)
+        })
+      },
     })
-    await sendSerialCommand('STATUS')
+    linksRef.current.set(cfg.id, { conn, transport })
+    return conn
   }
 
-  async function sendSerialCommand(cmd: string){
-    if(!port || !connected){
-      append('Not connected to device.')
+  // HELLO handshake: the firmware's model, version and commands decide which features the reader gets
+  async function identifyDevice(id: string, conn: ReaderConnection){
+    const profile = await handshake(cmd => conn.send(cmd), id)
+    saveDeviceProfile(profile)
+    deviceProfilesRef.current = { ...deviceProfilesRef.current, [id]: profile }
+    setDeviceProfiles(deviceProfilesRef.current)
+    append(`${readerName(id)}: ${profile.legacy ? 'no handshake (firmware 1.x)' : `${profile.model}, firmware ${profile.firmware}`}.`)
+    const warning = firmwareWarning(profile, readerName(id))
+    if (warning) append(`! ${warning}`)
+  }
+
+  // Reads the device clock and pushes kiosk time when it has drifted (see ./lib/clock)
+  async function checkDeviceClock(id: string){
+    let result
+    try{
+      result = await syncDeviceClock(cmd => sendSerialCommand(cmd, id), id)
+    }catch(e){
+      append(`[CLOCK] ${getErrorMessage(e)}`)
+      return
+    }
+    if(!result){ append(`[CLOCK] ${readerName(id)}: could not read the device clock.`); return }
+    const check = result.check
+    setClockChecks(c => ({ ...c, [id]: check }))
+    append(`[CLOCK] ${readerName(id)}: ${result.message}`)
+  }
+
+  function readerSupports(id: string, capability: Capability){
+    return deviceProfilesRef.current[id]?.capabilities[capability] ?? true
+  }
+
+  async function closeReader(id: string){
+    const link = linksRef.current.get(id)
+    if (!link) return
+    linksRef.current.delete(id)
+    await link.conn.disconnect()
+    link.conn.dispose()
+    setRuntime(rt => Object.fromEntries(Object.entries(rt).filter(([k]) => k !== id)))
+  }
+
+  // Connections live for the app's lifetime; each reopens its remembered port on load and after unplugs
+  useEffect(() => {
+    const links = linksRef.current
+    readersRef.current.forEach(cfg => openReader(cfg).resume())
+    return () => {
+      links.forEach(link => link.conn.dispose())
+      links.clear()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Keyboard-wedge readers work without any connection; their scans share the device handler
+  useEffect(() => {
+    if (!wedge) return
+    // The wedge decodes UIDs with the keyboard profile itself and reports them canonical
+    return attachKeyboardWedge(window, evt => onDeviceLineRef.current(evt, KEYBOARD_WEDGE_READER), {
+      uidProfile: keyboardUidProfile,
+      itemPattern: new RegExp(wedgeItemPattern),
+    })
+  }, [wedge, keyboardUidProfile, wedgeItemPattern])
+
+  function isReaderConnected(id: string){
+    return linksRef.current.get(id)?.conn.state === 'connected'
+  }
+
+  // Device commands go to the reader picked in Settings, or the first connected card reader
+  function commandReader(): ReaderConfig | null {
+    const chosen = readersRef.current.find(r => r.id === commandReaderId)
+    if (chosen && isReaderConnected(chosen.id)) return chosen
+    return pickCommandReader(readersRef.current, isReaderConnected)
+  }
+
+  function toggleRecording(){
+    const recorder = recorderRef.current
+    if(!recorder.recording){
+      const labels = readersRef.current
+        .filter(r => isReaderConnected(r.id))
+        .map(r => `${r.name} (${linksRef.current.get(r.id)!.transport.label})`)
+      recorder.start(labels.join(', ') || undefined)
+      setRecording(true)
+      append('[CAPTURE] Recording reader traffic…')
       return
     }
+    const capture = recorder.stop()
+    setRecording(false)
+    if(!capture) return
+    const url = URL.createObjectURL(captureToBlob(capture))
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `reader-capture-${capture.startedAt.slice(0,19).replace(/[:T]/g,'-')}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+    append(`[CAPTURE] Saved ${capture.entries.length} line(s).`)
+  }
+
+  async function startReplay(file: File, speed: number){
+    let capture
     try{
-      const writer = port.writable.getWriter()
-      await writer.write(new TextEncoder().encode(cmd + '\n'))
-      writer.releaseLock()
-      append(`> ${cmd}`)
+      capture = parseCapture(await file.text())
     }catch(e){
-      append(`Write error: ${e}`)
+      alert(`Cannot replay: ${getErrorMessage(e)}`)
+      return
+    }
+    cancelReplayRef.current?.()
+    setReplaying(true)
+    append(`[REPLAY] ${file.name} (${capture.entries.length} lines, ${Number.isFinite(speed) ? speed + 'x' : 'instant'})`)
+    // Replayed lines play back as the first configured reader, whatever recorded them
+    const source = readersRef.current[0] ?? KEYBOARD_WEDGE_READER
+    cancelReplayRef.current = replayCapture(capture, evt => onDeviceLineRef.current(evt, source), {
+      speed,
+      onOutgoing: line => append(`[REPLAY] > ${line}`),
+      onDone: () => { setReplaying(false); cancelReplayRef.current = null; append('[REPLAY] done.') },
+    })
+  }
+
+  function stopReplay(){
+    cancelReplayRef.current?.()
+    cancelReplayRef.current = null
+    setReplaying(false)
+    append('[REPLAY] stopped.')
+  }
+
+  function changeKeyboardUidProfile(profile: UidProfile){
+    saveKeyboardUidProfile(profile)
+    setKeyboardUidProfile(profile)
+    append(`Keyboard UID profile: ${UID_PROFILES[profile]}.`)
+  }
+
+  // Scanned UIDs are already canonical; anything else was typed, in the keyboard profile
+  function cardUidFromInput(value: string): string | null {
+    const v = value.trim()
+    if(!v) return null
+    if(v === scanSourcesRef.current.card?.uid || v === lastScannedUID) return v
+    return canonicalizeUid(v, keyboardUidProfile)
+  }
+
+  function changeWedgeItemPattern(pattern: string){
+    try{
+      saveWedgeItemPattern(pattern)
+    }catch(err){
+      alert(getErrorMessage(err))
+      return
+    }
+    setWedgeItemPattern(pattern.trim())
+    append(`Keyboard-wedge item barcodes: /${pattern.trim()}/.`)
+  }
+
+  function toggleWedge(enabled: boolean){
+    setWedgeEnabled(enabled)
+    setWedge(enabled)
+    append(`Keyboard-wedge capture ${enabled ? 'ON' : 'OFF'}.`)
+  }
+
+  async function connectReader(id: string){
+    const conn = linksRef.current.get(id)?.conn
+    if(!conn || conn.state === 'connected') return
+    const ok = await conn.connect()
+    if(!ok) append(`${readerName(id)}: ${conn.transportLabel} not available or cancelled.`)
+  }
+
+  // One at a time: each Web Serial reader gets its own port picker
+  async function connectReaders(){
+    for (const r of readersRef.current) await connectReader(r.id)
+  }
+
+  async function applyReaders(next: ReaderConfig[]){
+    const prev = readersRef.current
+    saveReaders(next)
+    readersRef.current = next
+    setReaders(next)
+    for (const old of prev) {
+      const cfg = next.find(r => r.id === old.id)
+      if (!cfg || JSON.stringify(cfg.transport) !== JSON.stringify(old.transport)) await closeReader(old.id)
+    }
+    for (const cfg of next) {
+      if (!linksRef.current.has(cfg.id)) openReader(cfg).resume()
+    }
+    if (commandReaderId && !next.some(r => r.id === commandReaderId)) setCommandReaderId('')
+    const removed = prev.filter(old => !next.some(r => r.id === old.id)).map(r => r.id)
+    if (removed.length) {
+      removed.forEach(forgetDeviceProfile)
+      setDeviceProfiles(loadDeviceProfiles())
+    }
+    append(`Readers: ${next.map(r => `${r.name} (${r.role})`).join(', ') || 'none'}`)
+  }
+
+  async function sendSerialCommand(cmd: string, readerId?: string): Promise<CommandResult | null>{
+    const target = readerId ? readersRef.current.find(r => r.id === readerId) ?? null : commandReader()
+    const conn = target ? linksRef.current.get(target.id)?.conn : undefined
+    if(!target || !conn || conn.state !== 'connected'){
+      append('Not connected to device.')
+      return null
+    }
+    const profile = deviceProfilesRef.current[target.id]
+    if(profile && !supportsCommand(profile.commands, cmd)){
+      const error = `not supported by firmware ${profile.firmware}`
+      append(`! ${cmd.split(' ')[0]} ${error} (${target.name}).`)
+      return { ok: false, command: cmd, error }
+    }
+    append(readersRef.current.length > 1 ? `> ${cmd} (${target.name})` : `> ${cmd}`)
+    const res = await conn.send(cmd)
+    if(!res.ok) append(`! ${cmd.split(' ')[0]} ${res.timedOut ? 'timed out' : 'failed'}: ${res.error}`)
+    return res
+  }
+
+  // Local records are already saved; tell staff when the device ledger is out of step
+  function warnIfNotRecorded(action: string, results: Array<CommandResult | null>){
+    const failed = results.find(r => r && !r.ok)
+    if(failed){
+      alert(`${action} saved locally, but the device did not record it (${failed.command.split(' ')[0]}: ${failed.error}).`)
     }
   }
 
@@ -200,13 +620,36 @@ export default function App(){
     }
   }
 
+  // ===== Catalog =====
+  // The catalog entry for a scanned tag; an unknown tag is only accepted when staff add it
+  async function catalogItemFor(item_tag: string, title: string | null, action: string): Promise<Item | undefined>{
+    const item = await db.items.get(item_tag)
+    if(item) return item
+    if(!confirm(`${item_tag} is not in the catalog. Add it now${title ? ` as "${title}"` : ''} and continue the ${action.toLowerCase()}?`)){
+      append(`[${action.toUpperCase()}] Refused unknown item ${item_tag}`)
+      return undefined
+    }
+    try{
+      const added = await saveItem({ tag: item_tag, title: title || item_tag })
+      append(`[CATALOG] Added ${item_tag}`)
+      return added
+    }catch(err){
+      alert('Could not add item: ' + getErrorMessage(err))
+      return undefined
+    }
+  }
+
   // ===== Borrow flow =====
   async function submitBorrow(){
-    const card_uid = borrowCardRef.current!.value.trim() || null
+    const card_uid = cardUidFromInput(borrowCardRef.current!.value)
     const index_number = borrowIndexRef.current!.value.trim() || null
     const item_tag = borrowItemTagRef.current!.value.trim()
-    const item_title = borrowItemTitleRef.current!.value.trim() || null
-    const days = Math.max(1, parseInt(borrowDaysRef.current!.value || '14', 10))
+    const typed_title = borrowItemTitleRef.current!.value.trim() || null
+    const periodText = borrowDaysRef.current!.value.trim()
+    const period = periodText ? parseLoanPeriod(periodText) : null
+    if(periodText && !period){ alert('Loan period: a number of days, or hours / minutes such as 3h or 90m.'); return }
+    const days = period?.unit === 'DAYS' ? period.amount : undefined
+    const minutes = period && period.unit !== 'DAYS' ? periodMinutes(period) : undefined
 
     if(!item_tag){ alert('Enter item tag (or scan item).'); return }
     if(!card_uid && !index_number){ alert('Scan/enter a card UID or provide a student index.'); return }
@@ -215,99 +658,234 @@ export default function App(){
     if(index_number){
       stu = await db.students.where('index_number').equals(index_number).first()
     } else if(card_uid){
-      stu = await db.students.where('card_uid').equals(card_uid).first()
+      stu = await findStudentByCard(card_uid)
+      if(stu?.card_uid && stu.card_uid.toUpperCase() !== card_uid) append(`[CARD] ${card_uid} matched ${stu.card_uid} (${stu.full_name}) by alternative encoding`)
     }
     if(!stu){ alert('Student not found. Register the student first.'); return }
+    const user_uid = card_uid ? stu.card_uid ?? card_uid : null
 
-    const activeCnt = await countActiveLoans(stu.index_number)
-    if(activeCnt >= 3){ alert(`Loan limit reached. ${stu.full_name} already has ${activeCnt} active loan(s).`); return }
+    if(!(await catalogItemFor(item_tag, typed_title, 'Borrow'))) return
 
-    const now = new Date().toISOString()
-    const dueIso = addDays(now, days)
-    const dueDateStr = dueIso.slice(0,10)
-
-    const loan: Loan = {
-      id: crypto.randomUUID(),
-      student_index: stu.index_number,
-      user_uid: card_uid,
-      item_tag,
-      item_title,
-      borrowed_at: now,
-      due_at: dueIso,
-      returned_at: null,
-      status: 'ACTIVE',
-      device_id: 'web-kiosk',
-      synced: 0
-    }
-    await db.loans.add(loan)
-
-    const tx: Tx = {
-      id: crypto.randomUUID(),
-      user_uid: card_uid,
-      student_index: stu.index_number,
-      item_tag,
-      action: 'BORROW',
-      occurred_at: now,
-      device_id: 'web-kiosk',
-      synced: 0
-    }
-    await db.transactions.add(tx)
+    const device_id = producingReaderId(scanSourcesRef.current, item_tag, card_uid)
+    let loan: Loan, tx: Tx
+    try{
+      ({ loan, tx } = await borrow({ student_index: stu.index_number, user_uid, item_tag, item_title: typed_title, days, minutes, device_id }))
+    }catch(err){
+      alert(`Cannot lend ${item_tag}: ${getErrorMessage(err)}`)
+      return
+    }
+    const now = loan.borrowed_at
+    const dueDateStr = format(new Date(loan.due_at), 'yyyy-MM-dd')
     setTx(v => [tx, ...v])
     refresh(); refreshAlerts()
-    append(`[BORROW] ${stu.index_number} -> ${item_tag} (due ${dueDateStr})`)
+    append(`[BORROW] ${stu.index_number} -> ${item_tag} (due ${format(new Date(loan.due_at), 'yyyy-MM-dd HH:mm')})`)
     borrowItemTagRef.current!.value = ''; borrowItemTitleRef.current!.value = ''
 
     if (connected && stu.card_uid) {
-      await sendSerialCommand(`SET STUDENT ${stu.card_uid.toUpperCase()} | ${stu.full_name} | ${stu.phone ?? ''}`)
-      await sendSerialCommand(`BORROW ${stu.card_uid.toUpperCase()} | ${item_tag} | ${dueDateStr} | ${now.slice(0,10)}`)
+      const setRes = await sendSerialCommand(`SET STUDENT ${stu.card_uid.toUpperCase()} | ${stu.full_name} | ${stu.phone ?? ''}`)
+      const borrowRes = setRes?.ok
+        ? await sendSerialCommand(`BORROW ${stu.card_uid.toUpperCase()} | ${item_tag} | ${dueDateStr} | ${format(new Date(now), 'yyyy-MM-dd')}`)
+        : null
+      warnIfNotRecorded('Borrow', [setRes, borrowRes])
+    }
+  }
+
+  async function fillBorrowTitle(item_tag: string){
+    const title = await lookupItemTitle(item_tag)
+    if (title && borrowItemTitleRef.current && !borrowItemTitleRef.current.value.trim()) {
+      borrowItemTitleRef.current.value = title
     }
   }
 
   // ===== Return flow =====
   async function loadLoansForReturn(){
     const idx = returnIndexRef.current!.value.trim()
-    const uid = returnCardRef.current!.value.trim()
+    const uid = cardUidFromInput(returnCardRef.current!.value)
     const list = await activeLoansForStudent({ index_number: idx || undefined, card_uid: uid || undefined })
     setLoans(list.sort((a,b)=> a.due_at.localeCompare(b.due_at)))
+    const student = idx ? await db.students.where('index_number').equals(idx).first() : uid ? await findStudentByCard(uid) : undefined
+    setReturnStudent(student ?? null)
+  }
+
+  async function returnByItemTag(item_tag: string){
+    if(!(await catalogItemFor(item_tag, null, 'Return'))) return
+    const loan = await activeLoanForItem(item_tag)
+    if(!loan){
+      const missing = await missingLoanForItem(item_tag)
+      if(missing && confirm(`${missing.item_title ?? item_tag} is recorded as ${LOAN_OUTCOMES[missing.status as LoanOutcome].toLowerCase()}. Check it in as found?`)){
+        await checkInFoundItem(item_tag)
+      } else {
+        append(`[ITEM→Return] No active loan for ${item_tag}`)
+      }
+      return
+    }
+    if (returnIndexRef.current) returnIndexRef.current.value = loan.student_index ?? ''
+    if (returnCardRef.current) returnCardRef.current.value = ''
+    append(`[ITEM→Return] ${item_tag} (${loan.item_title ?? 'untitled'}) from ${loan.student_index}`)
+    await markReturned(loan)
   }
 
   async function markReturned(loan: Loan){
     if(!loan || loan.status !== 'ACTIVE') return
     const now = new Date().toISOString()
-    const updated: Loan = { ...loan, status: 'RETURNED', returned_at: now }
-    await db.loans.put(updated)
-
-    const tx: Tx = {
-      id: crypto.randomUUID(),
-      user_uid: loan.user_uid,
-      student_index: loan.student_index,
-      item_tag: loan.item_tag,
-      action: 'RETURN',
-      occurred_at: now,
-      device_id: 'web-kiosk',
-      synced: 0
-    }
-    await db.transactions.add(tx)
+    const device_id = producingReaderId(scanSourcesRef.current, loan.item_tag, cardUidFromInput(returnCardRef.current?.value ?? ''))
+    let tx: Tx, hold: BookReservation | null, fine: Fine | null
+    try{
+      ({ tx, hold, fine } = await returnLoan(loan.id, device_id, now))
+    }catch(err){
+      alert(`Cannot return ${loan.item_tag}: ${getErrorMessage(err)}`)
+      return
+    }
     setTx(v => [tx, ...v])
     refresh(); refreshAlerts()
     append(`[RETURN] ${loan.student_index} -> ${loan.item_tag}`)
+    if (fine && fine.status !== 'WAIVED') append(`[FINE] ${loan.student_index} ${fine.description}: ${fine.amount.toFixed(2)} ${fine.currency} (${FINE_STATUS[fine.status].toLowerCase()})`)
     await loadLoansForReturn()
+    if (hold) await announceHold(hold)
 
     if (connected && loan.user_uid) {
-      await sendSerialCommand(`RETURN ${loan.user_uid.toUpperCase()} | ${loan.item_tag}`)
+      warnIfNotRecorded('Return', [await sendSerialCommand(`RETURN ${loan.user_uid.toUpperCase()} | ${loan.item_tag}`)])
+    }
+  }
+
+  // A returned item went on hold for the next patron in line; staff shelve it for pickup
+  async function announceHold(hold: BookReservation){
+    const student = await db.students.get(hold.studentId)
+    const who = student ? `${student.full_name} (${student.index_number})` : `student #${hold.studentId}`
+    const until = hold.holdUntil?.slice(0,10) ?? '-'
+    append(`[HOLD] ${hold.itemTag} held for ${who} until ${until}`)
+    alert(`${hold.itemTitle ?? hold.itemTag} is reserved. Put it on the hold shelf for ${who}; pickup by ${until}.`)
+  }
+
+  // Lost / damaged / claimed returned. Lost and damaged can raise a replacement or damage fine.
+  async function closeLoanAs(loan: Loan, outcome: LoanOutcome){
+    const what = loan.item_title ?? loan.item_tag
+    let fine: OutcomeFine | undefined
+    if(outcome === 'CLAIMED_RETURNED'){
+      if(!confirm(`Record that ${loan.student_index} says ${what} was returned? The copy will be marked missing.`)) return
+    } else {
+      // A lost item's fine defaults to the replacement cost the fine policy sets for it
+      const suggested = outcome === 'LOST' ? await replacementCharge(loan) : null
+      const answer = prompt(`${outcome === 'LOST' ? 'Replacement' : 'Damage'} fine for ${what} (leave blank for none):`, suggested ? suggested.amount.toFixed(2) : '')
+      if(answer === null) return
+      if(answer.trim()){
+        const amount = Number(answer)
+        if(!Number.isFinite(amount) || amount <= 0){ alert('Enter a positive amount, or leave it blank.'); return }
+        fine = { amount, policyVersion: suggested && amount === suggested.amount ? suggested.policyVersion : undefined }
+      }
+    }
+    const device_id = producingReaderId(scanSourcesRef.current, loan.item_tag, cardUidFromInput(returnCardRef.current?.value ?? ''))
+    try{
+      const result = await closeLoan(loan.id, outcome, device_id, fine)
+      setTx(v => [result.tx, ...v])
+      append(`[${outcome}] ${loan.student_index} -> ${loan.item_tag}${result.fine ? ` (fine ${result.fine.amount.toFixed(2)} ${result.fine.currency})` : ''}`)
+    }catch(err){
+      alert(`Cannot record ${LOAN_OUTCOMES[outcome].toLowerCase()} for ${what}: ${getErrorMessage(err)}`)
+    }
+    refresh(); refreshAlerts()
+    await loadLoansForReturn()
+    // The device would keep sending reminders for it otherwise
+    if (connected && loan.user_uid && (await db.loans.get(loan.id))?.status === outcome) {
+      warnIfNotRecorded(LOAN_OUTCOMES[outcome], [await sendSerialCommand(`RETURN ${loan.user_uid.toUpperCase()} | ${loan.item_tag}`)])
+    }
+  }
+
+  async function checkInFoundItem(item_tag: string){
+    const device_id = producingReaderId(scanSourcesRef.current, item_tag, null)
+    try{
+      const { loan, tx, hold } = await checkInFound(item_tag, device_id, ADMIN_USER)
+      setTx(v => [tx, ...v])
+      append(`[FOUND] ${item_tag} checked in (loan of ${loan.student_index})`)
+      if (hold) await announceHold(hold)
+    }catch(err){
+      alert(getErrorMessage(err))
+    }
+    refresh(); refreshAlerts()
+  }
+
+  // Renews each picked loan; refusals (limit reached, reserved) are listed together at the end
+  async function renewLoans(picked: Loan[]){
+    const device_id = producingReaderId(scanSourcesRef.current, '', cardUidFromInput(returnCardRef.current?.value ?? ''))
+    const refused: string[] = []
+    for(const l of picked){
+      try{
+        const { loan, tx } = await renew(l.id, device_id)
+        setTx(v => [tx, ...v])
+        append(`[RENEW] ${loan.student_index} -> ${loan.item_tag} (due ${format(new Date(loan.due_at), 'yyyy-MM-dd HH:mm')}, renewal ${loan.renewals}/${(await loanRuleFor(loan)).maxRenewals})`)
+        if (connected && loan.user_uid) {
+          warnIfNotRecorded('Renewal', [await sendSerialCommand(`RENEW ${loan.user_uid.toUpperCase()} | ${loan.item_tag} | ${format(new Date(loan.due_at), 'yyyy-MM-dd')}`)])
+        }
+      }catch(err){
+        refused.push(`${l.item_title ?? l.item_tag}: ${getErrorMessage(err)}`)
+      }
+    }
+    refresh(); refreshAlerts()
+    await loadLoansForReturn()
+    if(refused.length) alert(`Not renewed:\n${refused.join('\n')}`)
+  }
+
+  // ===== Tag writer =====
+  async function encodeItemLabel(request: TagWriteRequest, readerId: string, onStep: (r: TagWriteReport) => void): Promise<TagWriteResult>{
+    const result = await writeItemTag(request, cmd => sendSerialCommand(cmd, readerId), readerId, onStep)
+    const failed = result.reports.find(r => !r.ok)
+    append(result.ok ? `Label encoded: ${result.item!.tag}` : `Label not encoded (${TAG_WRITE_STEPS[failed!.step]}): ${failed!.detail}`)
+    return result
+  }
+
+  // ===== Device queue =====
+  // Pulls the device's offline ledger, applies what the kiosk missed, then clears it on the device
+  async function reconcileDevice(){
+    const target = commandReader()
+    if(!target){ append('Not connected to device.'); return }
+    const res = await sendSerialCommand('QUEUE', target.id)
+    if(!res?.ok) return
+    const records = res.queue ?? []
+    if(records.length === 0){ append(`[QUEUE] ${target.name}: nothing pending.`); return }
+
+    let summary
+    try{
+      summary = await reconcileDeviceQueue(records, target.id, target.uidProfile)
+    }catch(e){
+      append(`[QUEUE] ${getErrorMessage(e)} — device queue left as is.`)
+      return
     }
+    append(`[QUEUE] ${target.name}: ${summary.imported} imported, ${summary.matched} already known, ${summary.conflicts} to review.`)
+    summary.results
+      .filter(r => r.outcome === 'conflict')
+      .forEach(r => append(`[QUEUE] #${r.record.seq} ${r.record.op} ${r.record.tag}: ${r.reason}`))
+
+    setTx(await db.transactions.orderBy('occurred_at').reverse().limit(500).toArray())
+    setConflicts(await openDeviceConflicts())
+    refresh(); refreshAlerts()
+
+    if(summary.lastSeq !== null){
+      const cleared = await sendSerialCommand(`QUEUE CLEAR ${summary.lastSeq}`, target.id)
+      if(cleared?.ok) append(`[QUEUE] Device queue cleared up to #${summary.lastSeq}.`)
+      sendSerialCommand('STATUS', target.id)
+    }
+  }
+
+  async function dismissConflict(id: string){
+    await resolveDeviceConflict(id)
+    setConflicts(await openDeviceConflicts())
   }
 
   // ===== Alerts =====
   async function refreshAlerts(){
     const all = await db.loans.where('status').equals('ACTIVE').toArray()
-    const soonCutoff = new Date(); soonCutoff.setDate(soonCutoff.getDate() + 2)
+    const now = new Date()
+    const soonCutoff = new Date(now); soonCutoff.setDate(soonCutoff.getDate() + 2)
+    const hourCutoff = new Date(now.getTime() + 60 * 60 * 1000)
     const flagged = all
       .filter(l => new Date(l.due_at) <= soonCutoff)
       .sort((a,b)=> a.due_at.localeCompare(b.due_at))
     setAlerts(flagged)
+    setDueNextHour(flagged.filter(l => new Date(l.due_at) > now && new Date(l.due_at) <= hourCutoff))
   }
 
+  const allConnected = readers.length > 0 && readers.every(r => runtime[r.id]?.state === 'connected')
+  const commandTarget = connected ? commandReader() : null
+
   // Filters
   const filtStudents = useMemo(()=>{
     const q = stQuery.toLowerCase()
@@ -351,11 +929,15 @@ export default function App(){
       <div className="topactions">
         <button className="btn" onClick={()=> setAutosync(a=>!a)}>{autosync ? 'Auto-sync: ON' : 'Auto-sync: OFF'}</button>
         <button className="btn primary" onClick={()=> trySync(false)}>Sync Now</button>
-        <button className="btn" onClick={connectSerial} disabled={connected}>{connected ? 'Port: Connected' : 'Connect Reader'}</button>
+        <button className="btn" onClick={connectReaders} disabled={allConnected}>{allConnected ? 'Readers: Connected' : readers.length > 1 ? 'Connect Readers' : 'Connect Reader'}</button>
         <button className="btn" onClick={()=> { localStorage.removeItem('authed'); location.reload() }}>Logout</button>
       </div>
       <div className="badge">
-        <span>Device: <b>{connected ? 'Connected' : 'Disconnected'}</b></span>
+        {readers.length === 0 && <span>Device: <b>No readers</b></span>}
+        {readers.map(r => {
+          const rt = runtime[r.id]
+          return <span key={r.id}>{readers.length > 1 ? r.name : 'Device'}: <b style={{color: rt?.state === 'reconnecting' ? ORANGE : 'inherit'}}>{connectionLabel(rt)}</b></span>
+        })}
         <span>Today: <b>{today}</b></span>
         <span>Total: <b>{total}</b></span>
         <span>Unsynced: <b style={{color: unsynced? ORANGE : 'inherit'}}>{unsynced}</b></span>
@@ -370,16 +952,39 @@ export default function App(){
         <button className="navbtn" onClick={()=> setRoute('#transactions')}>🧾 Transactions</button>
         <button className="navbtn" onClick={()=> setRoute('#students')}>👥 Students</button>
         <button className="navbtn" onClick={()=> setRoute('#manage-students')}>👤 Manage Students</button>
+        <button className="navbtn" onClick={()=> setRoute('#reservations')}>📌 Reservations</button>
+        <button className="navbtn" onClick={()=> setRoute('#catalog')}>📚 Catalog</button>
+        <button className="navbtn" onClick={()=> setRoute('#tags')}>🏷️ Tag Writer</button>
         <button className="navbtn" onClick={()=> setRoute('#settings')}>⚙️ Settings</button>
       </div>
 
       <div className="content">
         <div className="content-inner">
+          {readers.map(r => {
+            const profile = deviceProfiles[r.id]
+            const warning = runtime[r.id]?.state === 'connected' && profile && firmwareWarning(profile, r.name)
+            return warning && <div key={r.id} className="card" style={{marginBottom:12}}>
+              <div className="stripe" style={{background:'#DC2626'}}/>
+              <div style={{fontWeight:600}}>⚠ Firmware update needed</div>
+              <div className="notice">{warning}</div>
+            </div>
+          })}
+          {readers.map(r => {
+            const transport = linksRef.current.get(r.id)?.transport
+            return runtime[r.id]?.state === 'connected' && transport instanceof EmulatorTransport && (
+              <EmulatorPanel key={r.id} device={transport.device} reader={r} students={students} />
+            )
+          })}
           {route === '#borrow' ? (
             <BorrowView
               refs={{ borrowCardRef, borrowIndexRef, borrowItemTagRef, borrowItemTitleRef, borrowDaysRef }}
               onSubmit={submitBorrow}
               lastScannedUID={lastScannedUID}
+              lastScannedTag={lastScannedTag}
+              onUseTag={tag => { borrowItemTagRef.current!.value = tag; fillBorrowTitle(tag) }}
+              deskPatron={deskPatron}
+              onClearDesk={() => scanSession().clearPatron()}
+              scanState={scanState}
               connected={connected}
               sendSerialCommand={sendSerialCommand}
             />
@@ -389,12 +994,19 @@ export default function App(){
               loans={loans}
               loadLoans={loadLoansForReturn}
               onReturn={markReturned}
+              onRenew={renewLoans}
+              onOutcome={closeLoanAs}
+              student={returnStudent}
+              append={append}
               lastScannedUID={lastScannedUID}
+              deskPatron={deskPatron}
+              onClearDesk={() => scanSession().clearPatron()}
+              scanState={scanState}
               connected={connected}
               sendSerialCommand={sendSerialCommand}
             />
           ) : route === '#students' ? (
-            <StudentsView list={filtStudents} stQuery={stQuery} setStQuery={setStQuery} />
+            <StudentsView list={filtStudents} stQuery={stQuery} setStQuery={setStQuery} append={append} />
           ) : route === '#transactions' ? (
             <TransactionsView list={filtTx} txQuery={txQuery} setTxQuery={setTxQuery} />
           ) : route === '#manage-students' ? (
@@ -404,25 +1016,65 @@ export default function App(){
               refresh={refresh}
               append={append}
               lastScannedUID={lastScannedUID}
+              cardUidFromInput={cardUidFromInput}
+              keyboardUidProfile={keyboardUidProfile}
               manageAddCardRef={manageAddCardRef}
               manageEditCardRef={manageEditCardRef}
               connected={connected}
               sendSerialCommand={sendSerialCommand}
             />
+          ) : route === '#reservations' ? (
+            <ReservationsView students={students} append={append} lastScannedTag={lastScannedTag} />
+          ) : route === '#catalog' ? (
+            <CatalogView append={append} lastScannedTag={lastScannedTag} />
+          ) : route === '#tags' ? (
+            <TagWriterView
+              readers={readers.filter(r => runtime[r.id]?.state === 'connected' && readerSupports(r.id, 'tagWriting'))}
+              defaultReaderId={pickWriterReader(readers, id => runtime[id]?.state === 'connected' && readerSupports(id, 'tagWriting'))?.id ?? ''}
+              lastScannedTag={lastScannedTag}
+              onWrite={encodeItemLabel}
+            />
           ) : route === '#settings' ? (
             <SettingsView
+              readers={readers}
+              runtime={runtime}
+              onSaveReaders={applyReaders}
+              onConnectReader={connectReader}
+              transportOf={id => linksRef.current.get(id)?.transport}
+              commandReaderId={commandReaderId}
+              onSelectCommandReader={setCommandReaderId}
+              commandTarget={commandTarget}
+              deviceProfiles={deviceProfiles}
+              clockChecks={clockChecks}
+              onCheckClock={checkDeviceClock}
+              wedge={wedge}
+              onToggleWedge={toggleWedge}
+              wedgeItemPattern={wedgeItemPattern}
+              onChangeWedgeItemPattern={changeWedgeItemPattern}
+              keyboardUidProfile={keyboardUidProfile}
+              onChangeKeyboardUidProfile={changeKeyboardUidProfile}
+              scanSettings={scanSettings}
+              onChangeScanSettings={changeScanSettings}
               sendSerialCommand={sendSerialCommand}
               connected={connected}
-              deviceStatus={deviceStatus}
+              onReconcile={reconcileDevice}
+              conflicts={conflicts}
+              onDismissConflict={dismissConflict}
             />
           ) : (
             <DashboardView
               log={log}
               alerts={alerts}
+              dueNextHour={dueNextHour}
               onRefreshAlerts={refreshAlerts}
               logBoxRef={logBoxRef}
               sendSerialCommand={sendSerialCommand}
               connected={connected}
+              recording={recording}
+              onToggleRecording={toggleRecording}
+              replaying={replaying}
+              onReplay={startReplay}
+              onStopReplay={stopReplay}
             />
           )}
         </div>
@@ -438,11 +1090,23 @@ export default function App(){
 // ---------- Views ----------
 
 function DashboardView({
-  log, alerts, onRefreshAlerts, logBoxRef, sendSerialCommand, connected
-}:{ log:string; alerts:Loan[]; onRefreshAlerts:()=>void; logBoxRef:React.RefObject<HTMLDivElement>; sendSerialCommand:(cmd:string)=>void; connected:boolean }){
+  log, alerts, dueNextHour, onRefreshAlerts, logBoxRef, sendSerialCommand, connected,
+  recording, onToggleRecording, replaying, onReplay, onStopReplay
+}:{
+  log:string; alerts:Loan[]; dueNextHour:Loan[]; onRefreshAlerts:()=>void; logBoxRef:React.RefObject<HTMLDivElement>; sendSerialCommand:(cmd:string)=>void; connected:boolean;
+  recording:boolean; onToggleRecording:()=>void; replaying:boolean; onReplay:(file:File, speed:number)=>void; onStopReplay:()=>void
+}){
   const [s, setS] = useState({total:0,today:0,unsynced:0,borrowed:0,returned:0})
+  const [replaySpeed, setReplaySpeed] = useState(1)
   useEffect(()=>{ stats().then(setS) }, [log])
-  useEffect(()=>{ onRefreshAlerts() }, [log])
+  const onRefreshAlertsRef = useRef(onRefreshAlerts)
+  onRefreshAlertsRef.current = onRefreshAlerts
+  useEffect(()=>{ onRefreshAlertsRef.current() }, [log])
+  // Hour and minute loans go overdue between log lines; re-check every minute
+  useEffect(()=>{
+    const timer = setInterval(() => onRefreshAlertsRef.current(), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [])
 
   async function sendReminder(loan: Loan){
     const student = await db.students.where('index_number').equals(loan.student_index || '').first()
@@ -470,7 +1134,20 @@ function DashboardView({
       <div>
         <div style={{fontWeight:600, marginBottom:6, display:'flex', justifyContent:'space-between', alignItems:'center'}}>
           <span>Live Log</span>
-          <div style={{display:'flex', gap:8}}>
+          <div style={{display:'flex', gap:8, flexWrap:'wrap'}}>
+            <button className={recording ? 'btn warn' : 'btn'} onClick={onToggleRecording}>{recording ? '■ Stop & Download' : '● Record'}</button>
+            <select className="search" style={{width:110}} value={replaySpeed} onChange={e=> setReplaySpeed(Number(e.target.value))}>
+              <option value={1}>1x</option>
+              <option value={4}>4x</option>
+              <option value={20}>20x</option>
+              <option value={Infinity}>Instant</option>
+            </select>
+            {replaying
+              ? <button className="btn" onClick={onStopReplay}>Stop Replay</button>
+              : <label className="btn" style={{cursor:'pointer'}}>
+                  Replay…
+                  <input type="file" accept="application/json" hidden onChange={e=>{ const f = e.target.files?.[0]; if(f) onReplay(f, replaySpeed); e.currentTarget.value = '' }} />
+                </label>}
             <button className="btn" onClick={()=>sendSerialCommand('STATUS')} disabled={!connected}>STATUS</button>
           </div>
         </div>
@@ -479,12 +1156,35 @@ function DashboardView({
         </div>
       </div>
 
+      <div>
+        <div style={{fontWeight:600, marginBottom:6}}>Due in the Next Hour</div>
+        <div className="table-wrap">
+          <table className="table">
+            <thead><tr>
+              <th>Student</th><th>Item</th><th>Due</th><th>Due In</th><th>Action</th>
+            </tr></thead>
+            <tbody>
+              {dueNextHour.map(l=>(
+                <tr key={l.id}>
+                  <td>{l.student_index}</td>
+                  <td>{l.item_title ?? l.item_tag}</td>
+                  <td>{format(new Date(l.due_at), 'HH:mm')}</td>
+                  <td style={{color:'#B45309'}}>{describeMinutes(Math.max(0, Math.ceil((new Date(l.due_at).getTime() - Date.now()) / 60000)))}</td>
+                  <td><button className="btn primary" disabled={!connected} onClick={()=>sendReminder(l)}>Send Reminder SMS</button></td>
+                </tr>
+              ))}
+              {dueNextHour.length===0 && <tr><td colSpan={5} className="notice">Nothing due in the next hour.</td></tr>}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       <div>
         <div style={{fontWeight:600, marginBottom:6}}>Due Soon / Overdue</div>
         <div className="table-wrap">
           <table className="table">
             <thead><tr>
-              <th>Student</th><th>Book</th><th>Due</th><th>Status</th><th>Action</th>
+              <th>Student</th><th>Book</th><th>Due</th><th>Renewals</th><th>Status</th><th>Action</th>
             </tr></thead>
             <tbody>
               {alerts.map(l=>{
@@ -493,13 +1193,14 @@ function DashboardView({
                   <tr key={l.id}>
                     <td>{l.student_index}</td>
                     <td>{l.item_title ?? l.item_tag}</td>
-                    <td>{l.due_at.slice(0,19).replace('T',' ')}</td>
-                    <td style={{color: overdue ? '#DC2626' : '#B45309'}}>{overdue ? 'Overdue' : 'Due soon'}</td>
+                    <td>{format(new Date(l.due_at), 'yyyy-MM-dd HH:mm:ss')}</td>
+                    <td>{l.renewals ?? 0}</td>
+                    <td style={{color: overdue ? '#DC2626' : '#B45309'}}>{overdue ? `Overdue ${describeMinutes(minutesOverdue(l))}` : 'Due soon'}</td>
                     <td><button className="btn primary" disabled={!connected} onClick={()=>sendReminder(l)}>Send Reminder SMS</button></td>
                   </tr>
                 )
               })}
-              {alerts.length===0 && <tr><td colSpan={5} className="notice">No upcoming or overdue items.</td></tr>}
+              {alerts.length===0 && <tr><td colSpan={6} className="notice">No upcoming or overdue items.</td></tr>}
             </tbody>
           </table>
         </div>
@@ -508,21 +1209,34 @@ function DashboardView({
   </>
 }
 
+type DeskPatronView = { uid: string; student: Student | null } | null
+
+function DeskPatronBar({patron, onClear}:{patron:DeskPatronView; onClear:()=>void}){
+  if(!patron) return null
+  return <div className="notice" style={{display:'flex', gap:8, alignItems:'center', marginBottom:8}}>
+    At the desk: <b>{patron.student ? `${patron.student.full_name} (${patron.student.index_number})` : patron.uid}</b>
+    <button className="btn" onClick={onClear}>Clear</button>
+  </div>
+}
+
 function BorrowView({
-  refs, onSubmit, lastScannedUID, connected, sendSerialCommand
+  refs, onSubmit, lastScannedUID, lastScannedTag, onUseTag, deskPatron, onClearDesk, scanState, connected, sendSerialCommand
 }:{
   refs:any; onSubmit:()=>Promise<void>; lastScannedUID:string;
+  lastScannedTag:string; onUseTag:(tag:string)=>void;
+  deskPatron:DeskPatronView; onClearDesk:()=>void; scanState:ScanState;
   connected:boolean; sendSerialCommand:(cmd:string)=>void
 }){
   return <div style={{maxWidth:860}}>
     <div style={{display:'flex', justifyContent:'space-between', alignItems:'center', gap:12}}>
       <div style={{fontWeight:700, fontSize:18}}>Borrow</div>
       <div style={{display:'flex', gap:8}}>
-        <button className="btn" onClick={()=>sendSerialCommand('SCAN')} disabled={!connected}>SCAN</button>
+        <button className="btn" onClick={()=>sendSerialCommand('SCAN')} disabled={!connected || scanState === 'armed'}>{scanState === 'armed' ? 'Waiting for card…' : 'SCAN'}</button>
         <button className="btn" onClick={()=>sendSerialCommand('STATUS')} disabled={!connected}>STATUS</button>
       </div>
     </div>
-    <p className="notice">Scan card (or enter manually), then enter book details and duration. Students may hold up to <b>3</b> active loans.</p>
+    <p className="notice">Scan card (or enter manually), then scan the book tag (title fills in when known) and set the duration. How many loans a student may hold, and for how long, follows the Circulation Rules in Settings.</p>
+    <DeskPatronBar patron={deskPatron} onClear={onClearDesk} />
     <div style={{display:'grid', gridTemplateColumns:'1fr 1fr', gap:12}}>
       <div>
         <div style={{fontWeight:600, marginBottom:4}}>Identity</div>
@@ -535,13 +1249,16 @@ function BorrowView({
       </div>
       <div>
         <div style={{fontWeight:600, marginBottom:4}}>Book</div>
-        <input ref={refs.borrowItemTagRef} placeholder="Item Tag (scan or type)" className="search" />
+        <div style={{display:'flex', gap:8}}>
+          <input ref={refs.borrowItemTagRef} placeholder="Item Tag (scan or type)" className="search" style={{flex:1}} />
+          <button className="btn" onClick={() => onUseTag(lastScannedTag)} disabled={!lastScannedTag}>Use Last Scan</button>
+        </div>
         <input ref={refs.borrowItemTitleRef} placeholder="Title (optional but nice)" className="search" style={{marginTop:8}} />
       </div>
     </div>
     <div style={{display:'flex', gap:12, marginTop:12, alignItems:'center', flexWrap:'wrap'}}>
-      <input ref={refs.borrowDaysRef} defaultValue="14" type="number" min={1} className="search" style={{width:120}} />
-      <span className="notice">days</span>
+      <input ref={refs.borrowDaysRef} placeholder="By rule" className="search" style={{width:120}} />
+      <span className="notice">days, or hours / minutes such as 3h or 90m (blank: the loan period the circulation rules give this student and item type)</span>
       <button className="btn primary" onClick={onSubmit}>Confirm Borrow</button>
       {!connected && <span className="notice">Device not connected — borrowing still saves locally.</span>}
     </div>
@@ -549,20 +1266,34 @@ function BorrowView({
 }
 
 function ReturnView({
-  refs, loans, loadLoans, onReturn, lastScannedUID, connected, sendSerialCommand
+  refs, loans, loadLoans, onReturn, onRenew, onOutcome, student, append, lastScannedUID, deskPatron, onClearDesk, scanState, connected, sendSerialCommand
 }:{
-  refs:any; loans: Loan[]; loadLoans: () => Promise<void>; onReturn: (l: Loan) => Promise<void>;
-  lastScannedUID: string; connected:boolean; sendSerialCommand:(cmd:string)=>void
+  refs:any; loans: Loan[]; loadLoans: () => Promise<void>; onReturn: (l: Loan) => Promise<void>; onRenew: (picked: Loan[]) => Promise<void>;
+  onOutcome: (l: Loan, outcome: LoanOutcome) => Promise<void>; student: Student | null; append:(s:string)=>void;
+  lastScannedUID: string; deskPatron:DeskPatronView; onClearDesk:()=>void; scanState:ScanState;
+  connected:boolean; sendSerialCommand:(cmd:string)=>void
 }){
+  const [picked, setPicked] = useState<string[]>([])
+  useEffect(()=>{ setPicked(p => p.filter(id => loans.some(l => l.id === id))) }, [loans])
+  const toggle = (id: string) => setPicked(p => p.includes(id) ? p.filter(x => x !== id) : [...p, id])
+  // Renewals allowed per loan, from the circulation rules
+  const [renewalLimits, setRenewalLimits] = useState<Record<string, number>>({})
+  useEffect(()=>{
+    loadLoanRules()
+      .then(rules => Promise.all(loans.map(async l => [l.id, (await loanRuleFor(l, rules)).maxRenewals] as const)))
+      .then(limits => setRenewalLimits(Object.fromEntries(limits)))
+  }, [loans])
+
   return <div style={{maxWidth:960}}>
     <div style={{display:'flex', justifyContent:'space-between', alignItems:'center', gap:12}}>
       <div style={{fontWeight:700, fontSize:18}}>Return</div>
       <div style={{display:'flex', gap:8}}>
-        <button className="btn" onClick={()=>sendSerialCommand('SCAN')} disabled={!connected}>SCAN</button>
+        <button className="btn" onClick={()=>sendSerialCommand('SCAN')} disabled={!connected || scanState === 'armed'}>{scanState === 'armed' ? 'Waiting for card…' : 'SCAN'}</button>
         <button className="btn" onClick={()=>sendSerialCommand('STATUS')} disabled={!connected}>STATUS</button>
       </div>
     </div>
-    <p className="notice">Scan card (or enter index) to list active loans for that student, then mark the returned item.</p>
+    <p className="notice">Scan card (or enter index) to list active loans for that student, then mark the returned item, or tick loans and renew them. Scanning an item tag returns its active loan directly, or checks in a lost or claimed-returned item as found.</p>
+    <DeskPatronBar patron={deskPatron} onClear={onClearDesk} />
     <div style={{display:'grid', gridTemplateColumns:'1fr 1fr', gap:12}}>
       <div style={{display:'flex', gap:8}}>
         <input ref={refs.returnCardRef} placeholder="Card UID (scan or type)" className="search" style={{flex:1}} />
@@ -572,36 +1303,671 @@ function ReturnView({
     </div>
     <div style={{marginTop:10, display:'flex', gap:8, flexWrap:'wrap'}}>
       <button className="btn" onClick={loadLoans}>Load Loans</button>
+      <button className="btn" onClick={()=> onRenew(loans.filter(l => picked.includes(l.id)))} disabled={picked.length === 0}>Renew Selected ({picked.length})</button>
       {!connected && <span className="notice">Device not connected — marking returns still saves locally.</span>}
     </div>
 
     <div className="table-wrap" style={{marginTop:12}}>
       <table className="table">
         <thead><tr>
-          <th>Book</th><th>Item Tag</th><th>Borrowed</th><th>Due</th><th>Status</th><th>Action</th>
+          <th></th><th>Book</th><th>Item Tag</th><th>Borrowed</th><th>Due</th><th>Renewals</th><th>Status</th><th>Action</th>
         </tr></thead>
         <tbody>
           {loans.map(l=>{
             const overdue = new Date(l.due_at) < new Date()
             return (
               <tr key={l.id}>
+                <td><input type="checkbox" checked={picked.includes(l.id)} onChange={()=> toggle(l.id)} /></td>
                 <td>{l.item_title ?? '-'}</td>
                 <td>{l.item_tag}</td>
-                <td>{l.borrowed_at.slice(0,19).replace('T',' ')}</td>
-                <td>{l.due_at.slice(0,19).replace('T',' ')}</td>
-                <td style={{color: overdue ? '#DC2626' : '#16A34A'}}>{overdue ? 'Overdue' : 'Active'}</td>
-                <td><button className="btn primary" onClick={()=> onReturn(l)}>Mark Returned</button></td>
+                <td>{format(new Date(l.borrowed_at), 'yyyy-MM-dd HH:mm:ss')}</td>
+                <td>{format(new Date(l.due_at), 'yyyy-MM-dd HH:mm:ss')}</td>
+                <td>{l.renewals ?? 0}/{renewalLimits[l.id] ?? '-'}</td>
+                <td style={{color: overdue ? '#DC2626' : '#16A34A'}}>{overdue ? `Overdue ${describeMinutes(minutesOverdue(l))}` : 'Active'}</td>
+                <td style={{display:'flex', gap:6}}>
+                  <button className="btn primary" onClick={()=> onReturn(l)}>Mark Returned</button>
+                  <select className="search" style={{width:150}} value="" onChange={e=> e.target.value && onOutcome(l, e.target.value as LoanOutcome)}>
+                    <option value="">Other outcome…</option>
+                    {(Object.keys(LOAN_OUTCOMES) as LoanOutcome[]).map(o => <option key={o} value={o}>{LOAN_OUTCOMES[o]}</option>)}
+                  </select>
+                </td>
               </tr>
             )
           })}
-          {loans.length===0 && <tr><td colSpan={6} className="notice">No active loans for that student.</td></tr>}
+          {loans.length===0 && <tr><td colSpan={8} className="notice">No active loans for that student.</td></tr>}
+        </tbody>
+      </table>
+    </div>
+    {student && <FinesPanel student={student} append={append} unpaidOnly refreshKey={loans} />}
+  </div>
+}
+
+// A student's fines with payment and waiver; on Return only what is still owed is listed
+function FinesPanel({student, append, unpaidOnly = false, refreshKey}:{student:Student; append:(s:string)=>void; unpaidOnly?:boolean; refreshKey?:unknown}){
+  const [fines, setFines] = useState<Fine[]>([])
+  const [threshold] = useState(() => loadFineSettings().blockThreshold)
+
+  const load = useCallback(async () => {
+    const all = await fineManager.getStudentFines(student.id!)
+    setFines(unpaidOnly ? all.filter(f => f.status === 'PENDING' || f.status === 'PARTIAL') : all)
+  }, [student.id, unpaidOnly])
+  useEffect(()=>{ load() }, [load, refreshKey])
+
+  const owed = fineManager.getTotalFineAmount(fines)
+  const currency = fines[0]?.currency ?? ''
+
+  async function pay(f: Fine){
+    const balance = f.amount - (f.paidAmount ?? 0)
+    const answer = prompt(`Payment towards ${f.description} (balance ${balance.toFixed(2)} ${f.currency}):`, balance.toFixed(2))
+    if(answer === null) return
+    const res = await fineManager.payFine(f.id, Number(answer), ADMIN_USER)
+    if(!res.success){ alert(res.error); return }
+    append(`[FINE] ${student.index_number} paid ${Number(answer).toFixed(2)} ${f.currency} towards ${f.itemTag} (${FINE_STATUS[res.fine!.status].toLowerCase()})`)
+    await load()
+  }
+
+  async function waive(f: Fine){
+    const reason = prompt(`Reason for waiving ${f.description}:`, '')
+    if(reason === null) return
+    const res = await fineManager.waiveFine(f.id, reason, ADMIN_USER)
+    if(!res.success){ alert(res.error); return }
+    append(`[FINE] Waived ${f.itemTag} fine for ${student.index_number}: ${reason}`)
+    await load()
+  }
+
+  return <div className="card" style={{marginTop:12}}>
+    <div style={{display:'flex', justifyContent:'space-between', alignItems:'center'}}>
+      <div style={{fontWeight:700}}>Fines — {student.full_name}</div>
+      <div style={{color: owed > threshold ? '#DC2626' : 'inherit'}}>
+        Owed: <b>{owed.toFixed(2)} {currency}</b>{owed > threshold && ` (over the ${threshold.toFixed(2)} limit; borrowing blocked)`}
+      </div>
+    </div>
+    <div className="table-wrap" style={{marginTop:8}}>
+      <table className="table">
+        <thead><tr><th>Issued</th><th>Type</th><th>Description</th><th>Amount</th><th>Paid</th><th>Status</th><th>History</th><th>Actions</th></tr></thead>
+        <tbody>
+          {fines.map(f => {
+            const open = f.status === 'PENDING' || f.status === 'PARTIAL'
+            return <tr key={f.id}>
+              <td>{f.issuedAt.slice(0,10)}</td>
+              <td>{FINE_TYPES[f.type]}</td>
+              <td>{f.description}</td>
+              <td>{f.amount.toFixed(2)} {f.currency}</td>
+              <td>{(f.paidAmount ?? 0).toFixed(2)}</td>
+              <td style={{color: open ? '#DC2626' : '#16A34A'}}>{FINE_STATUS[f.status]}</td>
+              <td className="notice">
+                {(f.payments ?? []).map((p, i) => <div key={i}>{p.paidAt.slice(0,10)} {p.amount.toFixed(2)} by {p.receivedBy}</div>)}
+                {f.status === 'WAIVED' && <div>Waived by {f.waivedBy}: {f.waivedReason}</div>}
+              </td>
+              <td style={{display:'flex', gap:6}}>
+                {open && <button className="btn primary" onClick={()=> pay(f)}>Pay</button>}
+                {open && <button className="btn warn" onClick={()=> waive(f)}>Waive</button>}
+              </td>
+            </tr>
+          })}
+          {fines.length===0 && <tr><td colSpan={8} className="notice">{unpaidOnly ? 'No unpaid fines.' : 'No fines.'}</td></tr>}
+        </tbody>
+      </table>
+    </div>
+  </div>
+}
+
+function connectionLabel(rt?: ReaderRuntime){
+  if(!rt) return 'Disconnected'
+  return rt.state === 'connected' ? 'Connected'
+    : rt.state === 'reconnecting' ? `Reconnecting… (${rt.attempt})`
+    : rt.state === 'connecting' ? 'Connecting…'
+    : 'Disconnected'
+}
+
+// Demo/training controls for the virtual device: "tap" seeded cards and books on the pad
+function EmulatorPanel({device, reader, students}:{device:VirtualDevice; reader:ReaderConfig; students:Student[]}){
+  const [tags, setTags] = useState<Array<{tag:string; title:string|null}>>([])
+  const [, setLabelTick] = useState(0)
+  const label = device.label
+  useEffect(()=>{
+    db.items.toArray().then(items => setTags(items.map(i => ({tag: i.tag, title: i.title}))))
+  }, [])
+  const cards = students.filter(s => s.card_uid)
+  function toggleLabel(){
+    if(device.label) device.removeLabel()
+    else device.placeLabel()
+    setLabelTick(t => t + 1)
+  }
+
+  return <div className="card" style={{marginBottom:12}}>
+    <div className="stripe" style={{background:ORANGE}}/>
+    <div style={{fontWeight:600, marginBottom:6}}>{reader.name} (virtual) — tap a {reader.role === 'card' ? 'card' : reader.role === 'item' ? 'book' : 'card or book'}</div>
+    <div style={{display:'flex', gap:8, flexWrap:'wrap'}}>
+      {reader.role !== 'item' && cards.map(s => <button key={s.id} className="btn" onClick={()=> device.tapCard(s.card_uid!)}>🪪 {s.full_name}</button>)}
+      {reader.role !== 'card' && tags.map(t => <button key={t.tag} className="btn" onClick={()=> device.tapItem(t.tag)}>📘 {t.title ?? t.tag}</button>)}
+      {reader.role !== 'card' && <button className="btn" onClick={toggleLabel}>{label ? '🏷️ Remove Label' : '🏷️ Place Blank Label'}</button>}
+    </div>
+    <div className="notice" style={{marginTop:6}}>
+      SMS: <b>{device.sms ? 'ON' : 'OFF'}</b> • Device borrows: <b>{device.borrows.length}</b> • Queue: <b>{device.queuePending}</b>
+      {label && <> • Label: <b>{label.tag ? `${label.tag}${label.owner ? ` (${label.owner})` : ''}` : 'blank'}</b></>}
+    </div>
+  </div>
+}
+
+function TagWriterView({
+  readers, defaultReaderId, lastScannedTag, onWrite
+}:{
+  readers: ReaderConfig[]; defaultReaderId: string; lastScannedTag: string;
+  onWrite: (request: TagWriteRequest, readerId: string, onStep: (r: TagWriteReport) => void) => Promise<TagWriteResult>
+}){
+  const [tag, setTag] = useState('')
+  const [title, setTitle] = useState('')
+  const [owner, setOwner] = useState(loadOwnerCode)
+  const [readerId, setReaderId] = useState(defaultReaderId)
+  const [reports, setReports] = useState<TagWriteReport[]>([])
+  const [busy, setBusy] = useState(false)
+  const [tags, setTags] = useState<string[]>([])
+  const [recent, setRecent] = useState<TaggedItem[]>([])
+
+  async function loadTags(){
+    setTags(await knownItemTags())
+    setRecent(await db.taggedItems.orderBy('written_at').reverse().limit(20).toArray())
+  }
+  useEffect(()=>{ loadTags() }, [])
+  useEffect(()=>{
+    if(!readers.some(r => r.id === readerId)) setReaderId(defaultReaderId)
+  }, [readers, readerId, defaultReaderId])
+
+  async function pickTag(value: string){
+    setTag(value)
+    const known = value.trim() ? await lookupItemTitle(value.trim()) : null
+    if(known) setTitle(known)
+  }
+
+  async function write(){
+    setBusy(true)
+    setReports([])
+    saveOwnerCode(owner)
+    const result = await onWrite({ item_tag: tag, item_title: title, owner_code: owner }, readerId, r => setReports(rs => [...rs, r]))
+    setBusy(false)
+    if(result.ok) loadTags()
+  }
+
+  const reportFor = (step: TagWriteStep) => reports.find(r => r.step === step)
+
+  return <div style={{maxWidth:860}}>
+    <div style={{fontWeight:700, fontSize:18}}>Tag Writer</div>
+    <p className="notice">Place a blank label on the reader, pick an existing item or create a new tag, then write it. The label is read back before the tag is saved locally.</p>
+    <div style={{display:'grid', gridTemplateColumns:'1fr 1fr', gap:12}}>
+      <div>
+        <div style={{fontWeight:600, marginBottom:4}}>Item</div>
+        <div style={{display:'flex', gap:8}}>
+          <input list="tag-writer-tags" placeholder="Item Tag" className="search" style={{flex:1}} value={tag} onChange={e=> pickTag(e.target.value)} />
+          <datalist id="tag-writer-tags">{tags.map(t => <option key={t} value={t} />)}</datalist>
+          <button className="btn" onClick={()=> { setTag(suggestItemTag(tags)); setTitle('') }}>New Tag</button>
+          <button className="btn" onClick={()=> pickTag(lastScannedTag)} disabled={!lastScannedTag}>Use Last Scan</button>
+        </div>
+        <input placeholder="Title" className="search" style={{marginTop:8}} value={title} onChange={e=> setTitle(e.target.value)} />
+      </div>
+      <div>
+        <div style={{fontWeight:600, marginBottom:4}}>Label</div>
+        <input placeholder="Owner library code (optional)" className="search" value={owner} onChange={e=> setOwner(e.target.value)} />
+        <select className="search" style={{marginTop:8}} value={readerId} onChange={e=> setReaderId(e.target.value)}>
+          {readers.length === 0 && <option value="">No connected reader can write tags</option>}
+          {readers.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+      </div>
+    </div>
+    <div style={{display:'flex', gap:12, marginTop:12, alignItems:'center'}}>
+      <button className="btn primary" onClick={write} disabled={busy || !readerId || !tag.trim()}>{busy ? 'Writing…' : 'Write Label'}</button>
+    </div>
+
+    <div className="card" style={{marginTop:12}}>
+      {(Object.keys(TAG_WRITE_STEPS) as TagWriteStep[]).map(step => {
+        const r = reportFor(step)
+        return <div key={step} style={{display:'flex', gap:8, padding:'2px 0'}}>
+          <span style={{width:18, color: r ? (r.ok ? '#16A34A' : '#DC2626') : '#94A3B8'}}>{r ? (r.ok ? '✓' : '✗') : '•'}</span>
+          <span style={{width:120, fontWeight:600}}>{TAG_WRITE_STEPS[step]}</span>
+          <span className="notice">{r?.detail ?? ''}</span>
+        </div>
+      })}
+    </div>
+
+    <div style={{fontWeight:600, marginTop:16}}>Recently encoded</div>
+    <div className="table-wrap" style={{marginTop:8}}>
+      <table className="table">
+        <thead><tr><th>Item Tag</th><th>Title</th><th>Owner</th><th>Reader</th><th>Written</th></tr></thead>
+        <tbody>
+          {recent.map(t => <tr key={t.tag}>
+            <td>{t.tag}</td><td>{t.title ?? '-'}</td><td>{t.owner_code ?? '-'}</td><td>{t.device_id}</td><td>{t.written_at.slice(0,19).replace('T',' ')}</td>
+          </tr>)}
+          {recent.length===0 && <tr><td colSpan={5} className="notice">No labels encoded yet.</td></tr>}
+        </tbody>
+      </table>
+    </div>
+  </div>
+}
+
+const RESERVATION_STATUS: Record<BookReservation['status'], string> = {
+  ACTIVE: 'Waiting',
+  READY: 'On hold',
+  FULFILLED: 'Collected',
+  CANCELLED: 'Cancelled',
+  EXPIRED: 'Expired',
+}
+
+function ReservationsView({students, append, lastScannedTag}:{students:Student[]; append:(s:string)=>void; lastScannedTag:string}){
+  const [list, setList] = useState<BookReservation[]>([])
+  const [index, setIndex] = useState('')
+  const [tag, setTag] = useState('')
+  const [showClosed, setShowClosed] = useState(false)
+
+  const load = useCallback(async () => {
+    const all = showClosed
+      ? await db.reservations.orderBy('itemTag').toArray()
+      : await reservationManager.getActiveReservations()
+    // Per item, in the order holds are handed out
+    setList(all.sort((a, b) => a.itemTag.localeCompare(b.itemTag) || byQueuePriority(a, b)))
+  }, [showClosed])
+  const appendRef = useRef(append)
+  appendRef.current = append
+  useEffect(()=>{ reservationManager.cleanupExpiredReservations().then(n => { if(n) appendRef.current(`[RESERVATIONS] ${n} expired`) }).then(load) }, [load])
+
+  const nameOf = (id: number) => {
+    const s = students.find(s => s.id === id)
+    return s ? `${s.full_name} (${s.index_number})` : `#${id}`
+  }
+
+  async function place(e: React.FormEvent){
+    e.preventDefault()
+    const student = students.find(s => s.index_number === index.trim())
+    if(!student?.id){ alert('Student not found.'); return }
+    const item_tag = tag.trim()
+    const item = await db.items.get(item_tag)
+    if(!item){ alert(`${item_tag || 'That tag'} is not in the catalog.`); return }
+    const res = await reservationManager.createReservation(student.id, item_tag, item.title)
+    if(!res.success){ alert(res.error); return }
+    append(`[RESERVE] ${item_tag} for ${student.index_number}`)
+    setTag('')
+    await load()
+  }
+
+  async function cancel(r: BookReservation){
+    if(!confirm(`Cancel ${nameOf(r.studentId)}'s reservation of ${r.itemTitle ?? r.itemTag}?`)) return
+    const res = await reservationManager.cancelReservation(r.id)
+    if(!res.success){ alert(res.error); return }
+    append(`[RESERVE] Cancelled ${r.itemTag} for ${nameOf(r.studentId)}`)
+    if(res.next) append(`[HOLD] ${r.itemTag} now held for ${nameOf(res.next.studentId)} until ${res.next.holdUntil?.slice(0,10)}`)
+    await load()
+  }
+
+  async function expire(){
+    const n = await reservationManager.cleanupExpiredReservations()
+    append(`[RESERVATIONS] ${n} expired`)
+    await load()
+  }
+
+  return <div>
+    <div style={{fontWeight:700, fontSize:18, marginBottom:8}}>Reservations</div>
+    <p className="notice">Reserve a book that is out on loan. When it comes back the first patron in line gets it on hold for {HOLD_PICKUP_DAYS} days; nobody else can borrow it meanwhile. Uncollected holds pass to the next in line.</p>
+    <form onSubmit={place} style={{display:'flex', gap:8, flexWrap:'wrap', marginBottom:12}}>
+      <input list="reservation-students" className="search" style={{width:220}} placeholder="Student Index *" value={index} onChange={e=> setIndex(e.target.value)} />
+      <datalist id="reservation-students">{students.map(s => <option key={s.id} value={s.index_number}>{s.full_name}</option>)}</datalist>
+      <input className="search" style={{width:220}} placeholder="Item Tag *" value={tag} onChange={e=> setTag(e.target.value)} />
+      <button type="button" className="btn" onClick={()=> setTag(lastScannedTag)} disabled={!lastScannedTag}>Use Last Scan</button>
+      <button className="btn primary">Place Hold</button>
+      <button type="button" className="btn" onClick={expire}>Expire Lapsed</button>
+      <label className="notice" style={{display:'flex', alignItems:'center', gap:6}}>
+        <input type="checkbox" checked={showClosed} onChange={e=> setShowClosed(e.target.checked)} /> Show closed
+      </label>
+    </form>
+    <div className="table-wrap">
+      <table className="table">
+        <thead><tr><th>Item</th><th>Student</th><th>Reserved</th><th>Status</th><th>Pickup By / Expires</th><th>Actions</th></tr></thead>
+        <tbody>
+          {list.map(r => <tr key={r.id}>
+            <td>{r.itemTitle ?? r.itemTag} <span className="notice">{r.itemTag}</span></td>
+            <td>{nameOf(r.studentId)}</td>
+            <td>{r.reservedAt.slice(0,10)}</td>
+            <td style={{color: r.status === 'READY' ? ORANGE : 'inherit'}}>{RESERVATION_STATUS[r.status]}</td>
+            <td>{(r.status === 'READY' ? r.holdUntil : r.expiresAt)?.slice(0,10) ?? '-'}</td>
+            <td>{(r.status === 'ACTIVE' || r.status === 'READY') && <button className="btn warn" onClick={()=> cancel(r)}>Cancel</button>}</td>
+          </tr>)}
+          {list.length===0 && <tr><td colSpan={6} className="notice">No reservations.</td></tr>}
+        </tbody>
+      </table>
+    </div>
+  </div>
+}
+
+const EMPTY_FINE_RULE: FineRule = { itemType: null, patronLevel: null, accrual: 'DAILY', rate: 0.5, graceUnits: 0, cap: null, replacementCost: null }
+
+function finePolicyInput(p: FinePolicy): FinePolicyInput {
+  return { currency: p.currency, rules: p.rules.map(r => ({ ...r })) }
+}
+
+// Fine rules by item type and patron level; saving stores a new policy version
+function FinePolicyEditor(){
+  const [current, setCurrent] = useState<FinePolicy>(DEFAULT_FINE_POLICY)
+  const [draft, setDraft] = useState<FinePolicyInput>(() => finePolicyInput(DEFAULT_FINE_POLICY))
+  const [history, setHistory] = useState<FinePolicy[]>([])
+  const dirty = JSON.stringify(draft) !== JSON.stringify(finePolicyInput(current))
+
+  async function load(){
+    const policy = await getFinePolicy()
+    setCurrent(policy)
+    setDraft(finePolicyInput(policy))
+    setHistory(await finePolicyHistory())
+  }
+  useEffect(()=>{ load() }, [])
+
+  const editRule = (i: number, patch: Partial<FineRule>) => setDraft(d => ({ ...d, rules: d.rules.map((r, j) => j === i ? { ...r, ...patch } : r) }))
+  const optionalAmount = (value: string) => value.trim() === '' ? null : Number(value)
+
+  async function save(){
+    try{
+      const saved = await saveFinePolicy(draft, ADMIN_USER)
+      await load()
+      alert(`Saved fine policy version ${saved.version}. Fines already raised keep the version they started under.`)
+    }catch(err){
+      alert('Could not save fine policy: ' + getErrorMessage(err))
+    }
+  }
+
+  return <div style={{marginTop:8}}>
+    <div style={{display:'flex', gap:8, alignItems:'center', flexWrap:'wrap'}}>
+      <span className="notice">Fine policy <b>v{current.version}</b>{current.version > 1 && ` (saved ${current.created_at.slice(0,10)} by ${current.created_by})`} • currency</span>
+      <input className="search" style={{width:70}} value={draft.currency} onChange={e=> setDraft(d => ({ ...d, currency: e.target.value.toUpperCase() }))} />
+      <span className="notice">• days the library is closed (see Library Calendar) are never charged</span>
+    </div>
+    <div className="table-wrap" style={{marginTop:8}}>
+      <table className="table">
+        <thead><tr><th>Item Type</th><th>Patron Level</th><th>Accrual</th><th>Rate</th><th>Grace</th><th>Cap / Loan</th><th>Replacement</th><th></th></tr></thead>
+        <tbody>
+          {draft.rules.map((r, i) => <tr key={i}>
+            <td>
+              <select className="search" value={r.itemType ?? ''} onChange={e=> editRule(i, { itemType: e.target.value || null })}>
+                <option value="">Any</option>
+                {ITEM_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </td>
+            <td><input className="search" style={{width:110}} placeholder="Any" value={r.patronLevel ?? ''} onChange={e=> editRule(i, { patronLevel: e.target.value || null })} /></td>
+            <td>
+              <select className="search" value={r.accrual} onChange={e=> editRule(i, { accrual: e.target.value as FineRule['accrual'] })}>
+                <option value="DAILY">Per day</option>
+                <option value="HOURLY">Per hour</option>
+              </select>
+            </td>
+            <td><input type="number" min={0} step={0.05} className="search" style={{width:80}} value={r.rate} onChange={e=> editRule(i, { rate: Number(e.target.value) })} /></td>
+            <td><input type="number" min={0} className="search" style={{width:70}} value={r.graceUnits} onChange={e=> editRule(i, { graceUnits: parseInt(e.target.value || '0', 10) })} title={r.accrual === 'HOURLY' ? 'hours' : 'days'} /></td>
+            <td><input type="number" min={0} className="search" style={{width:90}} placeholder="No cap" value={r.cap ?? ''} onChange={e=> editRule(i, { cap: optionalAmount(e.target.value) })} /></td>
+            <td><input type="number" min={0} className="search" style={{width:90}} placeholder="-" value={r.replacementCost ?? ''} onChange={e=> editRule(i, { replacementCost: optionalAmount(e.target.value) })} /></td>
+            <td><button className="btn warn" onClick={()=> setDraft(d => ({ ...d, rules: d.rules.filter((_, j) => j !== i) }))} disabled={draft.rules.length === 1}>Remove</button></td>
+          </tr>)}
+        </tbody>
+      </table>
+    </div>
+    <div style={{display:'flex', gap:8, flexWrap:'wrap', marginTop:8}}>
+      <button className="btn" onClick={()=> setDraft(d => ({ ...d, rules: [...d.rules, { ...EMPTY_FINE_RULE }] }))}>Add Rule</button>
+      <button className="btn primary" onClick={save} disabled={!dirty}>Save as v{current.version + 1}</button>
+      {dirty && <button className="btn" onClick={()=> setDraft(finePolicyInput(current))}>Discard</button>}
+    </div>
+    <p className="notice">
+      The most specific rule applies: a matching item type beats a matching level, and "Any" matches everything. Grace is in days or hours, per the accrual.
+      The replacement cost is suggested when a loan is closed as lost.
+      {history.length > 1 && <> Earlier versions: {history.slice(1).map(p => `v${p.version} (${p.created_by === 'system' ? 'default' : p.created_at.slice(0,10)})`).join(', ')}.</>}
+    </p>
+  </div>
+}
+
+const EMPTY_CLOSURE: Closure = { start: '', end: '', reason: '' }
+
+// Opening hours, weekly closed days and one-off closures; due dates roll forward past closed days
+function LibraryCalendarEditor(){
+  const [saved, setSaved] = useState<LibraryCalendar>(loadLibraryCalendar)
+  const [draft, setDraft] = useState<LibraryCalendar>(saved)
+  const [closure, setClosure] = useState<Closure>(EMPTY_CLOSURE)
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved)
+  const today = new Date().toISOString().slice(0,10)
+
+  const setHours = (day: number, hours: LibraryCalendar['hours'][number]) => setDraft(d => ({ ...d, hours: d.hours.map((h, i) => i === day ? hours : h) }))
+
+  function save(){
+    try{
+      const next = saveLibraryCalendar(draft)
+      setSaved(next)
+      setDraft(next)
+    }catch(err){
+      alert('Could not save the calendar: ' + getErrorMessage(err))
+    }
+  }
+
+  function addClosure(e: React.FormEvent){
+    e.preventDefault()
+    if(!closure.start){ alert('Pick the first closed day.'); return }
+    const end = closure.end || closure.start
+    if(end < closure.start){ alert('The last closed day cannot be before the first.'); return }
+    setDraft(d => mergeClosures(d, [{ ...closure, end, reason: closure.reason.trim() || 'Closed' }]).calendar)
+    setClosure(EMPTY_CLOSURE)
+  }
+
+  async function importIcs(e: React.ChangeEvent<HTMLInputElement>){
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if(!file) return
+    const { closures, skipped } = parseIcsClosures(await file.text(), draft)
+    const { calendar, added } = mergeClosures(draft, closures)
+    setDraft(calendar)
+    alert(`${added} closure(s) added from ${file.name}${skipped ? `; ${skipped} recurring, part-day or unreadable event(s) skipped` : ''}. Save to keep them.`)
+  }
+
+  const upcoming = draft.closures.filter(c => c.end >= today)
+  return <div>
+    <div style={{fontWeight:700, marginBottom:8}}>Library Calendar</div>
+    <div className="table-wrap">
+      <table className="table">
+        <thead><tr><th>Day</th><th>Open</th><th>Opens</th><th>Closes</th></tr></thead>
+        <tbody>
+          {WEEKDAY_NAMES.map((name, day) => {
+            const h = draft.hours[day]
+            return <tr key={day}>
+              <td>{name}</td>
+              <td><input type="checkbox" checked={h !== null} onChange={e=> setHours(day, e.target.checked ? { ...(DEFAULT_CALENDAR.hours[day] ?? { open: '08:00', close: '20:00' }) } : null)} /></td>
+              <td>{h && <input type="time" className="search" value={h.open} onChange={e=> setHours(day, { ...h, open: e.target.value })} />}</td>
+              <td>{h && <input type="time" className="search" value={h.close} onChange={e=> setHours(day, { ...h, close: e.target.value })} />}</td>
+            </tr>
+          })}
+        </tbody>
+      </table>
+    </div>
+    <form onSubmit={addClosure} style={{display:'flex', gap:8, alignItems:'center', flexWrap:'wrap', marginTop:8}}>
+      <span className="notice">Closed from</span>
+      <input type="date" className="search" value={closure.start} onChange={e=> setClosure(c => ({ ...c, start: e.target.value }))} />
+      <span className="notice">to</span>
+      <input type="date" className="search" value={closure.end} onChange={e=> setClosure(c => ({ ...c, end: e.target.value }))} />
+      <input className="search" style={{width:200}} placeholder="Reason (e.g. Independence Day)" value={closure.reason} onChange={e=> setClosure(c => ({ ...c, reason: e.target.value }))} />
+      <button className="btn">Add Closure</button>
+      <label className="btn">Import .ics<input type="file" accept=".ics,text/calendar" onChange={importIcs} style={{display:'none'}} /></label>
+    </form>
+    <div className="table-wrap" style={{marginTop:8}}>
+      <table className="table">
+        <thead><tr><th>From</th><th>To</th><th>Reason</th><th></th></tr></thead>
+        <tbody>
+          {upcoming.map(c => <tr key={`${c.start}|${c.end}|${c.reason}`}>
+            <td>{c.start}</td><td>{c.end}</td><td>{c.reason}</td>
+            <td><button className="btn warn" onClick={()=> setDraft(d => ({ ...d, closures: d.closures.filter(x => x !== c) }))}>Remove</button></td>
+          </tr>)}
+          {upcoming.length===0 && <tr><td colSpan={4} className="notice">No upcoming closures.</td></tr>}
+        </tbody>
+      </table>
+    </div>
+    <div style={{display:'flex', gap:8, flexWrap:'wrap', marginTop:8}}>
+      <button className="btn primary" onClick={save} disabled={!dirty}>Save Calendar</button>
+      {dirty && <button className="btn" onClick={()=> setDraft(saved)}>Discard</button>}
+    </div>
+    <p className="notice">
+      Loans never fall due on a closed day: the due date moves to the next open day. Closed days don't count towards days overdue on the Dashboard,
+      nor towards fines when the fine policy skips closed days. Importing an .ics file adds each all-day event as a closure, and timed events only for days they cover from opening to closing; recurring events are skipped.
+    </p>
+  </div>
+}
+
+const NEW_LOAN_RULE: LoanRuleInput = {
+  program: null, level: null, itemType: null, maxLoans: 3, loanPeriod: 14, loanUnit: 'DAYS', dueByClose: false, maxRenewals: 2, mayLeave: true
+}
+
+const LOAN_UNITS: Record<LoanUnit, string> = { DAYS: 'days', HOURS: 'hours', MINUTES: 'minutes' }
+
+// Circulation rules by program, level and item type; the first row is the built-in default until a rule for everyone is added
+function LoanRulesEditor(){
+  const [saved, setSaved] = useState<LoanRule[]>([])
+  const [draft, setDraft] = useState<LoanRuleInput[]>([])
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved)
+
+  async function load(){
+    const rules = await loadLoanRules()
+    setSaved(rules)
+    setDraft(rules)
+  }
+  useEffect(()=>{ load() }, [])
+
+  const edit = (i: number, patch: Partial<LoanRuleInput>) => setDraft(d => d.map((r, j) => j === i ? { ...r, ...patch } : r))
+  const count = (value: string) => Math.max(0, parseInt(value || '0', 10))
+
+  async function save(){
+    try{
+      await saveLoanRules(draft)
+      await load()
+    }catch(err){
+      alert('Could not save circulation rules: ' + getErrorMessage(err))
+    }
+  }
+
+  const hasGeneral = draft.some(r => !r.program && !r.level && !r.itemType)
+  return <div>
+    <div style={{fontWeight:700, marginBottom:8}}>Circulation Rules</div>
+    <div className="table-wrap">
+      <table className="table">
+        <thead><tr><th>Program</th><th>Level</th><th>Item Type</th><th>Max Loans</th><th>Loan Period</th><th>By Closing</th><th>Renewals</th><th>May Leave</th><th></th></tr></thead>
+        <tbody>
+          {!hasGeneral && <tr className="notice">
+            <td>Any</td><td>Any</td><td>Any</td><td>{DEFAULT_LOAN_RULE.maxLoans}</td><td>{describePeriod(rulePeriod(DEFAULT_LOAN_RULE))}</td><td>-</td><td>{DEFAULT_LOAN_RULE.maxRenewals}</td><td>Yes</td><td>built-in</td>
+          </tr>}
+          {draft.map((r, i) => <tr key={r.id ?? i}>
+            <td><input className="search" style={{width:120}} placeholder="Any" value={r.program ?? ''} onChange={e=> edit(i, { program: e.target.value || null })} /></td>
+            <td><input className="search" style={{width:80}} placeholder="Any" value={r.level ?? ''} onChange={e=> edit(i, { level: e.target.value || null })} /></td>
+            <td>
+              <select className="search" value={r.itemType ?? ''} onChange={e=> edit(i, { itemType: e.target.value || null })}>
+                <option value="">Any</option>
+                {ITEM_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </td>
+            <td><input type="number" min={0} className="search" style={{width:70}} value={r.maxLoans} onChange={e=> edit(i, { maxLoans: count(e.target.value) })} /></td>
+            <td style={{display:'flex', gap:6}}>
+              <input type="number" min={1} className="search" style={{width:70}} value={r.loanPeriod} onChange={e=> edit(i, { loanPeriod: count(e.target.value) })} />
+              <select className="search" style={{width:100}} value={r.loanUnit ?? 'DAYS'} onChange={e=> edit(i, { loanUnit: e.target.value as LoanUnit })}>
+                {(Object.keys(LOAN_UNITS) as LoanUnit[]).map(u => <option key={u} value={u}>{LOAN_UNITS[u]}</option>)}
+              </select>
+            </td>
+            <td><input type="checkbox" checked={!!r.dueByClose} disabled={(r.loanUnit ?? 'DAYS') === 'DAYS'} onChange={e=> edit(i, { dueByClose: e.target.checked })} /></td>
+            <td><input type="number" min={0} className="search" style={{width:70}} value={r.maxRenewals} onChange={e=> edit(i, { maxRenewals: count(e.target.value) })} /></td>
+            <td><input type="checkbox" checked={r.mayLeave} onChange={e=> edit(i, { mayLeave: e.target.checked })} /></td>
+            <td><button className="btn warn" onClick={()=> setDraft(d => d.filter((_, j) => j !== i))}>Remove</button></td>
+          </tr>)}
+        </tbody>
+      </table>
+    </div>
+    <div style={{display:'flex', gap:8, flexWrap:'wrap', marginTop:8}}>
+      <button className="btn" onClick={()=> setDraft(d => [...d, { ...NEW_LOAN_RULE }])}>Add Rule</button>
+      <button className="btn primary" onClick={save} disabled={!dirty}>Save Rules</button>
+      {dirty && <button className="btn" onClick={()=> setDraft(saved)}>Discard</button>}
+    </div>
+    <p className="notice">
+      A loan follows the most specific matching rule (item type first, then level, then program). Max Loans on an item-type rule counts items of that type;
+      the student's "Any" item-type rule caps their loans overall. Items that may not leave are for use in the library only. Renewals extend a loan by its loan period.
+      Hour and minute loans (laptops, calculators, course reserves) are timed to the minute; with By Closing ticked they fall due at closing time
+      (see Library Calendar) if the period would run past it.
+    </p>
+  </div>
+}
+
+const EMPTY_ITEM: ItemInput = { tag: '', title: '', item_type: 'BOOK' }
+
+function CatalogView({append, lastScannedTag}:{append:(s:string)=>void; lastScannedTag:string}){
+  const [query, setQuery] = useState('')
+  const [items, setItems] = useState<Item[]>([])
+  const [form, setForm] = useState<ItemInput>(EMPTY_ITEM)
+  const [editing, setEditing] = useState(false)
+
+  const load = useCallback(async () => { setItems(await searchItems(query)) }, [query])
+  useEffect(()=>{ load() }, [load])
+
+  const field = (key: keyof ItemInput) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setForm({ ...form, [key]: key === 'copy_number' ? (e.target.value ? Number(e.target.value) : null) : e.target.value })
+
+  async function handleSave(e: React.FormEvent){
+    e.preventDefault()
+    try{
+      const saved = await saveItem(form)
+      append(`[CATALOG] ${editing ? 'Updated' : 'Added'} ${saved.tag}`)
+      setForm(EMPTY_ITEM); setEditing(false)
+      await load()
+    }catch(err){
+      alert(getErrorMessage(err))
+    }
+  }
+
+  async function changeStatus(item: Item, status: ItemStatus){
+    if(item.status === 'ON_LOAN' && !confirm(`${item.tag} is on loan. Mark it ${ITEM_STATUSES[status].toLowerCase()} anyway?`)) return
+    await setItemStatus(item.tag, status)
+    append(`[CATALOG] ${item.tag} -> ${status}`)
+    await load()
+  }
+
+  return <div>
+    <div style={{fontWeight:700, fontSize:18, marginBottom:8}}>Catalog</div>
+    <p className="notice">Every item Borrow and Return accept. Scanning a tag that isn't listed asks whether to add it first.</p>
+    <div style={{fontWeight:600, marginBottom:6}}>{editing ? `Edit ${form.tag}` : 'Add Item'}</div>
+    <form onSubmit={handleSave} style={{display:'grid', gridTemplateColumns:'repeat(auto-fit, minmax(200px,1fr))', gap:8, marginBottom:12}}>
+      <div style={{display:'flex', gap:8}}>
+        <input className="search" placeholder="Item Tag *" value={form.tag} onChange={field('tag')} disabled={editing} style={{flex:1}} />
+        {!editing && <button type="button" className="btn" onClick={()=> setForm({...form, tag: lastScannedTag})} disabled={!lastScannedTag}>Use Last Scan</button>}
+      </div>
+      <input className="search" placeholder="Title *" value={form.title} onChange={field('title')} />
+      <input className="search" placeholder="Author" value={form.author ?? ''} onChange={field('author')} />
+      <input className="search" placeholder="ISBN" value={form.isbn ?? ''} onChange={field('isbn')} />
+      <input className="search" placeholder="Call Number" value={form.call_number ?? ''} onChange={field('call_number')} />
+      <select className="search" value={form.item_type ?? 'BOOK'} onChange={field('item_type')}>
+        {ITEM_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+      </select>
+      <input className="search" type="number" min={1} placeholder="Copy #" value={form.copy_number ?? ''} onChange={field('copy_number')} />
+      <input className="search" placeholder="Location" value={form.location ?? ''} onChange={field('location')} />
+      <div style={{display:'flex', gap:8}}>
+        <button className="btn primary">{editing ? 'Update' : 'Add'}</button>
+        {editing && <button className="btn" type="button" onClick={()=> { setForm(EMPTY_ITEM); setEditing(false) }}>Cancel</button>}
+      </div>
+    </form>
+    <input placeholder="Search tag, title, author, ISBN, call number..." className="search" value={query} onChange={e=> setQuery(e.target.value)} />
+    <div className="table-wrap" style={{marginTop:8}}>
+      <table className="table">
+        <thead><tr><th>Item Tag</th><th>Title</th><th>Author</th><th>ISBN</th><th>Call No.</th><th>Type</th><th>Copy</th><th>Location</th><th>Status</th><th>Actions</th></tr></thead>
+        <tbody>
+          {items.map(i => <tr key={i.tag}>
+            <td>{i.tag}</td><td>{i.title}</td><td>{i.author ?? '-'}</td><td>{i.isbn ?? '-'}</td><td>{i.call_number ?? '-'}</td>
+            <td>{i.item_type}</td><td>{i.copy_number ?? '-'}</td><td>{i.location ?? '-'}</td>
+            <td>
+              <select className="search" style={{width:120}} value={i.status} onChange={e=> changeStatus(i, e.target.value as ItemStatus)}>
+                {(Object.keys(ITEM_STATUSES) as ItemStatus[]).map(s => <option key={s} value={s}>{ITEM_STATUSES[s]}</option>)}
+              </select>
+            </td>
+            <td><button className="btn" onClick={()=> { setForm(i); setEditing(true) }}>Edit</button></td>
+          </tr>)}
+          {items.length===0 && <tr><td colSpan={10} className="notice">No items.</td></tr>}
         </tbody>
       </table>
     </div>
   </div>
 }
 
-function StudentsView({list, stQuery, setStQuery}:{list:Student[]; stQuery:string; setStQuery:(s:string)=>void}){
+function StudentsView({list, stQuery, setStQuery, append}:{list:Student[]; stQuery:string; setStQuery:(s:string)=>void; append:(s:string)=>void}){
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const selected = list.find(s => s.id === selectedId)
   return <div>
     <div style={{display:'flex', justifyContent:'space-between', alignItems:'center'}}>
       <div style={{fontWeight:700}}>Students</div>
@@ -613,13 +1979,14 @@ function StudentsView({list, stQuery, setStQuery}:{list:Student[]; stQuery:strin
           <th>Index</th><th>Name</th><th>Program</th><th>Level</th><th>Phone</th><th>Card UID</th><th>Created</th>
         </tr></thead>
         <tbody>
-          {list.map(s=> <tr key={s.id}>
+          {list.map(s=> <tr key={s.id} onClick={()=> setSelectedId(s.id === selectedId ? null : s.id ?? null)} style={{cursor:'pointer', background: s.id === selectedId ? 'rgba(22,111,229,0.08)' : undefined}}>
             <td>{s.index_number}</td><td>{s.full_name}</td><td>{s.program}</td><td>{s.level}</td><td>{s.phone}</td><td>{s.card_uid}</td><td>{s.created_at?.slice(0,19).replace('T',' ')}</td>
           </tr>)}
           {list.length===0 && <tr><td colSpan={7} className="notice">No students yet.</td></tr>}
         </tbody>
       </table>
     </div>
+    {selected ? <FinesPanel student={selected} append={append} /> : <p className="notice">Click a student to see their fines.</p>}
   </div>
 }
 
@@ -637,7 +2004,7 @@ function TransactionsView({list, txQuery, setTxQuery}:{list:Tx[]; txQuery:string
         <tbody>
           {list.map(t=> <tr key={t.id}>
             <td>{t.occurred_at.slice(0,19).replace('T',' ')}</td>
-            <td>{t.action}</td>
+            <td>{t.action}{t.action === 'RENEW' && t.due_after && <span className="notice"> (due {t.due_before && format(new Date(t.due_before), 'yyyy-MM-dd')} → {format(new Date(t.due_after), 'yyyy-MM-dd')})</span>}</td>
             <td>{t.student_index}</td>
             <td>{t.user_uid}</td>
             <td>{t.item_tag}</td>
@@ -653,7 +2020,7 @@ function TransactionsView({list, txQuery, setTxQuery}:{list:Tx[]; txQuery:string
 
 function ManageStudentsView({
   students, setStudents, refresh, append,
-  lastScannedUID, manageAddCardRef, manageEditCardRef,
+  lastScannedUID, cardUidFromInput, keyboardUidProfile, manageAddCardRef, manageEditCardRef,
   connected, sendSerialCommand
 }: {
   students: Student[]
@@ -661,6 +2028,8 @@ function ManageStudentsView({
   refresh: () => Promise<void>
   append: (s: string) => void
   lastScannedUID: string
+  cardUidFromInput: (value: string) => string | null
+  keyboardUidProfile: UidProfile
   manageAddCardRef: React.RefObject<HTMLInputElement>
   manageEditCardRef: React.RefObject<HTMLInputElement>
   connected: boolean
@@ -668,6 +2037,8 @@ function ManageStudentsView({
 }){
   const [newStudent, setNewStudent] = useState<Partial<Student>>({})
   const [editStudent, setEditStudent] = useState<Student | null>(null)
+  const [csvProfile, setCsvProfile] = useState<UidProfile>(keyboardUidProfile)
+  const [csvErrors, setCsvErrors] = useState<string[]>([])
 
   async function handleAddStudent(e: React.FormEvent){
     e.preventDefault()
@@ -682,7 +2053,7 @@ function ManageStudentsView({
       program: newStudent.program || null,
       level: newStudent.level || null,
       phone: newStudent.phone || null,
-      card_uid: newStudent.card_uid || null,
+      card_uid: cardUidFromInput(newStudent.card_uid ?? ''),
       created_at: now
     }
     const id = await db.students.add(student)
@@ -695,11 +2066,31 @@ function ManageStudentsView({
   async function handleUpdateStudent(e: React.FormEvent){
     e.preventDefault()
     if(!editStudent) return
-    await db.students.put(editStudent)
-    setStudents(prev => prev.map(s => s.id === editStudent.id ? editStudent : s))
+    const updated = { ...editStudent, card_uid: cardUidFromInput(editStudent.card_uid ?? '') }
+    await db.students.put(updated)
+    setStudents(prev => prev.map(s => s.id === updated.id ? updated : s))
     setEditStudent(null)
     await refresh()
-    append(`[UPDATE STUDENT] ${editStudent.index_number}`)
+    append(`[UPDATE STUDENT] ${updated.index_number}`)
+  }
+
+  async function handleImportCsv(e: React.ChangeEvent<HTMLInputElement>){
+    const input = e.currentTarget
+    const file = input.files?.[0]
+    if(!file) return
+    try{
+      const { students: parsed, errors } = parseStudentsCsv(await file.text(), csvProfile)
+      setCsvErrors(errors)
+      if(parsed.length === 0){ alert('No valid student rows found.'); return }
+      const { added, updated } = await upsertStudents(parsed)
+      setStudents(await db.students.orderBy('created_at').reverse().toArray())
+      await refresh()
+      append(`[IMPORT CSV] ${file.name}: ${added} added, ${updated} updated, ${errors.length} rejected`)
+    }catch(err){
+      alert('Import failed: ' + getErrorMessage(err))
+    }finally{
+      input.value = ''
+    }
   }
 
   async function handleDeleteStudent(id: number){
@@ -718,6 +2109,20 @@ function ManageStudentsView({
       </div>
     </div>
     <p className="notice">Create, edit, or delete student records. Scan card and use "Use Last Scan" to fill UID without typing.</p>
+    <div style={{display:'flex', gap:8, flexWrap:'wrap', alignItems:'center', marginBottom:12}}>
+      <span className="notice">Import roster (.csv with index_number, full_name, program, level, phone, card_uid) — card numbers as</span>
+      <select className="search" style={{width:220}} value={csvProfile} onChange={e=> setCsvProfile(e.target.value as UidProfile)}>
+        {(Object.keys(UID_PROFILES) as UidProfile[]).map(p => <option key={p} value={p}>{UID_PROFILES[p]}</option>)}
+      </select>
+      <label className="btn" style={{display:'inline-flex', alignItems:'center', gap:8, cursor:'pointer'}}>
+        Import CSV
+        <input type="file" accept=".csv,text/csv" onChange={handleImportCsv} hidden />
+      </label>
+    </div>
+    {csvErrors.length > 0 && <div className="notice" style={{marginBottom:12}}>
+      {csvErrors.slice(0, 10).map(err => <div key={err}>{err}</div>)}
+      {csvErrors.length > 10 && <div>…and {csvErrors.length - 10} more</div>}
+    </div>}
     <div style={{display:'grid', gridTemplateColumns:'repeat(auto-fit, minmax(300px,1fr))', gap:16}}>
       <div>
         <div style={{fontWeight:600, marginBottom:6}}>Add New Student</div>
@@ -783,11 +2188,75 @@ function ManageStudentsView({
 }
 
 function SettingsView({
-  sendSerialCommand, connected, deviceStatus
-}:{ sendSerialCommand:(cmd:string)=>void; connected:boolean; deviceStatus:any }){
+  readers, runtime, onSaveReaders, onConnectReader, transportOf, commandReaderId, onSelectCommandReader, commandTarget,
+  deviceProfiles, clockChecks, onCheckClock, wedge, onToggleWedge, wedgeItemPattern, onChangeWedgeItemPattern, keyboardUidProfile, onChangeKeyboardUidProfile, scanSettings, onChangeScanSettings,
+  sendSerialCommand, connected, onReconcile, conflicts, onDismissConflict
+}:{
+  readers:ReaderConfig[]; runtime:Record<string, ReaderRuntime>;
+  onSaveReaders:(next:ReaderConfig[])=>Promise<void>; onConnectReader:(id:string)=>void;
+  transportOf:(id:string)=>ReaderTransport | undefined;
+  commandReaderId:string; onSelectCommandReader:(id:string)=>void; commandTarget:ReaderConfig | null;
+  deviceProfiles:Record<string, DeviceProfile>;
+  clockChecks:Record<string, ClockCheck>; onCheckClock:(id:string)=>Promise<void>;
+  wedge:boolean; onToggleWedge:(enabled:boolean)=>void; wedgeItemPattern:string; onChangeWedgeItemPattern:(pattern:string)=>void;
+  keyboardUidProfile:UidProfile; onChangeKeyboardUidProfile:(p:UidProfile)=>void;
+  scanSettings:ScanSessionSettings; onChangeScanSettings:(s:ScanSessionSettings)=>void;
+  sendSerialCommand:(cmd:string)=>void; connected:boolean;
+  onReconcile:()=>Promise<void>; conflicts:DeviceConflict[]; onDismissConflict:(id:string)=>void
+}){
 
   const [exporting, setExporting] = useState(false)
+  const [itemPatternDraft, setItemPatternDraft] = useState(wedgeItemPattern)
+  const targetProfile = commandTarget ? deviceProfiles[commandTarget.id] : undefined
+  // Unknown until the first handshake: leave the control enabled
+  const targetCan = (c: Capability) => targetProfile?.capabilities[c] ?? true
+  const [clockReaderId, setClockReaderId] = useState(readers[0]?.id ?? '')
+  const [clockLog, setClockLog] = useState<ClockCheck[]>([])
+  useEffect(()=>{
+    if(clockReaderId) clockHistory(clockReaderId, 10).then(setClockLog)
+    else setClockLog([])
+  }, [clockReaderId, clockChecks])
+  const untrustedClocks = readers.filter(r => {
+    const profile = deviceProfiles[r.id]
+    return (profile && !profile.capabilities.clock) || !isClockTrusted(clockChecks[r.id])
+  })
+  const [debounceMs, setDebounceMs] = useState(String(scanSettings.debounceMs))
+  const [patronSeconds, setPatronSeconds] = useState(String(Math.round(scanSettings.patronTimeoutMs / 1000)))
+
+  function saveScanSettings(){
+    const debounce = parseInt(debounceMs, 10)
+    const seconds = parseInt(patronSeconds, 10)
+    if(Number.isNaN(debounce) || debounce < 0 || Number.isNaN(seconds) || seconds < 10){
+      alert('Repeat window must be 0 ms or more and the desk timeout at least 10 s.')
+      return
+    }
+    onChangeScanSettings({ debounceMs: debounce, patronTimeoutMs: seconds * 1000 })
+  }
+  const [fineThreshold, setFineThreshold] = useState(() => String(loadFineSettings().blockThreshold))
+
+  function saveFineThreshold(){
+    const blockThreshold = Number(fineThreshold)
+    if(fineThreshold.trim() === '' || !Number.isFinite(blockThreshold) || blockThreshold < 0){
+      alert('The fine limit must be 0 or more.')
+      return
+    }
+    saveFineSettings({ blockThreshold })
+  }
   const [importing, setImporting] = useState(false)
+  const [draft, setDraft] = useState<ReaderConfig[]>(readers)
+  const [mockLine, setMockLine] = useState('CARD_SCANNED:CARD-ALICE')
+  const [reconciling, setReconciling] = useState(false)
+  useEffect(()=>{ setDraft(readers) }, [readers])
+  const dirty = JSON.stringify(draft) !== JSON.stringify(readers)
+  const deviceStatus = commandTarget ? runtime[commandTarget.id]?.status ?? null : null
+
+  function editReader(id: string, patch: Partial<ReaderConfig>){
+    setDraft(d => d.map(r => r.id === id ? { ...r, ...patch } : r))
+  }
+
+  function setKind(r: ReaderConfig, kind: TransportSettings['kind']){
+    editReader(r.id, { transport: kind === 'websocket' ? { kind, url: r.transport.url || DEFAULT_BRIDGE_URL } : { kind } })
+  }
 
   async function doExport(){
     try{
@@ -822,25 +2291,193 @@ function SettingsView({
   }
 
   return <div>
+    <div style={{fontWeight:700, marginBottom:8}}>Readers</div>
+    <p className="notice">
+      A desk can run several readers at once, e.g. a patron-card reader and a separate item pad. A reader's role decides which scans it may
+      feed in; loans and transactions record the reader that scanned them.
+      Web Serial needs Chrome/Edge. Other browsers and kiosks can reach a reader through a local WebSocket line bridge.
+      The mock reader lets you play device lines by hand; the virtual device emulates the firmware for demos and training.
+    </p>
+    {draft.map(r => {
+      const saved = readers.find(s => s.id === r.id)
+      const rt = saved ? runtime[r.id] : undefined
+      const transport = saved ? transportOf(r.id) : undefined
+      return <div key={r.id} style={{marginBottom:10}}>
+        <div style={{display:'flex', gap:8, flexWrap:'wrap', alignItems:'center'}}>
+          <input className="search" style={{width:180}} value={r.name} onChange={e=> editReader(r.id, { name: e.target.value })} placeholder="Reader name" />
+          <select className="search" style={{width:150}} value={r.role} onChange={e=> editReader(r.id, { role: e.target.value as ReaderRole })}>
+            <option value="both">Cards & items</option>
+            <option value="card">Patron cards only</option>
+            <option value="item">Items only</option>
+          </select>
+          <select className="search" style={{width:200}} value={r.transport.kind} onChange={e=> setKind(r, e.target.value as TransportSettings['kind'])}>
+            <option value="serial">Web Serial</option>
+            <option value="websocket">WebSocket bridge</option>
+            <option value="mock">Mock reader</option>
+            <option value="emulator">Virtual device (demo)</option>
+          </select>
+          <select className="search" style={{width:200}} value={r.uidProfile ?? DEFAULT_UID_PROFILE} onChange={e=> editReader(r.id, { uidProfile: e.target.value as UidProfile })} title="How this reader encodes card UIDs">
+            {(Object.keys(UID_PROFILES) as UidProfile[]).map(p => <option key={p} value={p}>UIDs: {UID_PROFILES[p]}</option>)}
+          </select>
+          {r.transport.kind === 'websocket' && <input className="search" style={{width:240}} value={r.transport.url ?? ''} onChange={e=> editReader(r.id, { transport: { kind: 'websocket', url: e.target.value.trim() } })} placeholder={DEFAULT_BRIDGE_URL} />}
+          <span className="notice"><code>{r.id}</code> • {saved ? connectionLabel(rt) : 'not saved'}</span>
+          {saved && rt?.state !== 'connected' && <button className="btn" onClick={()=> onConnectReader(r.id)}>Connect</button>}
+          <button className="btn" onClick={()=> setDraft(d => d.filter(x => x.id !== r.id))}>Remove</button>
+        </div>
+        {transport instanceof MockTransport && rt?.state === 'connected' && <div style={{display:'flex', gap:8, marginTop:6}}>
+          <input className="search" style={{flex:1}} value={mockLine} onChange={e=> setMockLine(e.target.value)} />
+          <button className="btn" onClick={()=> transport.emit(mockLine)}>Emit Line</button>
+        </div>}
+      </div>
+    })}
+    <div style={{display:'flex', gap:8, flexWrap:'wrap'}}>
+      <button className="btn" onClick={()=> setDraft(d => [...d, createReaderConfig(`Reader ${d.length + 1}`, 'both', { kind: 'serial' }, d)])}>Add Reader</button>
+      <button className="btn primary" onClick={()=> onSaveReaders(draft.map(r => ({ ...r, name: r.name.trim() || r.id })))} disabled={!dirty}>Save Readers</button>
+      {dirty && <button className="btn" onClick={()=> setDraft(readers)}>Discard</button>}
+    </div>
+    <label className="notice" style={{display:'flex', gap:8, alignItems:'center', marginTop:10}}>
+      <input type="checkbox" checked={wedge} onChange={e=> onToggleWedge(e.target.checked)} />
+      Keyboard-wedge reader (USB readers that type the UID and press Enter). Works alongside the readers above.
+    </label>
+    <div style={{display:'flex', gap:8, alignItems:'center', flexWrap:'wrap', marginTop:6}}>
+      <span className="notice">Wedged item barcodes match</span>
+      <input className="search" style={{width:220, fontFamily:'monospace'}} value={itemPatternDraft} onChange={e=> setItemPatternDraft(e.target.value)} />
+      <button className="btn" onClick={()=> onChangeWedgeItemPattern(itemPatternDraft)} disabled={itemPatternDraft.trim() === wedgeItemPattern}>Save</button>
+      <span className="notice">(regular expression; the default takes 12–13 digit EAN/UPC barcodes as items, never as card numbers)</span>
+    </div>
+    <div style={{display:'flex', gap:8, alignItems:'center', marginTop:6}}>
+      <span className="notice">Card UIDs typed or wedged in are</span>
+      <select className="search" style={{width:220}} value={keyboardUidProfile} onChange={e=> onChangeKeyboardUidProfile(e.target.value as UidProfile)}>
+        {(Object.keys(UID_PROFILES) as UidProfile[]).map(p => <option key={p} value={p}>{UID_PROFILES[p]}</option>)}
+      </select>
+    </div>
+    <p className="notice">
+      Every UID is stored as hex, MSB first. Card lookups also try the other encodings (byte-swapped, decimal, Wiegand-26) before giving up.
+    </p>
+    <div style={{display:'flex', gap:8, alignItems:'center', flexWrap:'wrap', marginTop:6}}>
+      <span className="notice">Ignore repeat scans within</span>
+      <input type="number" min={0} step={100} className="search" style={{width:100}} value={debounceMs} onChange={e=> setDebounceMs(e.target.value)} />
+      <span className="notice">ms; keep the patron at the desk for</span>
+      <input type="number" min={10} className="search" style={{width:100}} value={patronSeconds} onChange={e=> setPatronSeconds(e.target.value)} />
+      <span className="notice">s</span>
+      <button className="btn" onClick={saveScanSettings}>Save</button>
+    </div>
+
+    <hr className="sep"/>
+
+    <div style={{fontWeight:700, marginBottom:8}}>Fines</div>
+    <div style={{display:'flex', gap:8, alignItems:'center', flexWrap:'wrap'}}>
+      <span className="notice">Refuse to lend to students owing more than</span>
+      <input type="number" min={0} step={0.5} className="search" style={{width:100}} value={fineThreshold} onChange={e=> setFineThreshold(e.target.value)} />
+      <button className="btn" onClick={saveFineThreshold}>Save</button>
+    </div>
+    <p className="notice">Overdue fines are raised when a late item is returned and once a day for items still out; a loan's fine grows until it comes back. Take payments and waive fines on Return or under Students.</p>
+    <FinePolicyEditor />
+
+    <hr className="sep"/>
+
+    <LoanRulesEditor />
+
+    <hr className="sep"/>
+
+    <LibraryCalendarEditor />
+
+    <hr className="sep"/>
+
     <div style={{fontWeight:700, marginBottom:8}}>Device Controls</div>
+    <div style={{display:'flex', gap:8, flexWrap:'wrap', alignItems:'center', marginBottom:8}}>
+      <span className="notice">Send commands to</span>
+      <select className="search" style={{width:220}} value={commandReaderId} onChange={e=> onSelectCommandReader(e.target.value)}>
+        <option value="">Automatic (first card reader)</option>
+        {readers.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+      </select>
+    </div>
     <div style={{display:'flex', gap:8, flexWrap:'wrap'}}>
-      <button className="btn" onClick={()=>sendSerialCommand('SMS ON')} disabled={!connected}>SMS ON</button>
-      <button className="btn" onClick={()=>sendSerialCommand('SMS OFF')} disabled={!connected}>SMS OFF</button>
-      <button className="btn" onClick={()=>sendSerialCommand('AUTO ON 180')} disabled={!connected}>AUTO ON (180m)</button>
-      <button className="btn" onClick={()=>sendSerialCommand('AUTO OFF')} disabled={!connected}>AUTO OFF</button>
+      <button className="btn" onClick={()=>sendSerialCommand('SMS ON')} disabled={!connected || !targetCan('sms')}>SMS ON</button>
+      <button className="btn" onClick={()=>sendSerialCommand('SMS OFF')} disabled={!connected || !targetCan('sms')}>SMS OFF</button>
+      <button className="btn" onClick={()=>sendSerialCommand('AUTO ON 180')} disabled={!connected || !targetCan('auto')}>AUTO ON (180m)</button>
+      <button className="btn" onClick={()=>sendSerialCommand('AUTO OFF')} disabled={!connected || !targetCan('auto')}>AUTO OFF</button>
       <button className="btn" onClick={()=>sendSerialCommand('STATUS')} disabled={!connected}>STATUS</button>
-      <button className="btn primary" onClick={()=>sendSerialCommand('REMIND ALL')} disabled={!connected}>REMIND ALL</button>
+      <button className="btn primary" onClick={()=>sendSerialCommand('REMIND ALL')} disabled={!connected || !targetCan('sms')}>REMIND ALL</button>
     </div>
+    {targetProfile && <div style={{marginTop:10}} className="notice">
+      Firmware: <b>{targetProfile.legacy ? '1.x (no handshake)' : `${targetProfile.model} ${targetProfile.firmware}`}</b>
+      {' • '}{(Object.keys(CAPABILITIES) as Capability[]).map(c => `${CAPABILITIES[c]} ${targetProfile.capabilities[c] ? '✓' : '✗'}`).join(' • ')}
+    </div>}
     <div style={{marginTop:10}} className="notice">
       {connected
         ? deviceStatus
-          ? <>SMS: <b>{deviceStatus.sms}</b> • Students: <b>{deviceStatus.students}</b> • Active: <b>{deviceStatus.activeBorrows}</b> • Queue: <b>{deviceStatus.queuePending}</b> • Auto: <b>{deviceStatus.auto}</b> ({deviceStatus.intervalMin}m)</>
+          ? <>{readers.length > 1 && commandTarget && <>{commandTarget.name} — </>}SMS: <b>{deviceStatus.sms}</b> • Students: <b>{deviceStatus.students}</b> • Active: <b>{deviceStatus.activeBorrows}</b> • Queue: <b>{deviceStatus.queuePending}</b> • Auto: <b>{deviceStatus.auto}</b> ({deviceStatus.intervalMin}m)</>
           : 'Connected. Click STATUS to refresh.'
         : 'Connect your device to enable controls.'}
     </div>
 
     <hr className="sep"/>
 
+    <div style={{fontWeight:700, marginBottom:8}}>Device Clock</div>
+    <p className="notice">
+      The device schedules reminders on its own clock. It is checked on every connection and set to this computer's time
+      and time zone when it is more than {DRIFT_THRESHOLD_MS / 1000} s out.
+    </p>
+    {untrustedClocks.map(r => <div key={r.id} className="notice" style={{color:'#DC2626', marginBottom:6}}>
+      ⚠ {r.name}: {deviceProfiles[r.id] && !deviceProfiles[r.id].capabilities.clock
+        ? `firmware ${deviceProfiles[r.id].firmware} cannot report its clock; reminder times may be off.`
+        : `clock is ${formatDrift(clockChecks[r.id].residual_ms ?? clockChecks[r.id].drift_ms)} and could not be corrected. Reminder times can't be trusted.`}
+    </div>)}
+    <div style={{display:'flex', gap:8, flexWrap:'wrap', alignItems:'center'}}>
+      <select className="search" style={{width:220}} value={clockReaderId} onChange={e=> setClockReaderId(e.target.value)}>
+        {readers.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+      </select>
+      <button className="btn" disabled={!clockReaderId || runtime[clockReaderId]?.state !== 'connected' || deviceProfiles[clockReaderId]?.capabilities.clock === false}
+        onClick={()=> onCheckClock(clockReaderId)}>Check Clock Now</button>
+    </div>
+    {clockLog.length > 0 && <div className="table-wrap" style={{marginTop:10}}>
+      <table className="table">
+        <thead><tr><th>Checked</th><th>Drift</th><th>Round trip</th><th>Device zone</th><th>Correction</th></tr></thead>
+        <tbody>
+          {clockLog.map(c => <tr key={c.id}>
+            <td>{new Date(c.checked_at).toLocaleString()}</td>
+            <td>{formatDrift(c.drift_ms)}</td>
+            <td>{c.round_trip_ms} ms</td>
+            <td>{c.device_tz ?? '-'}</td>
+            <td style={{color: isClockTrusted(c) ? 'inherit' : '#DC2626'}}>
+              {c.corrected ? `Set (now ${formatDrift(c.residual_ms ?? 0)})` : isClockTrusted(c) ? '-' : 'Failed'}
+            </td>
+          </tr>)}
+        </tbody>
+      </table>
+    </div>}
+
+    <hr className="sep"/>
+
+    <div style={{fontWeight:700, marginBottom:8}}>Device Queue</div>
+    <p className="notice">
+      The device keeps its own ledger of borrows and returns, including ones made at the pad while this page was closed.
+      Reconciling imports what the kiosk missed, lists anything that can't be applied for review, and then clears the device queue.
+    </p>
+    <button className="btn primary" disabled={!connected || reconciling || !targetCan('queue')} onClick={async ()=>{
+      setReconciling(true)
+      try{ await onReconcile() } finally { setReconciling(false) }
+    }}>{reconciling ? 'Reconciling…' : 'Reconcile Device Queue'}</button>
+    {conflicts.length > 0 && <div className="table-wrap" style={{marginTop:10}}>
+      <table className="table">
+        <thead><tr><th>When</th><th>Device</th><th>Action</th><th>Card</th><th>Item</th><th>Problem</th><th></th></tr></thead>
+        <tbody>
+          {conflicts.map(c => <tr key={c.id}>
+            <td>{new Date(c.occurred_at).toLocaleString()}</td>
+            <td>{c.device_id}</td>
+            <td>{c.op}{c.due_date ? ` (due ${c.due_date})` : ''}</td>
+            <td>{c.card_uid}</td>
+            <td>{c.item_tag}</td>
+            <td>{c.reason}</td>
+            <td><button className="btn" onClick={()=> onDismissConflict(c.id)}>Mark Reviewed</button></td>
+          </tr>)}
+        </tbody>
+      </table>
+    </div>}
+
+    <hr className="sep"/>
+
     <div style={{fontWeight:700, marginBottom:8}}>Local Database (IndexedDB)</div>
     <p className="notice">
       Data is stored locally in your browser (IndexedDB). We request <b>Persistent Storage</b> so it isn’t auto-cleared.
@@ -0,0 +1,154 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { db, Loan } from '../db'
+import { ReservationManager, FineManager } from '../analytics'
+
+function activeLoan(item_tag: string, student_index = 'STU-1'): Loan {
+  return {
+    id: `loan-${item_tag}`,
+    student_index,
+    user_uid: null,
+    item_tag,
+    item_title: null,
+    borrowed_at: '2024-05-01T10:00:00.000Z',
+    due_at: '2024-05-15T10:00:00.000Z',
+    returned_at: null,
+    status: 'ACTIVE',
+    device_id: 'web-kiosk',
+  }
+}
+
+describe('Reservations', () => {
+  const manager = new ReservationManager()
+  let ids: number[]
+
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+    ids = (await db.students.bulkAdd(
+      [
+        { index_number: 'STU-1', full_name: 'Alice Johnson' },
+        { index_number: 'STU-2', full_name: 'Bob Williams' },
+        { index_number: 'STU-3', full_name: 'Charlie Brown' },
+      ],
+      { allKeys: true }
+    )) as number[]
+    await db.loans.add(activeLoan('BOOK-1'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('persists reservations and refuses ones that make no sense', async () => {
+    expect((await manager.createReservation(ids[1], 'BOOK-1')).success).toBe(true)
+    expect((await manager.createReservation(ids[1], 'BOOK-1')).error).toMatch(/already have/)
+    expect((await manager.createReservation(ids[0], 'BOOK-1')).error).toMatch(/already has this book/)
+    expect((await manager.createReservation(ids[1], 'BOOK-2')).error).toMatch(/available/)
+    expect(await new ReservationManager().isReserved('BOOK-1')).toBe(true)
+  })
+
+  it('holds a returned item for the first in line, by priority then time', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-05-02T09:00:00Z'))
+    await manager.createReservation(ids[1], 'BOOK-1')
+    vi.setSystemTime(new Date('2024-05-02T10:00:00Z'))
+    const second = await manager.createReservation(ids[2], 'BOOK-1')
+    await db.reservations.update(second.reservation!.id, { priority: 2 })
+
+    const hold = await manager.processBookReturn('BOOK-1')
+    expect(hold).toMatchObject({ studentId: ids[2], status: 'READY', holdUntil: '2024-05-05T10:00:00.000Z' })
+    // Only one hold per item at a time
+    expect(await manager.processBookReturn('BOOK-1')).toBeNull()
+  })
+
+  it('keeps a queued reservation while the item is still out', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-05-02T09:00:00Z'))
+    const { reservation } = await manager.createReservation(ids[1], 'BOOK-1')
+    // Seven days from when BOOK-1 is due back, not from today
+    expect(reservation?.expiresAt).toBe('2024-05-22T10:00:00.000Z')
+
+    vi.setSystemTime(new Date('2024-06-01T10:00:00Z')) // past expiry, loan overdue
+    expect(await manager.cleanupExpiredReservations()).toBe(0)
+    expect(await manager.isReserved('BOOK-1')).toBe(true)
+    await db.loans.update('loan-BOOK-1', { status: 'LOST' })
+    expect(await manager.cleanupExpiredReservations()).toBe(1)
+  })
+
+  it('passes a cancelled or lapsed hold to the next patron', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-05-02T09:00:00Z'))
+    await manager.createReservation(ids[1], 'BOOK-1', undefined, 30)
+    vi.setSystemTime(new Date('2024-05-02T10:00:00Z'))
+    await manager.createReservation(ids[2], 'BOOK-1', undefined, 30)
+    const first = await manager.processBookReturn('BOOK-1')
+
+    vi.setSystemTime(new Date('2024-05-06T10:00:00Z'))
+    // A lapsed hold stops counting before the cleanup marks it
+    expect(await manager.holdFor('BOOK-1')).toBeUndefined()
+    expect(await manager.cleanupExpiredReservations()).toBe(1)
+    expect((await db.reservations.get(first!.id))?.status).toBe('EXPIRED')
+    const next = await manager.holdFor('BOOK-1')
+    expect(next?.studentId).toBe(ids[2])
+
+    const cancelled = await manager.cancelReservation(next!.id)
+    expect(cancelled).toMatchObject({ success: true, next: null })
+    expect(await manager.isReserved('BOOK-1')).toBe(false)
+  })
+})
+
+describe('Fines', () => {
+  const manager = new FineManager()
+  let studentId: number
+
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+    localStorage.clear()
+    studentId = await db.students.add({ index_number: 'STU-1', full_name: 'Alice Johnson' })
+    await db.loans.add(activeLoan('BOOK-1'))
+  })
+
+  it('keeps one overdue fine per loan and grows it as days pass', async () => {
+    expect(await manager.calculateOverdueFines(new Date('2024-05-15T12:00:00Z'))).toEqual([])
+
+    const [first] = await manager.calculateOverdueFines(new Date('2024-05-19T12:00:00Z'))
+    expect(first).toMatchObject({ studentId, type: 'OVERDUE', amount: 2, status: 'PENDING' })
+    expect(await manager.calculateOverdueFines(new Date('2024-05-19T18:00:00Z'))).toEqual([])
+
+    await manager.payFine(first.id, 2, 'desk-1')
+    const [grown] = await manager.calculateOverdueFines(new Date('2024-05-21T12:00:00Z'))
+    expect(grown).toMatchObject({ id: first.id, amount: 3, paidAmount: 2, status: 'PARTIAL' })
+    expect(await db.fines.count()).toBe(1)
+
+    // Capped
+    const [capped] = await manager.calculateOverdueFines(new Date('2024-09-01T12:00:00Z'))
+    expect(capped.amount).toBe(25)
+  })
+
+  it('runs the daily job once per day', async () => {
+    expect(await manager.runDailyAccrual(new Date('2024-05-19T09:00:00'))).toHaveLength(1)
+    expect(await manager.runDailyAccrual(new Date('2024-05-19T17:00:00'))).toBeNull()
+    expect(await manager.runDailyAccrual(new Date('2024-05-20T09:00:00'))).toHaveLength(1)
+  })
+
+  it('records partial payments and waivers with the acting user', async () => {
+    const { fine } = await manager.createManualFine(studentId, 'loan-BOOK-1', 'BOOK-1', 'DAMAGE', 10, 'Torn cover')
+    expect((await manager.payFine(fine!.id, 0, 'ama')).error).toMatch(/greater than zero/)
+
+    const part = await manager.payFine(fine!.id, 4, 'ama')
+    expect(part.fine).toMatchObject({ status: 'PARTIAL', paidAmount: 4, payments: [{ amount: 4, receivedBy: 'ama' }] })
+    expect(await manager.unpaidTotal(studentId)).toBe(6)
+
+    const rest = await manager.payFine(fine!.id, 20, 'kofi')
+    expect(rest.fine).toMatchObject({ status: 'PAID', paidAmount: 10 })
+    expect(rest.fine!.payments!.map(p => [p.amount, p.receivedBy])).toEqual([[4, 'ama'], [6, 'kofi']])
+    expect((await manager.waiveFine(fine!.id, 'Goodwill', 'ama')).error).toMatch(/already paid/)
+
+    const other = await manager.createManualFine(studentId, 'loan-BOOK-1', 'BOOK-1', 'OTHER', 3, 'Lost card')
+    expect((await manager.waiveFine(other.fine!.id, ' ', 'ama')).error).toMatch(/reason/)
+    const waived = await manager.waiveFine(other.fine!.id, 'First time', 'kofi')
+    expect(waived.fine).toMatchObject({ status: 'WAIVED', waivedBy: 'kofi', waivedReason: 'First time' })
+    expect(await manager.unpaidTotal(studentId)).toBe(0)
+    expect(await new FineManager().getStudentFines(studentId)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  DEFAULT_CALENDAR, LibraryCalendar, loadLibraryCalendar, saveLibraryCalendar, isOpenDay, dueAfter, openUnitsSince,
+  parseIcsClosures, mergeClosures
+} from '../calendar'
+import { ValidationError } from '../error-handling'
+
+// Sundays closed, plus a two-day closure over Monday and Tuesday 6-7 May 2024
+const calendar: LibraryCalendar = {
+  hours: DEFAULT_CALENDAR.hours.map((h, day) => (day === 0 ? null : h)),
+  closures: [{ start: '2024-05-06', end: '2024-05-07', reason: 'Exams' }],
+}
+
+const local = (y: number, m: number, d: number, h = 10) => new Date(y, m - 1, d, h)
+
+describe('Library calendar', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('rolls due dates forward past closed weekdays and closures', () => {
+    expect(isOpenDay(calendar, local(2024, 5, 4))).toBe(true)
+    expect(isOpenDay(calendar, local(2024, 5, 5))).toBe(false)
+    expect(isOpenDay(calendar, local(2024, 5, 6))).toBe(false)
+    // Due Sunday 5 May -> Wednesday 8 May, keeping the time of day
+    expect(dueAfter(local(2024, 5, 1).toISOString(), 4, calendar)).toBe(local(2024, 5, 8).toISOString())
+    expect(dueAfter(local(2024, 5, 1).toISOString(), 3, calendar)).toBe(local(2024, 5, 4).toISOString())
+    expect(dueAfter(local(2024, 5, 1).toISOString(), 4, DEFAULT_CALENDAR)).toBe(local(2024, 5, 5).toISOString())
+  })
+
+  it('leaves closed days out of overdue counts', () => {
+    const due = local(2024, 5, 3).toISOString() // Friday
+    // Days starting Fri, Sat, Sun (closed), Mon, Tue (closure), Wed
+    expect(openUnitsSince(calendar, due, local(2024, 5, 9, 12))).toBe(3)
+    expect(openUnitsSince(DEFAULT_CALENDAR, due, local(2024, 5, 9, 12))).toBe(6)
+    expect(openUnitsSince(calendar, due, local(2024, 5, 2))).toBe(0)
+  })
+
+  it('saves valid calendars only, with closures in date order', () => {
+    expect(loadLibraryCalendar()).toEqual(DEFAULT_CALENDAR)
+    expect(() => saveLibraryCalendar({ ...calendar, closures: [{ start: '2024-05-07', end: '2024-05-06', reason: 'Oops' }] }))
+      .toThrow(ValidationError)
+    const hours = [...calendar.hours]
+    hours[1] = { open: '18:00', close: '09:00' }
+    expect(() => saveLibraryCalendar({ ...calendar, hours })).toThrow(ValidationError)
+
+    const holiday = { start: '2024-03-06', end: '2024-03-06', reason: 'Independence Day' }
+    saveLibraryCalendar({ ...calendar, closures: [...calendar.closures, holiday] })
+    expect(loadLibraryCalendar().closures.map(c => c.reason)).toEqual(['Independence Day', 'Exams'])
+    expect(loadLibraryCalendar().hours[0]).toBeNull()
+  })
+
+  it('imports closures from an .ics file', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20241225',
+      'DTEND;VALUE=DATE:20241227',
+      'SUMMARY:Christmas and Boxing Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20240306',
+      'SUMMARY:Independence',
+      '  Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20240920T070000',
+      'DTEND:20240921T210000',
+      'SUMMARY:Staff training\\, all day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20240923T100000',
+      'DTEND:20240923T120000',
+      'SUMMARY:Staff meeting',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20240101',
+      'RRULE:FREQ=YEARLY',
+      'SUMMARY:New Year',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n')
+
+    const { closures, skipped } = parseIcsClosures(ics)
+    expect(skipped).toBe(2) // the yearly event and the two-hour meeting
+    expect(closures).toEqual([
+      { start: '2024-12-25', end: '2024-12-26', reason: 'Christmas and Boxing Day' },
+      { start: '2024-03-06', end: '2024-03-06', reason: 'Independence Day' },
+      { start: '2024-09-20', end: '2024-09-21', reason: 'Staff training, all day' },
+    ])
+
+    const first = mergeClosures(calendar, closures)
+    expect(first.added).toBe(3)
+    const again = mergeClosures(first.calendar, [...closures, closures[0]])
+    expect(again.added).toBe(0)
+    expect(again.calendar.closures).toHaveLength(4)
+  })
+})
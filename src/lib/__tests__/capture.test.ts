@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createRecorder, parseCapture, captureToEvents, replayCapture, Capture } from '../capture'
+import { DeviceEvent } from '../protocol'
+
+const fixture: Capture = {
+  version: 1,
+  startedAt: '2024-03-01T09:00:00.000Z',
+  transport: 'Web Serial',
+  entries: [
+    { t: 0, dir: 'out', line: 'STATUS' },
+    { t: 40, dir: 'in', line: 'STATUS|SMS:ON|Students:2|ActiveBorrows:1|QueuePending:0|Auto:OFF|IntervalMin:0' },
+    { t: 1000, dir: 'in', line: 'CARD_SCANNED:E0A1B2C3' },
+    { t: 3000, dir: 'in', line: '{"event":"item","tag":"BOOK-42"' },
+  ],
+}
+
+describe('Capture', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('records traffic with offsets from the start', () => {
+    let clock = 5000
+    const recorder = createRecorder(() => clock)
+    recorder.record('in', 'ignored before start')
+    recorder.start('Mock reader')
+    clock += 120
+    recorder.record('in', 'SCAN_ARMED')
+    expect(recorder.recording).toBe(true)
+    const capture = recorder.stop()
+    expect(capture?.entries).toEqual([{ t: 120, dir: 'in', line: 'SCAN_ARMED' }])
+    expect(recorder.recording).toBe(false)
+  })
+
+  it('round-trips through the file format', () => {
+    expect(parseCapture(JSON.stringify(fixture))).toEqual(fixture)
+    expect(() => parseCapture('nope')).toThrow('not valid JSON')
+    expect(() => parseCapture('{"version":2,"entries":[]}')).toThrow('Not a reader capture')
+    expect(() => parseCapture('{"version":1,"entries":[{"t":"x"}]}')).toThrow('entry 0')
+  })
+
+  it('produces the parser events of the device lines, including parse errors', () => {
+    const events = captureToEvents(fixture).filter(e => e.event !== 'raw')
+    expect(events.map(e => e.event)).toEqual(['status', 'card', 'parse_error'])
+  })
+
+  it('replays with the original timing scaled by speed', () => {
+    vi.useFakeTimers()
+    const events: DeviceEvent[] = []
+    const outgoing: string[] = []
+    const onDone = vi.fn()
+    replayCapture(fixture, e => events.push(e), { speed: 10, onOutgoing: l => outgoing.push(l), onDone })
+
+    vi.advanceTimersByTime(5)
+    expect(outgoing).toEqual(['STATUS'])
+    expect(events).toHaveLength(2) // raw + status at 4ms
+    vi.advanceTimersByTime(100)
+    expect(events).toContainEqual({ event: 'card', uid: 'E0A1B2C3' })
+    expect(onDone).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(200)
+    expect(onDone).toHaveBeenCalled()
+  })
+
+  it('can be cancelled mid-replay', () => {
+    vi.useFakeTimers()
+    const onEvent = vi.fn()
+    const cancel = replayCapture(fixture, onEvent)
+    vi.advanceTimersByTime(50)
+    cancel()
+    vi.advanceTimersByTime(5000)
+    expect(onEvent).toHaveBeenCalledTimes(2)
+  })
+})
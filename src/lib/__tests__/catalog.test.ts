@@ -0,0 +1,74 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { db, Loan, itemsFromHistory, lookupItemTitle } from '../db'
+import { saveItem, setItemStatus, backfillItems, lendRefusal, searchItems } from '../catalog'
+import { ValidationError } from '../error-handling'
+
+function loan(item_tag: string, item_title: string | null, borrowed_at: string, status: Loan['status'] = 'RETURNED'): Loan {
+  return {
+    id: crypto.randomUUID(),
+    student_index: 'STU-001',
+    user_uid: 'CARD-ALICE',
+    item_tag,
+    item_title,
+    borrowed_at,
+    due_at: borrowed_at,
+    returned_at: status === 'RETURNED' ? borrowed_at : null,
+    status,
+    device_id: 'web-kiosk',
+    synced: 0,
+  }
+}
+
+describe('Item catalog', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+  })
+
+  it('builds items from loan history with the newest title and loan status', () => {
+    const items = itemsFromHistory(
+      [
+        loan('BOOK-1', 'Old Title', '2024-01-01T00:00:00Z'),
+        loan('BOOK-1', 'New Title', '2024-03-01T00:00:00Z', 'ACTIVE'),
+        loan('BOOK-1', null, '2024-04-01T00:00:00Z'),
+        loan('BOOK-2', null, '2024-02-01T00:00:00Z'),
+        loan('BOOK-3', 'Known', '2024-02-01T00:00:00Z'),
+      ],
+      [],
+      ['BOOK-3']
+    )
+    expect(items.map(i => [i.tag, i.title, i.status])).toEqual([
+      ['BOOK-1', 'New Title', 'ON_LOAN'],
+      ['BOOK-2', 'BOOK-2', 'AVAILABLE'],
+    ])
+  })
+
+  it('backfills only tags the catalog is missing', async () => {
+    await saveItem({ tag: 'BOOK-1', title: 'Catalogued' })
+    await db.loans.bulkAdd([loan('BOOK-1', 'From Loan', '2024-01-01T00:00:00Z'), loan('BOOK-2', 'Other', '2024-01-01T00:00:00Z')])
+    expect(await backfillItems()).toBe(1)
+    expect(await lookupItemTitle('BOOK-1')).toBe('Catalogued')
+    expect(await lookupItemTitle('BOOK-2')).toBe('Other')
+  })
+
+  it('validates entries and keeps created_at and status on edit', async () => {
+    await expect(saveItem({ tag: 'BOOK 1', title: 'Bad tag' })).rejects.toBeInstanceOf(ValidationError)
+    await expect(saveItem({ tag: 'BOOK-1', title: 'X', isbn: '12345' })).rejects.toThrow(/ISBN/)
+
+    const first = await saveItem({ tag: 'BOOK-1', title: 'Clean Code', isbn: '978-0-13-235088-4' })
+    expect(first.isbn).toBe('9780132350884')
+    await setItemStatus('BOOK-1', 'ON_LOAN')
+    const edited = await saveItem({ tag: 'BOOK-1', title: 'Clean Code', author: 'Martin', copy_number: 2 })
+    expect(edited.created_at).toBe(first.created_at)
+    expect(edited.status).toBe('ON_LOAN')
+    expect(await searchItems('martin')).toHaveLength(1)
+  })
+
+  it('refuses to lend unknown, lost and withdrawn items', async () => {
+    const item = await saveItem({ tag: 'BOOK-1', title: 'Clean Code' })
+    expect(lendRefusal(item)).toBeNull()
+    expect(lendRefusal(undefined)).toMatch(/not in the catalog/)
+    expect(lendRefusal({ ...item, status: 'LOST' })).toMatch(/lost/)
+    expect(lendRefusal({ ...item, status: 'WITHDRAWN' })).toMatch(/withdrawn/)
+  })
+})
@@ -0,0 +1,214 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { db } from '../db'
+import { saveItem, setItemStatus } from '../catalog'
+import {
+  borrow, returnLoan, renew, closeLoan, checkInFound, minutesOverdue, describeMinutes, MAX_ACTIVE_LOANS, MAX_RENEWALS
+} from '../circulation'
+import { reservationManager, fineManager, generateLibraryStats, saveFineSettings } from '../analytics'
+import { saveLoanRules } from '../loan-rules'
+import { DEFAULT_CALENDAR, saveLibraryCalendar } from '../calendar'
+import { ValidationError, DatabaseError } from '../error-handling'
+
+const NOW = '2024-05-01T10:00:00.000Z'
+
+function request(item_tag: string) {
+  return { student_index: 'STU-001', user_uid: 'CARD-ALICE', item_tag, days: 14, device_id: 'desk' }
+}
+
+describe('Circulation', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+    await db.students.add({ index_number: 'STU-001', full_name: 'Alice Johnson', card_uid: 'CARD-ALICE' })
+    for (let n = 1; n <= 5; n++) await saveItem({ tag: `BOOK-${n}`, title: `Book ${n}` })
+  })
+
+  it('borrows with the catalog title, an audit record and ON_LOAN status', async () => {
+    const { loan, tx } = await borrow({ ...request('BOOK-1'), item_title: 'Typed title' }, NOW)
+    expect(loan.item_title).toBe('Book 1')
+    expect(loan.due_at).toBe('2024-05-15T10:00:00.000Z')
+    expect(tx).toMatchObject({ action: 'BORROW', item_tag: 'BOOK-1', student_index: 'STU-001', device_id: 'desk' })
+    expect(await db.transactions.count()).toBe(1)
+    expect((await db.items.get('BOOK-1'))?.status).toBe('ON_LOAN')
+  })
+
+  it('refuses invalid requests, unknown students and unavailable items', async () => {
+    await expect(borrow({ ...request('BOOK-1'), days: 0 }, NOW)).rejects.toBeInstanceOf(ValidationError)
+    await expect(borrow({ ...request('BOOK-1'), student_index: 'STU-999' }, NOW)).rejects.toThrow(/not found/)
+    await expect(borrow(request('BOOK-404'), NOW)).rejects.toThrow(/not in the catalog/)
+    await setItemStatus('BOOK-2', 'LOST')
+    await expect(borrow(request('BOOK-2'), NOW)).rejects.toThrow(/lost/)
+    await borrow(request('BOOK-3'), NOW)
+    await expect(borrow(request('BOOK-3'), NOW)).rejects.toThrow(/already on loan/)
+    expect(await db.loans.count()).toBe(1)
+  })
+
+  it('holds the loan limit against concurrent borrows', async () => {
+    const tags = ['BOOK-1', 'BOOK-2', 'BOOK-3', 'BOOK-4', 'BOOK-5']
+    const results = await Promise.allSettled(tags.map(tag => borrow(request(tag), NOW)))
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(MAX_ACTIVE_LOANS)
+    expect(await db.loans.count()).toBe(MAX_ACTIVE_LOANS)
+    expect(await db.transactions.count()).toBe(MAX_ACTIVE_LOANS)
+  })
+
+  it('writes nothing when part of a borrow fails', async () => {
+    const spy = vi.spyOn(db.transactions, 'add').mockRejectedValueOnce(new Error('disk full'))
+    await expect(borrow(request('BOOK-1'), NOW)).rejects.toBeInstanceOf(DatabaseError)
+    spy.mockRestore()
+    expect(await db.loans.count()).toBe(0)
+    expect((await db.items.get('BOOK-1'))?.status).toBe('AVAILABLE')
+  })
+
+  it('returns once and renews only active loans', async () => {
+    const { loan } = await borrow(request('BOOK-1'), NOW)
+    const renewed = await renew(loan.id, 'desk', 21, '2024-05-10T10:00:00.000Z')
+    expect(renewed.loan.due_at).toBe('2024-05-31T10:00:00.000Z')
+
+    const { tx } = await returnLoan(loan.id, 'desk', '2024-05-12T10:00:00.000Z')
+    expect(tx.action).toBe('RETURN')
+    expect((await db.loans.get(loan.id))?.status).toBe('RETURNED')
+    expect((await db.items.get('BOOK-1'))?.status).toBe('AVAILABLE')
+    await expect(returnLoan(loan.id, 'desk')).rejects.toThrow(/already returned/)
+    await expect(renew(loan.id, 'desk', 7)).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  it('records renewals with both due dates, up to the limit', async () => {
+    const { loan } = await borrow(request('BOOK-1'), NOW)
+    const first = await renew(loan.id, 'desk', 14, '2024-05-14T10:00:00.000Z')
+    expect(first.tx).toMatchObject({
+      action: 'RENEW',
+      due_before: '2024-05-15T10:00:00.000Z',
+      due_after: '2024-05-28T10:00:00.000Z',
+    })
+    expect(first.loan.renewals).toBe(1)
+    for (let n = 1; n < MAX_RENEWALS; n++) await renew(loan.id, 'desk', 14, NOW)
+    await expect(renew(loan.id, 'desk')).rejects.toThrow(/maximum/)
+    expect(await db.transactions.where('action').equals('RENEW').count()).toBe(MAX_RENEWALS)
+  })
+
+  it('refuses to renew a reserved item', async () => {
+    const { loan } = await borrow(request('BOOK-1'), NOW)
+    await reservationManager.createReservation(2, 'BOOK-1')
+    await expect(renew(loan.id, 'desk')).rejects.toThrow(/reserved/)
+    expect((await db.loans.get(loan.id))?.renewals).toBe(0)
+  })
+
+  it('closes loans as lost, damaged or claimed returned', async () => {
+    const lost = await borrow(request('BOOK-1'), NOW)
+    const damaged = await borrow(request('BOOK-2'), NOW)
+    const claimed = await borrow(request('BOOK-3'), NOW)
+
+    const l = await closeLoan(lost.loan.id, 'LOST', 'desk', { amount: 40 })
+    expect(l.tx.action).toBe('LOST')
+    expect(l.loan).toMatchObject({ status: 'LOST', returned_at: null })
+    expect(l.fine).toMatchObject({ type: 'LOST', amount: 40, loanId: lost.loan.id, description: 'Replacement of Book 1' })
+    expect((await db.items.get('BOOK-1'))?.status).toBe('LOST')
+
+    const d = await closeLoan(damaged.loan.id, 'DAMAGED', 'desk', { amount: 5, description: 'Water damage' })
+    expect(d.loan.returned_at).not.toBeNull()
+    expect(d.fine).toMatchObject({ type: 'DAMAGE', description: 'Water damage' })
+    expect((await db.items.get('BOOK-2'))?.status).toBe('DAMAGED')
+
+    await expect(closeLoan(claimed.loan.id, 'CLAIMED_RETURNED', 'desk', { amount: 5 })).rejects.toThrow(/No fine/)
+    await closeLoan(claimed.loan.id, 'CLAIMED_RETURNED', 'desk')
+    expect((await db.items.get('BOOK-3'))?.status).toBe('MISSING')
+    // Alice now owes 45.00, over the fine limit
+    await expect(borrow(request('BOOK-3'), NOW)).rejects.toThrow(/unpaid fines/)
+    await db.students.add({ index_number: 'STU-002', full_name: 'Bob Williams' })
+    await expect(borrow({ ...request('BOOK-3'), student_index: 'STU-002', user_uid: null }, NOW)).rejects.toThrow(/missing/)
+    await expect(closeLoan(lost.loan.id, 'DAMAGED', 'desk')).rejects.toThrow(/not on loan/)
+
+    const stats = await generateLibraryStats()
+    expect(stats.outcomes).toMatchObject({ lost: 1, damaged: 1, claimedReturned: 1 })
+    expect(stats.overview.activeLoans).toBe(0)
+  })
+
+  it('reverses a lost loan when the item is found', async () => {
+    const { loan } = await borrow(request('BOOK-1'), NOW)
+    const { fine } = await closeLoan(loan.id, 'LOST', 'desk', { amount: 40 }, NOW)
+    await expect(checkInFound('BOOK-2', 'desk')).rejects.toBeInstanceOf(ValidationError)
+
+    const found = await checkInFound('BOOK-1', 'desk', 'librarian')
+    expect(found.tx.action).toBe('FOUND')
+    expect(found.loan.status).toBe('RETURNED')
+    expect((await db.items.get('BOOK-1'))?.status).toBe('AVAILABLE')
+    const fines = await fineManager.getStudentFines(fine!.studentId)
+    expect(fines.find(f => f.id === fine!.id)).toMatchObject({ status: 'WAIVED', waivedBy: 'librarian' })
+    expect((await generateLibraryStats()).outcomes).toMatchObject({ lost: 0, foundThisMonth: 1 })
+    await borrow(request('BOOK-1'))
+  })
+
+  it('puts a returned item on hold and lends it only to that patron', async () => {
+    const bob = await db.students.add({ index_number: 'STU-002', full_name: 'Bob Williams' })
+    await db.students.add({ index_number: 'STU-003', full_name: 'Carol Danvers' })
+    const { loan } = await borrow(request('BOOK-1'), NOW)
+    await reservationManager.createReservation(bob, 'BOOK-1', 'Book 1')
+
+    const { hold } = await returnLoan(loan.id, 'desk')
+    expect(hold).toMatchObject({ studentId: bob, status: 'READY' })
+    await expect(borrow({ ...request('BOOK-1'), student_index: 'STU-003' })).rejects.toThrow(/on hold for another patron/)
+
+    await borrow({ ...request('BOOK-1'), student_index: 'STU-002', user_uid: null })
+    expect((await db.reservations.get(hold!.id))?.status).toBe('FULFILLED')
+  })
+
+  it('fines late returns and refuses borrowers over the fine limit', async () => {
+    const { loan } = await borrow(request('BOOK-1'), NOW)
+    const onTime = await returnLoan(loan.id, 'desk', '2024-05-15T09:00:00.000Z')
+    expect(onTime.fine).toBeNull()
+
+    const late = await borrow(request('BOOK-2'), NOW)
+    const { fine } = await returnLoan(late.loan.id, 'desk', '2024-06-08T10:00:00.000Z')
+    expect(fine).toMatchObject({ type: 'OVERDUE', amount: 12, loanId: late.loan.id })
+
+    await expect(borrow(request('BOOK-3'))).rejects.toThrow(/owes 12.00 in unpaid fines \(limit 10.00\)/)
+    saveFineSettings({ blockThreshold: 15 })
+    await borrow(request('BOOK-3'))
+    saveFineSettings({ blockThreshold: 10 })
+    await fineManager.payFine(fine!.id, 2, 'desk')
+    await borrow(request('BOOK-4'))
+  })
+
+  it('applies circulation rules for the student and item type', async () => {
+    await db.students.where('index_number').equals('STU-001').modify({ level: '100' })
+    await saveItem({ tag: 'REF-1', title: 'Atlas', item_type: 'REFERENCE' })
+    await saveItem({ tag: 'REF-2', title: 'Almanac', item_type: 'REFERENCE' })
+    await saveLoanRules([{ program: null, level: '100', itemType: 'REFERENCE', maxLoans: 1, loanPeriod: 2, maxRenewals: 1, mayLeave: true }])
+
+    const { loan } = await borrow({ ...request('REF-1'), days: undefined }, NOW)
+    expect(loan.due_at).toBe('2024-05-03T10:00:00.000Z')
+    await expect(borrow({ ...request('REF-2'), days: undefined }, NOW)).rejects.toThrow('Level 100 students may hold 1 reference item')
+
+    const renewed = await renew(loan.id, 'desk', undefined, '2024-05-02T10:00:00.000Z')
+    expect(renewed.loan.due_at).toBe('2024-05-04T10:00:00.000Z')
+    await expect(renew(loan.id, 'desk')).rejects.toThrow(/maximum 1 time/)
+  })
+
+  it('moves due dates off days the library is closed', async () => {
+    saveLibraryCalendar({ ...DEFAULT_CALENDAR, closures: [{ start: '2024-05-15', end: '2024-05-16', reason: 'Exams' }] })
+    const { loan } = await borrow(request('BOOK-1'), NOW)
+    expect(loan.due_at).toBe('2024-05-17T10:00:00.000Z')
+    localStorage.removeItem('libraryCalendar')
+  })
+
+  it('lends equipment by the hour and tells how late it is to the minute', async () => {
+    await saveItem({ tag: 'LAP-1', title: 'Laptop 1', item_type: 'EQUIPMENT' })
+    await saveLoanRules([
+      { program: null, level: null, itemType: 'EQUIPMENT', maxLoans: 1, loanPeriod: 3, loanUnit: 'HOURS', dueByClose: false, maxRenewals: 1, mayLeave: true },
+    ])
+    await expect(borrow({ ...request('LAP-1'), days: 1 }, NOW)).rejects.toThrow('Students may borrow equipment items for up to 3 hour(s)')
+    await expect(borrow({ ...request('LAP-1'), minutes: 30 }, NOW)).rejects.toBeInstanceOf(ValidationError) // days and minutes
+
+    const { loan } = await borrow({ ...request('LAP-1'), days: undefined, minutes: 90 }, NOW)
+    expect(loan.due_at).toBe('2024-05-01T11:30:00.000Z')
+    const renewed = await renew(loan.id, 'desk', undefined, '2024-05-01T11:00:00.000Z')
+    expect(renewed.loan.due_at).toBe('2024-05-01T14:00:00.000Z')
+
+    expect(minutesOverdue(renewed.loan, new Date('2024-05-01T13:59:30.000Z'))).toBe(0)
+    expect(minutesOverdue(renewed.loan, new Date('2024-05-01T14:45:10.000Z'))).toBe(45)
+    expect(describeMinutes(45)).toBe('45 min')
+    expect(describeMinutes(125)).toBe('2 h 5 min')
+    expect(describeMinutes(120)).toBe('2 h')
+    expect(describeMinutes(3 * 24 * 60 + 5)).toBe('3 day(s)')
+  })
+})
@@ -0,0 +1,82 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { db } from '../db'
+import { EmulatorTransport } from '../emulator'
+import { ReaderConnection } from '../reader'
+import { CommandResult } from '../commands'
+import { syncDeviceClock, clockHistory, isClockTrusted, formatDrift } from '../clock'
+
+async function connect(clockOffsetMs: number, timeZone = 'Africa/Accra') {
+  const transport = new EmulatorTransport(0)
+  transport.device.clockOffsetMs = clockOffsetMs
+  transport.device.timeZone = timeZone
+  const conn = new ReaderConnection(transport, { onEvent: () => {} })
+  await conn.connect()
+  return { device: transport.device, send: (cmd: string) => conn.send(cmd) }
+}
+
+describe('Device clock', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+  })
+
+  it('leaves a clock within the threshold alone', async () => {
+    const { device, send } = await connect(4000)
+    const result = await syncDeviceClock(send, 'desk-reader', { timeZone: 'Africa/Accra' })
+    expect(result?.trusted).toBe(true)
+    expect(result?.check.corrected).toBe(false)
+    expect(Math.abs(result!.check.drift_ms - 4000)).toBeLessThan(1500)
+    expect(device.clockOffsetMs).toBe(4000)
+  })
+
+  it('pushes kiosk time and zone once the drift passes the threshold', async () => {
+    const { device, send } = await connect(-10 * 60000, 'UTC')
+    const result = await syncDeviceClock(send, 'desk-reader', { timeZone: 'Africa/Accra' })
+    expect(result?.trusted).toBe(true)
+    expect(result?.check).toMatchObject({ corrected: true, device_tz: 'UTC' })
+    expect(result?.message).toMatch(/^Device clock was 10 min behind \(zone UTC\); set to Africa\/Accra kiosk time\.$/)
+    expect(Math.abs(device.clockOffsetMs)).toBeLessThan(1000)
+    expect(device.timeZone).toBe('Africa/Accra')
+  })
+
+  it('reports a clock that will not take the correction as untrusted', async () => {
+    // Acknowledges TIME SET but keeps running an hour fast
+    const stuck = async (command: string): Promise<CommandResult> =>
+      command === 'TIME'
+        ? { ok: true, command, time: { epoch: Math.floor((Date.now() + 3600000) / 1000), tz: 'UTC' } }
+        : { ok: true, command }
+    const result = await syncDeviceClock(stuck, 'gate', { timeZone: 'UTC' })
+    expect(result?.trusted).toBe(false)
+    expect(isClockTrusted(result?.check)).toBe(false)
+    expect(result?.message).toBe('Device clock is 60 min ahead and could not be corrected.')
+  })
+
+  it('reports a zone-only mismatch as untrusted when the correction fails', async () => {
+    // Clock in step but set to UTC, and TIME SET is refused
+    const refusing = async (command: string): Promise<CommandResult> =>
+      command === 'TIME'
+        ? { ok: true, command, time: { epoch: Math.floor(Date.now() / 1000), tz: 'UTC' } }
+        : { ok: false, command, error: 'ERR BUSY' }
+    const result = await syncDeviceClock(refusing, 'gate', { timeZone: 'Africa/Accra' })
+    expect(result?.trusted).toBe(false)
+    expect(result?.check).toMatchObject({ corrected: false, residual_ms: null, device_tz: 'UTC' })
+    expect(isClockTrusted(result?.check, undefined, 'Africa/Accra')).toBe(false)
+    expect(isClockTrusted(result?.check, undefined, 'UTC')).toBe(true)
+    expect(result?.message).toMatch(/^Device clock is .* \(zone UTC\) and could not be corrected \(ERR BUSY\)\.$/)
+  })
+
+  it('keeps drift history per device', async () => {
+    const { send } = await connect(0)
+    await syncDeviceClock(send, 'desk-reader', { timeZone: 'Africa/Accra' })
+    await syncDeviceClock(send, 'desk-reader', { timeZone: 'Africa/Accra' })
+    await syncDeviceClock(send, 'gate', { timeZone: 'Africa/Accra' })
+    expect(await clockHistory('desk-reader')).toHaveLength(2)
+    expect(await clockHistory('gate')).toHaveLength(1)
+  })
+
+  it('formats drift for staff', () => {
+    expect(formatDrift(0)).toBe('in step')
+    expect(formatDrift(450)).toBe('450 ms ahead')
+    expect(formatDrift(-45000)).toBe('45 s behind')
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createCommandQueue } from '../commands'
+
+describe('Command queue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('writes one command at a time and correlates replies in order', async () => {
+    const written: string[] = []
+    const queue = createCommandQueue(async line => {
+      written.push(line)
+    })
+
+    const first = queue.send('SET STUDENT AA11 | Ann | 555')
+    const second = queue.send('BORROW AA11 | BOOK-1 | 2024-01-15 | 2024-01-01')
+    await Promise.resolve()
+    expect(written).toEqual(['SET STUDENT AA11 | Ann | 555'])
+
+    queue.handleEvent({ event: 'ack', ok: true, detail: '' })
+    await expect(first).resolves.toMatchObject({ ok: true, command: 'SET STUDENT AA11 | Ann | 555' })
+    expect(written).toHaveLength(2)
+
+    queue.handleEvent({ event: 'ack', ok: false, detail: 'Queue full' })
+    await expect(second).resolves.toMatchObject({ ok: false, error: 'Queue full' })
+    expect(queue.pending).toBe(0)
+  })
+
+  it('resolves STATUS on the status line rather than an ack', async () => {
+    const queue = createCommandQueue(async () => {})
+    const res = queue.send('STATUS')
+    await Promise.resolve()
+    queue.handleEvent({
+      event: 'status',
+      data: { sms: 'ON', students: 0, activeBorrows: 0, queuePending: 0, auto: 'OFF', intervalMin: 0 },
+    })
+    await expect(res).resolves.toMatchObject({ ok: true, command: 'STATUS' })
+  })
+
+  it('times out commands without a reply and moves on', async () => {
+    const written: string[] = []
+    const queue = createCommandQueue(async line => {
+      written.push(line)
+    })
+    const res = queue.send('RETURN AA11 | BOOK-1', { timeoutMs: 500 })
+    const next = queue.send('SMS ON')
+    vi.advanceTimersByTime(500)
+    await expect(res).resolves.toMatchObject({ ok: false, timedOut: true })
+    expect(written).toEqual(['RETURN AA11 | BOOK-1', 'SMS ON'])
+
+    queue.reset('Port closed')
+    await expect(next).resolves.toMatchObject({ ok: false, error: 'Port closed' })
+  })
+
+  it('collects QUEUE records until QUEUE_END', async () => {
+    const queue = createCommandQueue(async () => {})
+    const record = { seq: 1, op: 'RETURN' as const, uid: 'AA11', tag: 'BOOK-1', at: '2024-01-02T09:00:00Z' }
+
+    const full = queue.send('QUEUE')
+    await Promise.resolve()
+    queue.handleEvent({ event: 'queued', record })
+    queue.handleEvent({ event: 'queue_end', count: 1 })
+    await expect(full).resolves.toMatchObject({ ok: true, queue: [record] })
+
+    const short = queue.send('QUEUE')
+    await Promise.resolve()
+    queue.handleEvent({ event: 'queued', record })
+    queue.handleEvent({ event: 'queue_end', count: 2 })
+    await expect(short).resolves.toMatchObject({ ok: false, error: 'Queue dump incomplete (1 of 2 records)' })
+  })
+
+  it('resolves READ TAG with the label contents', async () => {
+    const queue = createCommandQueue(async () => {})
+    const read = queue.send('READ TAG')
+    await Promise.resolve()
+    queue.handleEvent({ event: 'tag_data', tag: 'BOOK-42', owner: null })
+    await expect(read).resolves.toMatchObject({ ok: true, tagData: { tag: 'BOOK-42', owner: null } })
+  })
+
+  it('rejects commands the firmware does not allow without writing them', async () => {
+    const write = vi.fn(async () => {})
+    const queue = createCommandQueue(write)
+    await expect(queue.send('FORMAT FLASH')).resolves.toMatchObject({ ok: false })
+    expect(write).not.toHaveBeenCalled()
+  })
+
+  it('fails the command when the write itself fails', async () => {
+    const queue = createCommandQueue(async () => {
+      throw new Error('Port is not writable')
+    })
+    await expect(queue.send('STATUS')).resolves.toMatchObject({ ok: false, error: 'Port is not writable' })
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsv, parseStudentsCsv } from '../csv'
+
+describe('CSV roster import', () => {
+  it('splits quoted fields and CRLF rows', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\n\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ])
+  })
+
+  it('canonicalizes card numbers with the chosen profile', () => {
+    const csv = [
+      'Index Number,Name,Level,Card',
+      'STU-010,Dana Scully,300,3768693443',
+      'STU-011,Fox Mulder,400,',
+    ].join('\n')
+    const { students, errors } = parseStudentsCsv(csv, 'decimal')
+    expect(errors).toEqual([])
+    expect(students.map(s => [s.index_number, s.card_uid])).toEqual([
+      ['STU-010', 'E0A1B2C3'],
+      ['STU-011', null],
+    ])
+  })
+
+  it('reports rejected rows by line number', () => {
+    const csv = 'index_number,full_name,card_uid\nX,Dana Scully,E0A1B2C3\nSTU-012,Walter Skinner,not-a-card'
+    const { students, errors } = parseStudentsCsv(csv, 'hex-msb')
+    expect(students).toEqual([])
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toMatch(/^Row 2: Index number must be at least 3/)
+    expect(errors[1]).toMatch(/^Row 3: Card UID must contain only hexadecimal/)
+  })
+
+  it('requires the identifying columns', () => {
+    expect(parseStudentsCsv('name,phone\nDana,555', 'hex-msb').errors).toEqual([
+      'Header must include index_number and full_name columns',
+    ])
+  })
+})
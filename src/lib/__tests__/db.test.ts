@@ -0,0 +1,33 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { db, findStudentByCard, upsertStudents } from '../db'
+
+describe('Student lookups', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+    await db.students.bulkAdd([
+      { index_number: 'STU-1', full_name: 'Alice Johnson', card_uid: 'E0A1B2C3' },
+      // Imported before UID profiles: stored as the ID office's decimal
+      { index_number: 'STU-2', full_name: 'Bob Williams', card_uid: '0305419896' },
+    ])
+  })
+
+  it('finds cards through alternative encodings', async () => {
+    expect((await findStudentByCard('E0A1B2C3'))?.index_number).toBe('STU-1')
+    expect((await findStudentByCard('c3:b2:a1:e0', 'hex-lsb'))?.index_number).toBe('STU-1')
+    expect((await findStudentByCard('3768693443', 'decimal'))?.index_number).toBe('STU-1')
+    expect((await findStudentByCard('12345678'))?.index_number).toBe('STU-2')
+    expect((await findStudentByCard('161:45763', 'wiegand26'))?.index_number).toBe('STU-1')
+    expect(await findStudentByCard('DEADBEEF')).toBeUndefined()
+  })
+
+  it('upserts students by index number', async () => {
+    const result = await upsertStudents([
+      { index_number: 'STU-1', full_name: 'Alice Johnson', card_uid: '04A1B2C3' },
+      { index_number: 'STU-3', full_name: 'Charlie Brown', card_uid: null },
+    ])
+    expect(result).toEqual({ added: 1, updated: 1 })
+    expect((await findStudentByCard('04A1B2C3'))?.index_number).toBe('STU-1')
+    expect(await db.students.count()).toBe(3)
+  })
+})
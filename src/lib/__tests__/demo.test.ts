@@ -0,0 +1,48 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { db } from '../db'
+import { saveItem } from '../catalog'
+import { seedInitialData } from '../demo'
+import { reservationManager, fineManager } from '../analytics'
+import { borrow } from '../circulation'
+
+describe('Demo data', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('seeds an empty database', async () => {
+    await seedInitialData()
+    expect(await db.students.count()).toBe(3)
+    expect(await db.items.count()).toBe(3)
+    expect(await db.loans.count()).toBe(3)
+  })
+
+  it('leaves a database in use alone on the next startup', async () => {
+    await seedInitialData()
+    await saveItem({ tag: 'BOOK-NEW', title: 'Added at the desk' })
+    await seedInitialData()
+    expect(await db.items.get('BOOK-NEW')).toBeDefined()
+    expect(await db.students.count()).toBe(3)
+    expect(await db.loans.count()).toBe(3)
+  })
+
+  it('keeps reservations across restarts', async () => {
+    await seedInitialData()
+    const bob = await db.students.where('index_number').equals('STU-002').first()
+    const { reservation } = await reservationManager.createReservation(bob!.id!, 'BOOK-CS101')
+    await seedInitialData()
+    expect((await db.reservations.get(reservation!.id))?.studentId).toBe(bob!.id)
+  })
+
+  it('keeps fines and payments across restarts, so the fine limit still applies', async () => {
+    await seedInitialData()
+    const bob = await db.students.where('index_number').equals('STU-002').first()
+    const { fine } = await fineManager.createManualFine(bob!.id!, 'loan-x', 'BOOK-ENG202', 'DAMAGE', 30, 'Torn cover')
+    await fineManager.payFine(fine!.id, 5, 'desk')
+    await seedInitialData()
+    expect(await fineManager.unpaidTotal(bob!.id!)).toBe(25)
+    await expect(borrow({ student_index: 'STU-002', item_tag: 'BOOK-CS205', device_id: 'desk' })).rejects.toThrow(/unpaid fines/)
+  })
+})
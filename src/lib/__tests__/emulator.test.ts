@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { VirtualDevice, EmulatorTransport } from '../emulator'
+import { ReaderConnection } from '../reader'
+import { DeviceEvent, parseDeviceLine } from '../protocol'
+
+function device() {
+  const out: string[] = []
+  return { dev: new VirtualDevice(line => out.push(line), 0), out }
+}
+
+describe('Virtual device', () => {
+  it('answers STATUS in the firmware format', () => {
+    const { dev, out } = device()
+    dev.receive('STATUS')
+    expect(out).toEqual(['STATUS|SMS:ON|Students:0|ActiveBorrows:0|QueuePending:0|Auto:OFF|IntervalMin:0'])
+    expect(parseDeviceLine(out[0]).ok).toBe(true)
+  })
+
+  it('keeps student and borrow counters', () => {
+    const { dev, out } = device()
+    dev.receive('BORROW CARD-ALICE | BOOK-1 | 2024-01-15 | 2024-01-01')
+    dev.receive('SET STUDENT CARD-ALICE | Alice Johnson | 555-0101')
+    dev.receive('BORROW CARD-ALICE | BOOK-1 | 2024-01-15 | 2024-01-01')
+    dev.receive('RETURN CARD-ALICE | BOOK-2')
+    dev.receive('STATUS')
+    expect(out).toEqual([
+      'ERR Unknown student',
+      'OK',
+      'OK',
+      'ERR No such borrow',
+      'STATUS|SMS:ON|Students:1|ActiveBorrows:1|QueuePending:1|Auto:OFF|IntervalMin:0',
+    ])
+  })
+
+  it('honors SMS and AUTO settings', () => {
+    const { dev, out } = device()
+    dev.receive('SMS OFF')
+    dev.receive('REMIND ALL')
+    dev.receive('AUTO ON 180')
+    expect(out).toEqual(['OK', 'ERR SMS disabled', 'OK'])
+    expect(dev.statusLine()).toContain('Auto:ON|IntervalMin:180')
+  })
+
+  it('arms on SCAN and completes on the next card tap', () => {
+    const { dev, out } = device()
+    dev.receive('SCAN')
+    dev.tapCard('e0a1b2c3')
+    dev.tapCard('e0a1b2c3')
+    expect(out).toEqual(['SCAN_ARMED', 'CARD_SCANNED:E0A1B2C3', 'SCAN_DONE', 'CARD_SCANNED:E0A1B2C3'])
+  })
+
+  it('dumps and clears its offline queue', () => {
+    const { dev, out } = device()
+    dev.receive('SET STUDENT CARD-ALICE | Alice Johnson | 555-0101')
+    dev.receive('BORROW CARD-ALICE | BOOK-1 | 2024-01-15 | 2024-01-01')
+    dev.recordOffline('RETURN', 'CARD-ALICE', 'BOOK-1', undefined, '2024-01-03T08:00:00.000Z')
+    out.length = 0
+
+    dev.receive('QUEUE')
+    expect(out).toHaveLength(3)
+    expect(out[0]).toMatch(/^QUEUED\|Seq:1\|Op:BORROW\|UID:CARD-ALICE\|Tag:BOOK-1\|Due:2024-01-15\|At:/)
+    expect(out[1]).toBe('QUEUED|Seq:2|Op:RETURN|UID:CARD-ALICE|Tag:BOOK-1|At:2024-01-03T08:00:00.000Z')
+    expect(out[2]).toBe('QUEUE_END|Count:2')
+    expect(parseDeviceLine(out[0]).ok).toBe(true)
+
+    dev.receive('QUEUE CLEAR 1')
+    expect(dev.queue.map(r => r.seq)).toEqual([2])
+    expect(dev.queuePending).toBe(1)
+  })
+
+  it('moves a borrow\'s due date on RENEW and queues the renewal', () => {
+    const { dev, out } = device()
+    dev.receive('SET STUDENT CARD-ALICE | Alice Johnson | 555-0101')
+    dev.receive('BORROW CARD-ALICE | BOOK-1 | 2024-01-15 | 2024-01-01')
+    dev.receive('RENEW CARD-ALICE | BOOK-1 | 2024-01-29')
+    dev.receive('RENEW CARD-ALICE | BOOK-9 | 2024-01-29')
+    expect(out).toEqual(['OK', 'OK', 'OK', 'ERR No such borrow'])
+    expect(dev.borrows[0].dueDate).toBe('2024-01-29')
+    expect(dev.queue[1]).toMatchObject({ op: 'RENEW', tag: 'BOOK-1', due: '2024-01-29' })
+  })
+
+  it('writes and reads back a label on the pad', () => {
+    const { dev, out } = device()
+    dev.receive('WRITE ARM')
+    dev.placeLabel()
+    dev.receive('WRITE TAG BOOK-42 | MAIN')
+    dev.receive('READ TAG')
+    dev.receive('WRITE ARM')
+    dev.receive('WRITE TAG BOOK-42 | MAIN')
+    dev.receive('READ TAG')
+    expect(out).toEqual(['ERR No label', 'ERR Not armed', 'ERR Blank label', 'OK', 'OK', 'TAG_DATA|Tag:BOOK-42|Owner:MAIN'])
+  })
+
+  it('answers only the commands of its firmware revision', () => {
+    const { dev, out } = device()
+    dev.firmware = '1.4.2'
+    dev.receive('HELLO')
+    dev.receive('QUEUE')
+    dev.receive('STATUS')
+    expect(out.slice(0, 2)).toEqual(['ERR Unknown command', 'ERR Unknown command'])
+    expect(out[2]).toMatch(/^STATUS\|/)
+  })
+
+  it('drives a ReaderConnection end to end', async () => {
+    const transport = new EmulatorTransport(0)
+    const events: DeviceEvent[] = []
+    const conn = new ReaderConnection(transport, { onEvent: e => events.push(e) })
+    await conn.connect()
+
+    await expect(conn.send('STATUS')).resolves.toMatchObject({ ok: true })
+    await expect(conn.send('RETURN CARD-BOB | BOOK-9')).resolves.toMatchObject({
+      ok: false,
+      error: 'No such borrow',
+    })
+    transport.device.tapItem('BOOK-42')
+    expect(events).toContainEqual({ event: 'item', tag: 'BOOK-42' })
+  })
+})
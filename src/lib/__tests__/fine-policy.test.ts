@@ -0,0 +1,116 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { db, FinePolicy, FineRule, Loan } from '../db'
+import {
+  DEFAULT_FINE_POLICY, getFinePolicy, finePolicyHistory, saveFinePolicy, ruleFor, overdueCharge, replacementCharge
+} from '../fine-policy'
+import { FineManager } from '../analytics'
+import { DEFAULT_CALENDAR } from '../calendar'
+import { ValidationError } from '../error-handling'
+
+function rule(patch: Partial<FineRule> = {}): FineRule {
+  return { itemType: null, patronLevel: null, accrual: 'DAILY', rate: 1, graceUnits: 0, cap: null, replacementCost: null, ...patch }
+}
+
+function policy(rules: FineRule[], patch: Partial<FinePolicy> = {}): FinePolicy {
+  return { ...DEFAULT_FINE_POLICY, rules, ...patch }
+}
+
+const loan: Loan = {
+  id: 'loan-1',
+  student_index: 'STU-1',
+  user_uid: null,
+  item_tag: 'REF-1',
+  item_title: 'Atlas',
+  borrowed_at: '2024-05-01T10:00:00.000Z',
+  due_at: '2024-05-03T10:00:00.000Z', // a Friday
+  returned_at: null,
+  status: 'ACTIVE',
+  device_id: 'web-kiosk',
+}
+
+describe('Fine policy', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+  })
+
+  it('picks the most specific rule, item type before patron level', () => {
+    const any = rule()
+    const level = rule({ patronLevel: '100' })
+    const reference = rule({ itemType: 'REFERENCE' })
+    const both = rule({ itemType: 'REFERENCE', patronLevel: '100' })
+    const p = policy([any, level, reference, both])
+    expect(ruleFor(p, 'REFERENCE', '100')).toBe(both)
+    expect(ruleFor(p, 'reference', '200')).toBe(reference)
+    expect(ruleFor(p, 'BOOK', '100')).toBe(level)
+    expect(ruleFor(p, null, null)).toBe(any)
+    expect(ruleFor(policy([reference]), 'BOOK', null)).toBeNull()
+  })
+
+  it('charges per day or hour after the grace period, up to the cap', () => {
+    const p = policy([])
+    const at = new Date('2024-05-06T12:00:00.000Z') // 3 days 2 hours late
+    expect(overdueCharge(p, rule({ rate: 0.5 }), loan.due_at, at)).toEqual({ units: 3, amount: 1.5 })
+    expect(overdueCharge(p, rule({ graceUnits: 1 }), loan.due_at, at)).toEqual({ units: 2, amount: 2 })
+    expect(overdueCharge(p, rule({ accrual: 'HOURLY', rate: 0.25, cap: 10 }), loan.due_at, at)).toEqual({ units: 74, amount: 10 })
+    expect(overdueCharge(p, rule(), loan.due_at, new Date('2024-05-03T09:00:00.000Z')).units).toBe(0)
+  })
+
+  it('never charges for days the library calendar has closed', () => {
+    const at = new Date('2024-05-06T12:00:00.000Z') // days starting Fri, Sat, Sun
+    const closedSunday = { ...DEFAULT_CALENDAR, hours: DEFAULT_CALENDAR.hours.map((h, day) => (day === 0 ? null : h)) }
+    expect(overdueCharge(DEFAULT_FINE_POLICY, rule(), loan.due_at, at, closedSunday).units).toBe(2)
+    expect(overdueCharge(DEFAULT_FINE_POLICY, rule(), loan.due_at, at, DEFAULT_CALENDAR).units).toBe(3)
+    // Versions saved with their own closed weekdays keep skipping them
+    expect(overdueCharge(policy([], { closedWeekdays: [0, 6] }), rule(), loan.due_at, at, DEFAULT_CALENDAR).units).toBe(1)
+  })
+
+  it('saves edits as new versions and validates them', async () => {
+    expect(await getFinePolicy()).toBe(DEFAULT_FINE_POLICY)
+    await expect(saveFinePolicy({ currency: 'GHS', rules: [] }, 'ama'))
+      .rejects.toBeInstanceOf(ValidationError)
+    await expect(saveFinePolicy({ currency: 'GHS', rules: [rule(), rule()] }, 'ama'))
+      .rejects.toThrow(/one rule per item type/)
+
+    const v2 = await saveFinePolicy({ currency: 'ghs', rules: [rule({ cap: 5 })] }, 'ama')
+    expect(v2).toMatchObject({ version: 2, currency: 'GHS', created_by: 'ama' })
+    expect(v2.rules[0]).toMatchObject({ itemType: null, replacementCost: null, cap: 5 })
+    const v3 = await saveFinePolicy({ ...v2, rules: [rule({ rate: 2 })] }, 'kofi')
+    expect(v3.version).toBe(3)
+    expect((await getFinePolicy(2)).rules[0].rate).toBe(1)
+    expect((await finePolicyHistory()).map(p => p.version)).toEqual([3, 2, 1])
+  })
+
+  it('stamps fines with their policy version and keeps accruing under it', async () => {
+    await db.students.add({ index_number: 'STU-1', full_name: 'Alice Johnson', level: '100' })
+    await db.items.add({
+      tag: 'REF-1', title: 'Atlas', author: null, isbn: null, call_number: null, item_type: 'REFERENCE',
+      copy_number: null, location: null, status: 'ON_LOAN', created_at: loan.borrowed_at, updated_at: loan.borrowed_at,
+    })
+    await db.loans.add(loan)
+    await saveFinePolicy({
+      currency: 'GHS',
+      rules: [rule({ rate: 0.5 }), rule({ itemType: 'REFERENCE', accrual: 'HOURLY', rate: 0.2, graceUnits: 2, cap: 6, replacementCost: 80 })],
+    }, 'ama')
+
+    const manager = new FineManager()
+    const [fine] = await manager.calculateOverdueFines(new Date('2024-05-03T15:30:00.000Z'))
+    expect(fine).toMatchObject({ amount: 0.6, currency: 'GHS', policyVersion: 2, description: 'Overdue fine for Atlas (3 hours)' })
+
+    await saveFinePolicy({ currency: 'GHS', rules: [rule({ rate: 5 })] }, 'kofi')
+    const [grown] = await manager.calculateOverdueFines(new Date('2024-05-04T10:00:00.000Z'))
+    expect(grown).toMatchObject({ id: fine.id, amount: 4.4, policyVersion: 2 })
+    expect(await replacementCharge(loan)).toBeNull()
+  })
+
+  it('suggests the replacement cost for lost items', async () => {
+    await db.items.add({
+      tag: 'REF-1', title: 'Atlas', author: null, isbn: null, call_number: null, item_type: 'REFERENCE',
+      copy_number: null, location: null, status: 'ON_LOAN', created_at: loan.borrowed_at, updated_at: loan.borrowed_at,
+    })
+    const saved = await saveFinePolicy({
+      currency: 'GHS', rules: [rule(), rule({ itemType: 'REFERENCE', replacementCost: 80 })],
+    }, 'ama')
+    expect(await replacementCharge(loan)).toEqual({ amount: 80, currency: 'GHS', policyVersion: saved.version })
+  })
+})
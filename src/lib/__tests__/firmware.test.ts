@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { EmulatorTransport } from '../emulator'
+import { ReaderConnection } from '../reader'
+import {
+  compareVersions, supportsCommand, capabilitiesFor, handshake, firmwareWarning,
+  loadDeviceProfiles, saveDeviceProfile, forgetDeviceProfile, LEGACY_COMMANDS
+} from '../firmware'
+
+async function connect(firmware: string) {
+  const transport = new EmulatorTransport(0)
+  transport.device.firmware = firmware
+  const conn = new ReaderConnection(transport, { onEvent: () => {} })
+  await conn.connect()
+  return conn
+}
+
+describe('Firmware handshake', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('compares dotted versions', () => {
+    expect(compareVersions('2.1.0', '2.0.0')).toBe(1)
+    expect(compareVersions('2.0', '2.0.0')).toBe(0)
+    expect(compareVersions('1.9.9', '2.0.0')).toBe(-1)
+    expect(compareVersions('2.10.0', '2.9.1')).toBe(1)
+  })
+
+  it('derives capabilities from the reported commands', () => {
+    expect(supportsCommand(['SMS', 'REMIND'], 'REMIND ONE AA11 | BOOK-1')).toBe(true)
+    expect(supportsCommand(['SMS'], 'SMSX')).toBe(false)
+    expect(supportsCommand([], 'STATUS')).toBe(true)
+    expect(capabilitiesFor(LEGACY_COMMANDS)).toEqual({ sms: true, auto: true, queue: false, clock: false, tagWriting: false })
+  })
+
+  it('identifies current firmware from its HELLO reply', async () => {
+    const conn = await connect('2.1.0')
+    const profile = await handshake(cmd => conn.send(cmd), 'desk-reader')
+    expect(profile).toMatchObject({ readerId: 'desk-reader', firmware: '2.1.0', legacy: false })
+    expect(profile.capabilities).toEqual({ sms: true, auto: true, queue: true, clock: true, tagWriting: true })
+    expect(firmwareWarning(profile, 'Desk')).toBeNull()
+  })
+
+  it('falls back to the 1.x command set and warns when there is no HELLO', async () => {
+    const old = await connect('1.4.2')
+    const profile = await handshake(cmd => old.send(cmd), 'gate')
+    expect(profile).toMatchObject({ legacy: true, firmware: '1.x' })
+    expect(profile.capabilities.queue).toBe(false)
+    expect(firmwareWarning(profile, 'Gate')).toBe(
+      'Gate runs firmware 1.x; 2.0.0 or newer is required. Unavailable until it is updated: Offline queue, Clock sync, Tag writing.'
+    )
+
+    const mid = await handshake(async cmd => (await connect('2.0.0')).send(cmd), 'back-office')
+    expect(mid.capabilities).toMatchObject({ queue: true, tagWriting: false })
+    expect(firmwareWarning(mid, 'Back office')).toBeNull()
+  })
+
+  it('remembers profiles per reader', async () => {
+    const conn = await connect('2.1.0')
+    const profile = await handshake(cmd => conn.send(cmd), 'desk-reader')
+    saveDeviceProfile(profile)
+    expect(loadDeviceProfiles()['desk-reader'].firmware).toBe('2.1.0')
+    forgetDeviceProfile('desk-reader')
+    expect(loadDeviceProfiles()).toEqual({})
+  })
+})
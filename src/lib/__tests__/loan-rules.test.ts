@@ -0,0 +1,93 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { db, LoanRule } from '../db'
+import {
+  DEFAULT_LOAN_RULE, matchLoanRule, evaluateBorrow, describePatrons, saveLoanRules, loadLoanRules, parseLoanPeriod, dueFor
+} from '../loan-rules'
+import { DEFAULT_CALENDAR } from '../calendar'
+import { ValidationError } from '../error-handling'
+
+function rule(patch: Partial<LoanRule>): LoanRule {
+  return { ...DEFAULT_LOAN_RULE, id: crypto.randomUUID(), ...patch }
+}
+
+const first = { program: 'Nursing', level: '100' }
+const books = (n: number) => Array.from({ length: n }, () => ({ item_type: 'BOOK' }))
+
+describe('Loan rules', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+  })
+
+  it('matches the most specific rule: item type, then level, then program', () => {
+    const everyone = rule({ maxLoans: 5 })
+    const nursing = rule({ program: 'nursing' })
+    const level100 = rule({ level: '100' })
+    const reference = rule({ itemType: 'REFERENCE' })
+    const rules = [everyone, nursing, level100, reference]
+    expect(matchLoanRule(rules, first, 'REFERENCE')).toBe(reference)
+    expect(matchLoanRule(rules, first, 'BOOK')).toBe(level100)
+    expect(matchLoanRule(rules, { program: 'Nursing', level: '200' }, null)).toBe(nursing)
+    expect(matchLoanRule(rules, {}, null)).toBe(everyone)
+    expect(matchLoanRule([], first, 'BOOK')).toBe(DEFAULT_LOAN_RULE)
+  })
+
+  it('describes patron groups the way staff say them', () => {
+    expect(describePatrons(rule({ level: '100' }))).toBe('Level 100 students')
+    expect(describePatrons(rule({ level: '100', program: 'Nursing' }))).toBe('Level 100 Nursing students')
+    expect(describePatrons(DEFAULT_LOAN_RULE)).toBe('Students')
+  })
+
+  it('explains refusals', () => {
+    const rules = [
+      rule({ level: '100', itemType: 'REFERENCE', maxLoans: 2, loanPeriod: 3 }),
+      rule({ level: '100', maxLoans: 4 }),
+      rule({ itemType: 'PERIODICAL', mayLeave: false }),
+    ]
+    const reference = { item_type: 'REFERENCE' }
+    const twoRefs = [reference, reference]
+
+    expect(evaluateBorrow(rules, first, reference, books(1))).toMatchObject({ refusal: null, period: { amount: 3, unit: 'DAYS' } })
+    expect(evaluateBorrow(rules, first, reference, twoRefs).refusal).toBe('Level 100 students may hold 2 reference items')
+    expect(evaluateBorrow(rules, first, reference, [], { amount: 7, unit: 'DAYS' }).refusal).toBe('Level 100 students may borrow reference items for up to 3 day(s)')
+    expect(evaluateBorrow(rules, first, { item_type: 'BOOK' }, books(4)).refusal).toBe('Level 100 students may hold 4 items')
+    expect(evaluateBorrow(rules, first, { item_type: 'PERIODICAL' }, []).refusal).toBe('Students may only use periodical items in the library')
+    expect(evaluateBorrow(rules, { level: '200' }, { item_type: 'BOOK' }, books(3)).refusal).toBe('Students may hold 3 items')
+  })
+
+  it('validates and replaces the stored rules', async () => {
+    await expect(saveLoanRules([{ ...rule({}), loanPeriod: 0 }])).rejects.toBeInstanceOf(ValidationError)
+    await expect(saveLoanRules([rule({ level: '100' }), rule({ level: '100 ' })])).rejects.toThrow(/one rule per/)
+
+    await saveLoanRules([{ program: '', level: '100', itemType: 'reference', maxLoans: 2, loanPeriod: 3, maxRenewals: 0, mayLeave: true }])
+    const [saved] = await loadLoanRules()
+    expect(saved).toMatchObject({ program: null, level: '100', itemType: 'REFERENCE', loanUnit: 'DAYS', dueByClose: false })
+    expect(saved.id).toBeTruthy()
+    await saveLoanRules([])
+    expect(await loadLoanRules()).toEqual([])
+    await expect(saveLoanRules([{ ...rule({}), loanPeriod: 25, loanUnit: 'HOURS' }])).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  it('times hour and minute loans to the minute, by closing time if asked', () => {
+    expect(parseLoanPeriod('7')).toEqual({ amount: 7, unit: 'DAYS' })
+    expect(parseLoanPeriod('3h')).toEqual({ amount: 3, unit: 'HOURS' })
+    expect(parseLoanPeriod(' 90 M ')).toEqual({ amount: 90, unit: 'MINUTES' })
+    expect(parseLoanPeriod('0')).toBeNull()
+    expect(parseLoanPeriod('two hours')).toBeNull()
+
+    const laptops = rule({ itemType: 'EQUIPMENT', loanPeriod: 4, loanUnit: 'HOURS', dueByClose: true })
+    const decision = evaluateBorrow([laptops], first, { item_type: 'EQUIPMENT' }, [])
+    expect(decision.period).toEqual({ amount: 4, unit: 'HOURS' })
+    expect(evaluateBorrow([laptops], first, { item_type: 'EQUIPMENT' }, [], { amount: 300, unit: 'MINUTES' }).refusal)
+      .toBe('Students may borrow equipment items for up to 4 hour(s)')
+    expect(evaluateBorrow([laptops], first, { item_type: 'EQUIPMENT' }, [], { amount: 90, unit: 'MINUTES' }).refusal).toBeNull()
+
+    // The default calendar closes at 20:00
+    const morning = new Date(2024, 4, 1, 10, 15).toISOString()
+    const evening = new Date(2024, 4, 1, 18, 0).toISOString()
+    expect(dueFor(morning, decision.period, true, DEFAULT_CALENDAR)).toBe(new Date(2024, 4, 1, 14, 15).toISOString())
+    expect(dueFor(evening, decision.period, true, DEFAULT_CALENDAR)).toBe(new Date(2024, 4, 1, 20, 0).toISOString())
+    expect(dueFor(evening, decision.period, false, DEFAULT_CALENDAR)).toBe(new Date(2024, 4, 1, 22, 0).toISOString())
+    expect(dueFor(evening, { amount: 45, unit: 'MINUTES' }, true, DEFAULT_CALENDAR)).toBe(new Date(2024, 4, 1, 18, 45).toISOString())
+  })
+})
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest'
+import { parseDeviceLine, createLineBuffer, lineToEvents } from '../protocol'
+
+describe('Protocol', () => {
+  describe('parseDeviceLine (firmware dialect)', () => {
+    it('parses card scans', () => {
+      expect(parseDeviceLine('CARD_SCANNED: E0A1B2C3')).toEqual({
+        ok: true,
+        event: { event: 'card', uid: 'E0A1B2C3' },
+      })
+    })
+
+    it('parses item tag scans', () => {
+      expect(parseDeviceLine('ITEM_SCANNED:BOOK-42')).toEqual({
+        ok: true,
+        event: { event: 'item', tag: 'BOOK-42' },
+      })
+    })
+
+    it('parses scan state lines', () => {
+      expect(parseDeviceLine('SCAN_ARMED')).toEqual({ ok: true, event: { event: 'scan', state: 'armed' } })
+      expect(parseDeviceLine('SCAN_DONE')).toEqual({ ok: true, event: { event: 'scan', state: 'done' } })
+    })
+
+    it('parses status lines', () => {
+      const result = parseDeviceLine(
+        'STATUS|SMS:ON|Students:5|ActiveBorrows:3|QueuePending:1|Auto:OFF|IntervalMin:180'
+      )
+      expect(result).toEqual({
+        ok: true,
+        event: {
+          event: 'status',
+          data: { sms: 'ON', students: 5, activeBorrows: 3, queuePending: 1, auto: 'OFF', intervalMin: 180 },
+        },
+      })
+    })
+
+    it('parses OK / ERR acknowledgements', () => {
+      expect(parseDeviceLine('OK')).toEqual({ ok: true, event: { event: 'ack', ok: true, detail: '' } })
+      expect(parseDeviceLine('OK BORROW')).toEqual({
+        ok: true,
+        event: { event: 'ack', ok: true, detail: 'BORROW' },
+      })
+      expect(parseDeviceLine('ERR: Unknown card')).toEqual({
+        ok: true,
+        event: { event: 'ack', ok: false, detail: 'Unknown card' },
+      })
+      expect(parseDeviceLine('OKAY then')).toEqual({ ok: true, event: null })
+    })
+
+    it('reports malformed firmware lines', () => {
+      const noUid = parseDeviceLine('CARD_SCANNED:')
+      expect(noUid.ok).toBe(false)
+      if (!noUid.ok) expect(noUid.error.kind).toBe('missing_field')
+
+      const noTag = parseDeviceLine('ITEM_SCANNED:  ')
+      expect(noTag.ok).toBe(false)
+
+      const badCount = parseDeviceLine('STATUS|SMS:ON|Students:many')
+      expect(badCount.ok).toBe(false)
+      if (!badCount.ok) expect(badCount.error.kind).toBe('invalid_value')
+    })
+
+    it('parses queue dump lines', () => {
+      expect(parseDeviceLine('QUEUED|Seq:3|Op:BORROW|UID:AA11|Tag:BOOK-1|Due:2024-01-15|At:2024-01-01T10:00:00Z')).toEqual({
+        ok: true,
+        event: {
+          event: 'queued',
+          record: { seq: 3, op: 'BORROW', uid: 'AA11', tag: 'BOOK-1', due: '2024-01-15', at: '2024-01-01T10:00:00Z' },
+        },
+      })
+      expect(parseDeviceLine('QUEUE_END|Count:2')).toEqual({ ok: true, event: { event: 'queue_end', count: 2 } })
+      const renewal = parseDeviceLine('QUEUED|Seq:4|Op:RENEW|UID:AA11|Tag:BOOK-1|Due:2024-01-29|At:2024-01-14')
+      expect(renewal.ok && renewal.event).toMatchObject({ record: { op: 'RENEW', due: '2024-01-29' } })
+      const badOp = parseDeviceLine('QUEUED|Seq:1|Op:LEND|UID:AA11|Tag:BOOK-1|At:2024-01-01')
+      expect(badOp.ok).toBe(false)
+      if (!badOp.ok) expect(badOp.error.kind).toBe('invalid_value')
+    })
+
+    it('parses tag data read back from a label', () => {
+      expect(parseDeviceLine('TAG_DATA|Tag:BOOK-42|Owner:MAIN')).toEqual({
+        ok: true,
+        event: { event: 'tag_data', tag: 'BOOK-42', owner: 'MAIN' },
+      })
+      expect(parseDeviceLine('{"event":"tag_data","tag":"BOOK-42"}')).toEqual({
+        ok: true,
+        event: { event: 'tag_data', tag: 'BOOK-42', owner: null },
+      })
+      const noTag = parseDeviceLine('TAG_DATA|Owner:MAIN')
+      expect(noTag.ok).toBe(false)
+      if (!noTag.ok) expect(noTag.error.kind).toBe('missing_field')
+    })
+
+    it('parses the HELLO handshake reply', () => {
+      expect(parseDeviceLine('HELLO|Model:RFID-LIB-ESP32|Fw:2.0.0|Cmds:STATUS,scan,QUEUE')).toEqual({
+        ok: true,
+        event: { event: 'hello', info: { model: 'RFID-LIB-ESP32', firmware: '2.0.0', commands: ['STATUS', 'SCAN', 'QUEUE'] } },
+      })
+      expect(parseDeviceLine('{"event":"hello","firmware":"2.1.0","commands":["STATUS"]}')).toEqual({
+        ok: true,
+        event: { event: 'hello', info: { model: 'Unknown', firmware: '2.1.0', commands: ['STATUS'] } },
+      })
+      const noVersion = parseDeviceLine('HELLO|Model:X')
+      expect(noVersion.ok).toBe(false)
+    })
+
+    it('parses device clock readings', () => {
+      expect(parseDeviceLine('TIME|Epoch:1704103200|Tz:Africa/Accra')).toEqual({
+        ok: true,
+        event: { event: 'time', epoch: 1704103200, tz: 'Africa/Accra' },
+      })
+      const bad = parseDeviceLine('TIME|Epoch:soon')
+      expect(bad.ok).toBe(false)
+      if (!bad.ok) expect(bad.error.kind).toBe('invalid_value')
+    })
+
+    it('passes unknown chatter through without an event', () => {
+      expect(parseDeviceLine('Booting ESP32 v1.2')).toEqual({ ok: true, event: null })
+      expect(parseDeviceLine('   ')).toEqual({ ok: true, event: null })
+    })
+  })
+
+  describe('parseDeviceLine (JSON dialect)', () => {
+    it('parses card and item events', () => {
+      expect(parseDeviceLine('{"event":"card","uid":"ABC123"}')).toEqual({
+        ok: true,
+        event: { event: 'card', uid: 'ABC123' },
+      })
+      expect(parseDeviceLine('{"event":"item","tag":"BOOK-42"}')).toEqual({
+        ok: true,
+        event: { event: 'item', tag: 'BOOK-42' },
+      })
+    })
+
+    it('parses status with a data object', () => {
+      const result = parseDeviceLine('{"event":"status","data":{"sms":"OFF","students":2}}')
+      expect(result.ok).toBe(true)
+      if (result.ok && result.event?.event === 'status') {
+        expect(result.event.data.students).toBe(2)
+        expect(result.event.data.queuePending).toBe(0)
+      }
+    })
+
+    it('reports typed errors for bad JSON lines', () => {
+      const cases: Array<[string, string]> = [
+        ['{"event":"card"', 'malformed_json'],
+        ['{"uid":"ABC"}', 'missing_field'],
+        ['{"event":"item"}', 'missing_field'],
+        ['{"event":"teleport"}', 'unknown_event'],
+        ['{"event":"scan","state":"maybe"}', 'invalid_value'],
+        ['{"event":"queued","seq":1,"op":"RETURN","tag":"BOOK-1","at":"2024-01-01"}', 'missing_field'],
+      ]
+      cases.forEach(([line, kind]) => {
+        const result = parseDeviceLine(line)
+        expect(result.ok).toBe(false)
+        if (!result.ok) {
+          expect(result.error.kind).toBe(kind)
+          expect(result.error.line).toBe(line)
+        }
+      })
+    })
+  })
+
+  describe('createLineBuffer', () => {
+    it('joins chunks and splits on CRLF or LF', () => {
+      const buf = createLineBuffer()
+      expect(buf.push('CARD_SC')).toEqual([])
+      expect(buf.push('ANNED:AA\r\nSCAN_')).toEqual(['CARD_SCANNED:AA'])
+      expect(buf.push('DONE\n\n')).toEqual(['SCAN_DONE'])
+      expect(buf.push('tail')).toEqual([])
+      expect(buf.flush()).toEqual(['tail'])
+    })
+  })
+
+  describe('lineToEvents', () => {
+    it('emits the raw line before the parsed event', () => {
+      expect(lineToEvents('CARD_SCANNED:AA11')).toEqual([
+        { event: 'raw', line: 'CARD_SCANNED:AA11' },
+        { event: 'card', uid: 'AA11' },
+      ])
+    })
+
+    it('emits parse errors as events', () => {
+      const events = lineToEvents('{oops')
+      expect(events[1].event).toBe('parse_error')
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { ReaderConnection, ConnectionState } from '../reader'
+import { MockTransport } from '../transports'
+import { DeviceEvent } from '../protocol'
+
+function setup(transport = new MockTransport()) {
+  const events: DeviceEvent[] = []
+  const states: ConnectionState[] = []
+  const onConnected = vi.fn()
+  const conn = new ReaderConnection(transport, {
+    onEvent: evt => events.push(evt),
+    onStateChange: state => states.push(state),
+    onConnected,
+    baseDelayMs: 100,
+  })
+  return { conn, transport, events, states, onConnected }
+}
+
+describe('ReaderConnection', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('parses lines from the transport into device events', async () => {
+    const { conn, transport, events } = setup()
+    await conn.connect()
+    transport.emit('CARD_SCANNED:AA11')
+    transport.emit('{"event":"item","tag":"BOOK-42"}')
+    expect(events.filter(e => e.event !== 'raw')).toEqual([
+      { event: 'card', uid: 'AA11' },
+      { event: 'item', tag: 'BOOK-42' },
+    ])
+  })
+
+  it('resolves commands with the device reply', async () => {
+    const { conn, transport } = setup()
+    transport.onWrite = line => transport.emit(line.startsWith('BORROW') ? 'OK' : 'ERR busy')
+    await conn.connect()
+    await expect(conn.send('BORROW AA11 | BOOK-1 | 2024-01-15 | 2024-01-01')).resolves.toMatchObject({ ok: true })
+    await expect(conn.send('RETURN AA11 | BOOK-1')).resolves.toMatchObject({ ok: false, error: 'busy' })
+  })
+
+  it('reports not connected instead of queueing', async () => {
+    const { conn } = setup()
+    await expect(conn.send('STATUS')).resolves.toMatchObject({ ok: false, error: 'Not connected to device' })
+  })
+
+  it('reconnects with backoff after an unexpected close', async () => {
+    vi.useFakeTimers()
+    const { conn, transport, states, onConnected } = setup()
+    await conn.connect()
+    const open = vi.spyOn(transport, 'open').mockResolvedValueOnce(false)
+
+    await transport.close()
+    expect(conn.state).toBe('reconnecting')
+
+    await vi.advanceTimersByTimeAsync(100) // first retry fails
+    expect(open).toHaveBeenCalledTimes(1)
+    expect(conn.state).toBe('reconnecting')
+
+    await vi.advanceTimersByTimeAsync(200) // second retry, doubled delay
+    expect(conn.state).toBe('connected')
+    expect(onConnected).toHaveBeenLastCalledWith(true)
+    expect(states).toContain('reconnecting')
+  })
+
+  it('stays disconnected after a manual disconnect', async () => {
+    vi.useFakeTimers()
+    const { conn, transport } = setup()
+    await conn.connect()
+    await conn.disconnect()
+    expect(conn.state).toBe('disconnected')
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(transport.isOpen).toBe(false)
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  ReaderConfig,
+  createReaderConfig,
+  loadReaders,
+  saveReaders,
+  roleAccepts,
+  pickCommandReader,
+  producingReaderId,
+  MANUAL_DEVICE_ID,
+} from '../readers'
+
+const cardDesk: ReaderConfig = { id: 'card-desk', name: 'Card desk', role: 'card', transport: { kind: 'serial' } }
+const itemPad: ReaderConfig = { id: 'item-pad', name: 'Item pad', role: 'item', transport: { kind: 'websocket', url: 'ws://pad:8765' } }
+
+describe('Readers', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('derives unique ids from reader names', () => {
+    const first = createReaderConfig('  Front Desk ', 'card', { kind: 'serial' }, [])
+    expect(first).toMatchObject({ id: 'front-desk', name: 'Front Desk' })
+    const second = createReaderConfig('Front desk', 'item', { kind: 'mock' }, [first])
+    expect(second.id).toBe('front-desk-2')
+    expect(createReaderConfig('Keyboard wedge', 'both', { kind: 'mock' }, []).id).toBe('keyboard-wedge-2')
+  })
+
+  it('migrates the single-reader transport setting', () => {
+    localStorage.setItem('readerTransport', JSON.stringify({ kind: 'websocket', url: 'ws://kiosk:9000' }))
+    expect(loadReaders()).toEqual([
+      { id: 'desk-reader', name: 'Desk reader', role: 'both', transport: { kind: 'websocket', url: 'ws://kiosk:9000' } },
+    ])
+
+    saveReaders([cardDesk, itemPad])
+    expect(localStorage.getItem('readerTransport')).toBeNull()
+    expect(loadReaders()).toEqual([cardDesk, itemPad])
+  })
+
+  it('drops scans a reader role does not handle', () => {
+    expect(roleAccepts('card', { event: 'card', uid: 'AA11' })).toBe(true)
+    expect(roleAccepts('card', { event: 'item', tag: 'BOOK-1' })).toBe(false)
+    expect(roleAccepts('item', { event: 'card', uid: 'AA11' })).toBe(false)
+    expect(roleAccepts('item', { event: 'raw', line: 'hello' })).toBe(true)
+    expect(roleAccepts('both', { event: 'item', tag: 'BOOK-1' })).toBe(true)
+  })
+
+  it('sends commands to a connected card reader first', () => {
+    const readers = [itemPad, cardDesk]
+    expect(pickCommandReader(readers, () => true)).toBe(cardDesk)
+    expect(pickCommandReader(readers, id => id === 'item-pad')).toBe(itemPad)
+    expect(pickCommandReader(readers, () => false)).toBeNull()
+  })
+
+  it('credits records to the reader that scanned them', () => {
+    const sources = {
+      card: { uid: 'AA11', reader: 'card-desk' },
+      item: { tag: 'BOOK-1', reader: 'item-pad' },
+    }
+    expect(producingReaderId(sources, 'BOOK-1', 'AA11')).toBe('item-pad')
+    expect(producingReaderId(sources, 'BOOK-9', 'AA11')).toBe('card-desk')
+    expect(producingReaderId(sources, 'BOOK-9', null)).toBe(MANUAL_DEVICE_ID)
+    expect(producingReaderId({}, 'BOOK-1', 'AA11')).toBe(MANUAL_DEVICE_ID)
+  })
+})
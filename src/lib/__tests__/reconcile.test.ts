@@ -0,0 +1,163 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { db, Loan } from '../db'
+import { DeviceQueueRecord } from '../protocol'
+import { reconcileDeviceQueue, openDeviceConflicts, resolveDeviceConflict } from '../reconcile'
+import { saveItem } from '../catalog'
+import { saveLoanRules } from '../loan-rules'
+
+const alice = { index_number: 'STU-1', full_name: 'Alice Johnson', card_uid: 'CARD-ALICE' }
+
+function borrow(seq: number, tag: string, at: string, uid = 'CARD-ALICE'): DeviceQueueRecord {
+  return { seq, op: 'BORROW', uid, tag, due: '2024-01-15', at }
+}
+
+function activeLoan(tag: string, overrides: Partial<Loan> = {}): Loan {
+  return {
+    id: `loan-${tag}`,
+    student_index: 'STU-1',
+    user_uid: 'CARD-ALICE',
+    item_tag: tag,
+    item_title: null,
+    borrowed_at: '2024-01-01T09:00:00.000Z',
+    due_at: '2024-01-15T09:00:00.000Z',
+    returned_at: null,
+    status: 'ACTIVE',
+    device_id: 'web-kiosk',
+    ...overrides,
+  }
+}
+
+describe('Device queue reconciliation', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+    await db.students.add(alice)
+  })
+
+  it('imports borrows and returns the kiosk missed', async () => {
+    const summary = await reconcileDeviceQueue(
+      [
+        { seq: 2, op: 'RETURN', uid: 'card-alice', tag: 'BOOK-1', at: '2024-01-03T10:00:00.000Z' },
+        borrow(1, 'BOOK-1', '2024-01-01T10:00:00.000Z'),
+      ],
+      'desk-reader'
+    )
+    expect(summary).toMatchObject({ imported: 2, matched: 0, conflicts: 0, lastSeq: 2 })
+
+    const [loan] = await db.loans.toArray()
+    expect(loan).toMatchObject({ student_index: 'STU-1', status: 'RETURNED', device_id: 'desk-reader', renewals: 0 })
+    expect(loan.returned_at).toBe('2024-01-03T10:00:00.000Z')
+    const txs = await db.transactions.orderBy('occurred_at').toArray()
+    expect(txs.map(t => t.action)).toEqual(['BORROW', 'RETURN'])
+    // BOOK-1 wasn't catalogued; the imported borrow added it
+    expect(await db.items.get('BOOK-1')).toMatchObject({ title: 'BOOK-1', status: 'AVAILABLE' })
+  })
+
+  it('catalogues an unknown tag lent at the pad as on loan', async () => {
+    await reconcileDeviceQueue([borrow(1, 'BOOK-9', '2024-01-01T10:00:00.000Z')], 'desk-reader')
+    expect(await db.items.get('BOOK-9')).toMatchObject({ item_type: 'BOOK', status: 'ON_LOAN', created_at: '2024-01-01T10:00:00.000Z' })
+  })
+
+  it('recognises records the kiosk already has', async () => {
+    // Borrowed by index number at the kiosk, so the loan has no card UID
+    await db.loans.add(activeLoan('BOOK-1', { user_uid: null }))
+    const summary = await reconcileDeviceQueue([borrow(1, 'BOOK-1', '2024-01-01T09:00:05.000Z')], 'desk-reader')
+    expect(summary).toMatchObject({ imported: 0, matched: 1, conflicts: 0 })
+    expect(await db.loans.count()).toBe(1)
+    expect(await db.transactions.count()).toBe(0)
+  })
+
+  it('flags records it cannot apply, once per record', async () => {
+    await db.loans.add(activeLoan('BOOK-2', { student_index: 'STU-9', user_uid: 'CARD-BOB' }))
+    const records: DeviceQueueRecord[] = [
+      borrow(1, 'BOOK-1', '2024-01-02T10:00:00.000Z', 'CARD-NOBODY'),
+      borrow(2, 'BOOK-2', '2024-01-02T10:05:00.000Z'),
+      { seq: 3, op: 'RETURN', uid: 'CARD-ALICE', tag: 'BOOK-3', at: '2024-01-02T10:10:00.000Z' },
+    ]
+
+    const summary = await reconcileDeviceQueue(records, 'desk-reader')
+    expect(summary).toMatchObject({ imported: 0, conflicts: 3, lastSeq: 3 })
+    expect(summary.results.map(r => r.reason)).toEqual([
+      'Unknown card CARD-NOBODY',
+      'Item is already on loan to STU-9',
+      'No active loan for this item',
+    ])
+
+    // The queue wasn't cleared: pulling it again must not duplicate review entries
+    await reconcileDeviceQueue(records, 'desk-reader')
+    const open = await openDeviceConflicts()
+    expect(open).toHaveLength(3)
+
+    await resolveDeviceConflict(open[0].id)
+    expect(await openDeviceConflicts()).toHaveLength(2)
+  })
+
+  it('applies the circulation rules to borrows made at the pad', async () => {
+    await saveItem({ tag: 'LAP-1', title: 'Laptop 1', item_type: 'EQUIPMENT' })
+    await saveItem({ tag: 'LAP-2', title: 'Laptop 2', item_type: 'EQUIPMENT' })
+    await saveLoanRules([
+      { program: null, level: null, itemType: 'EQUIPMENT', maxLoans: 1, loanPeriod: 3, loanUnit: 'HOURS', maxRenewals: 0, mayLeave: true },
+    ])
+    const summary = await reconcileDeviceQueue(
+      [
+        { seq: 1, op: 'BORROW', uid: 'CARD-ALICE', tag: 'LAP-1', at: '2024-01-02T10:00:00.000Z' },
+        { seq: 2, op: 'BORROW', uid: 'CARD-ALICE', tag: 'LAP-2', at: '2024-01-02T10:05:00.000Z' },
+      ],
+      'desk-reader'
+    )
+    expect(summary.results.map(r => r.outcome)).toEqual(['imported', 'conflict'])
+    expect(summary.results[1].reason).toBe('Students may hold 1 equipment item')
+    // No due date from the pad: the rule's three hours
+    const [loan] = await db.loans.toArray()
+    expect(loan.due_at).toBe('2024-01-02T13:00:00.000Z')
+  })
+
+  it('imports renewals made at the pad within the renewal limit', async () => {
+    await db.loans.add(activeLoan('BOOK-1'))
+    await db.loans.add(activeLoan('BOOK-2', { renewals: 2 }))
+    const renewal = (seq: number, tag: string, due: string): DeviceQueueRecord => ({
+      seq, op: 'RENEW', uid: 'CARD-ALICE', tag, due, at: '2024-01-14T10:00:00.000Z',
+    })
+
+    const summary = await reconcileDeviceQueue(
+      [renewal(1, 'BOOK-1', '2024-01-29'), renewal(2, 'BOOK-1', '2024-01-29'), renewal(3, 'BOOK-2', '2024-01-29')],
+      'desk-reader'
+    )
+    expect(summary.results.map(r => r.outcome)).toEqual(['imported', 'matched', 'conflict'])
+    expect(summary.results[2].reason).toMatch(/maximum/)
+    const loan = await db.loans.get('loan-BOOK-1')
+    expect(loan?.renewals).toBe(1)
+    expect(loan?.due_at.slice(0, 10)).toBe('2024-01-29')
+    const tx = await db.transactions.where('action').equals('RENEW').first()
+    expect(tx).toMatchObject({ due_before: '2024-01-15T09:00:00.000Z', device_id: 'desk-reader' })
+  })
+
+  it('matches a kiosk renewal echoed by the device in local dates, once', async () => {
+    const tz = process.env.TZ
+    process.env.TZ = 'Pacific/Auckland'
+    try {
+      // Renewed at the kiosk to 09:00 on 29 January in Auckland, still the 28th in UTC
+      await db.loans.add(activeLoan('BOOK-1', { due_at: new Date(2024, 0, 29, 9).toISOString(), renewals: 1 }))
+      const line: DeviceQueueRecord = { seq: 1, op: 'RENEW', uid: 'CARD-ALICE', tag: 'BOOK-1', due: '2024-01-29', at: '2024-01-14T10:00:00.000Z' }
+      expect((await reconcileDeviceQueue([line], 'desk-reader')).results[0].outcome).toBe('matched')
+      expect((await reconcileDeviceQueue([line], 'desk-reader')).results[0].outcome).toBe('matched')
+      expect(await db.loans.get('loan-BOOK-1')).toMatchObject({ renewals: 1, due_at: '2024-01-28T20:00:00.000Z' })
+      expect(await db.transactions.where('action').equals('RENEW').count()).toBe(0)
+    } finally {
+      process.env.TZ = tz
+    }
+  })
+
+  it('recognises the device return sent when a loan is closed as lost', async () => {
+    await db.loans.add(activeLoan('BOOK-1', { status: 'LOST' }))
+    await db.transactions.add({
+      id: 'tx-lost', user_uid: 'CARD-ALICE', student_index: 'STU-1', item_tag: 'BOOK-1',
+      action: 'LOST', occurred_at: '2024-01-20T09:00:00.000Z', device_id: 'web-kiosk',
+    })
+    const summary = await reconcileDeviceQueue(
+      [{ seq: 1, op: 'RETURN', uid: 'CARD-ALICE', tag: 'BOOK-1', at: '2024-01-20T09:00:05.000Z' }],
+      'desk-reader'
+    )
+    expect(summary).toMatchObject({ matched: 1, conflicts: 0 })
+  })
+})
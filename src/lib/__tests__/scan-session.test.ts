@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createScanSession, DeskPatron, ScanState } from '../scan-session'
+
+describe('Scan session', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('drops repeats of a card resting on the pad', () => {
+    const session = createScanSession({ debounceMs: 1000 })
+    const card = { event: 'card' as const, uid: 'E0A1B2C3' }
+
+    expect(session.accept(card, 'desk')).toEqual(card)
+    vi.advanceTimersByTime(600)
+    expect(session.accept(card, 'desk')).toBeNull()
+    // The window slides while the card keeps repeating
+    vi.advanceTimersByTime(600)
+    expect(session.accept(card, 'desk')).toBeNull()
+    // Another reader, or the card lifted and tapped again later, gets through
+    expect(session.accept(card, 'gate')).toEqual(card)
+    vi.advanceTimersByTime(1000)
+    expect(session.accept(card, 'desk')).toEqual(card)
+  })
+
+  it('tracks SCAN_ARMED / SCAN_DONE and lets an armed scan through', () => {
+    const states: ScanState[] = []
+    const session = createScanSession({ onStateChange: s => states.push(s) })
+    const card = { event: 'card' as const, uid: 'E0A1B2C3' }
+
+    session.accept({ event: 'scan', state: 'done' }, 'desk')
+    expect(session.state).toBe('idle')
+    session.accept(card, 'desk')
+    session.accept({ event: 'scan', state: 'armed' }, 'desk')
+    expect(session.accept(card, 'desk')).toEqual(card)
+    session.accept({ event: 'scan', state: 'done' }, 'desk')
+    expect(states).toEqual(['armed', 'done'])
+  })
+
+  it('keeps the patron at the desk while items are scanned, then times out', () => {
+    const changes: Array<DeskPatron | null> = []
+    const session = createScanSession({ patronTimeoutMs: 60000, onPatronChange: p => changes.push(p) })
+
+    session.accept({ event: 'card', uid: 'E0A1B2C3' }, 'desk')
+    expect(session.patron).toMatchObject({ uid: 'E0A1B2C3', reader: 'desk' })
+
+    vi.advanceTimersByTime(50000)
+    session.accept({ event: 'item', tag: 'BOOK-1' }, 'desk')
+    vi.advanceTimersByTime(50000)
+    expect(session.patron?.uid).toBe('E0A1B2C3')
+
+    vi.advanceTimersByTime(10000)
+    expect(session.patron).toBeNull()
+    expect(changes[changes.length - 1]).toBeNull()
+
+    session.accept({ event: 'card', uid: 'AA11BB22' }, 'desk')
+    session.clearPatron()
+    expect(session.patron).toBeNull()
+  })
+})
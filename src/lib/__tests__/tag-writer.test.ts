@@ -0,0 +1,70 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { db, lookupItemTitle } from '../db'
+import { EmulatorTransport } from '../emulator'
+import { ReaderConnection } from '../reader'
+import { writeItemTag, suggestItemTag } from '../tag-writer'
+
+async function reader() {
+  const transport = new EmulatorTransport(0)
+  const conn = new ReaderConnection(transport, { onEvent: () => {} })
+  await conn.connect()
+  return { conn, device: transport.device, send: (cmd: string) => conn.send(cmd) }
+}
+
+describe('Tag writer', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(t => t.clear()))
+  })
+
+  it('writes, verifies and records a label', async () => {
+    const { device, send } = await reader()
+    device.placeLabel()
+    const steps: string[] = []
+
+    const result = await writeItemTag(
+      { item_tag: 'BOOK-0042', item_title: 'Things Fall Apart', owner_code: 'main' },
+      send,
+      'desk-reader',
+      r => steps.push(`${r.step}:${r.ok}`)
+    )
+    expect(result.ok).toBe(true)
+    expect(steps).toEqual(['check:true', 'arm:true', 'write:true', 'verify:true', 'record:true'])
+    expect(device.label).toEqual({ tag: 'BOOK-0042', owner: 'MAIN' })
+    expect(await db.taggedItems.get('BOOK-0042')).toMatchObject({ owner_code: 'MAIN', device_id: 'desk-reader' })
+    expect(await lookupItemTitle('BOOK-0042')).toBe('Things Fall Apart')
+  })
+
+  it('stops at the first failing step', async () => {
+    const { send } = await reader()
+    const invalid = await writeItemTag({ item_tag: 'BOOK 42' }, send, 'desk-reader')
+    expect(invalid.reports.map(r => [r.step, r.ok])).toEqual([['check', false]])
+
+    // Nothing on the pad
+    const result = await writeItemTag({ item_tag: 'BOOK-42' }, send, 'desk-reader')
+    expect(result.ok).toBe(false)
+    expect(result.reports[result.reports.length - 1]).toEqual({ step: 'arm', ok: false, detail: 'No label' })
+    expect(await db.taggedItems.count()).toBe(0)
+  })
+
+  it('fails verification when the label reads back differently', async () => {
+    // A label that keeps its old contents despite acknowledging the write
+    const send = async (command: string) =>
+      command === 'READ TAG'
+        ? { ok: true, command, tagData: { tag: 'BOOK-4', owner: null } }
+        : { ok: true, command }
+
+    const result = await writeItemTag({ item_tag: 'BOOK-42' }, send, 'desk-reader')
+    expect(result.reports[result.reports.length - 1]).toEqual({
+      step: 'verify',
+      ok: false,
+      detail: 'Label reads back as BOOK-4; write it again or use a new label',
+    })
+    expect(await db.taggedItems.count()).toBe(0)
+  })
+
+  it('suggests the next free tag number', () => {
+    expect(suggestItemTag([])).toBe('BOOK-0001')
+    expect(suggestItemTag(['BOOK-0007', 'book-12', 'DVD-99'])).toBe('BOOK-0013')
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { WebSocketTransport, createTransport, MockTransport } from '../transports'
+
+// Stand-in for the local bridge server: records what the page sends and lets the
+// test push lines back.
+class FakeSocket {
+  static OPEN = 1
+  static instances: FakeSocket[] = []
+  readyState = 0
+  sent: string[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((e: { data: unknown }) => void) | null = null
+  onclose: (() => void) | null = null
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this)
+  }
+
+  accept() {
+    this.readyState = FakeSocket.OPEN
+    this.onopen?.()
+  }
+
+  push(data: string) {
+    this.onmessage?.({ data })
+  }
+
+  send(data: string) {
+    this.sent.push(data)
+  }
+
+  close() {
+    this.readyState = 3
+    this.onclose?.()
+  }
+}
+
+describe('Transports', () => {
+  beforeEach(() => {
+    FakeSocket.instances = []
+    vi.stubGlobal('WebSocket', FakeSocket)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('WebSocketTransport', () => {
+    it('relays lines in both directions', async () => {
+      const transport = new WebSocketTransport('ws://localhost:8765')
+      const chunks: string[] = []
+      const onClose = vi.fn()
+      const opening = transport.open({ onData: c => chunks.push(c), onClose })
+      FakeSocket.instances[0].accept()
+      expect(await opening).toBe(true)
+
+      FakeSocket.instances[0].push('CARD_SCANNED:AA11')
+      expect(chunks).toEqual(['CARD_SCANNED:AA11\n'])
+
+      await transport.write('STATUS')
+      expect(FakeSocket.instances[0].sent).toEqual(['STATUS\n'])
+
+      FakeSocket.instances[0].close()
+      expect(onClose).toHaveBeenCalled()
+      await expect(transport.write('STATUS')).rejects.toThrow('Bridge is not connected')
+    })
+
+    it('resolves false when the bridge refuses the connection', async () => {
+      const transport = new WebSocketTransport('ws://localhost:1')
+      const onClose = vi.fn()
+      const opening = transport.open({ onData: () => {}, onClose })
+      FakeSocket.instances[0].close()
+      expect(await opening).toBe(false)
+      expect(onClose).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createTransport', () => {
+    it('builds the configured transport', () => {
+      expect(createTransport({ kind: 'mock' })).toBeInstanceOf(MockTransport)
+      const ws = createTransport({ kind: 'websocket', url: 'ws://bridge:9000' })
+      expect(ws.label).toBe('Bridge ws://bridge:9000')
+      expect(createTransport({ kind: 'serial' }).kind).toBe('serial')
+    })
+  })
+})
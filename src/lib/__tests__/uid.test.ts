@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { decodeUid, canonicalizeUid, uidLookupKeys, uidTailMatches } from '../uid'
+
+describe('UID profiles', () => {
+  it('canonicalizes every profile to MSB-first hex', () => {
+    expect(canonicalizeUid('e0:a1:b2:c3', 'hex-msb')).toBe('E0A1B2C3')
+    expect(canonicalizeUid('C3 B2 A1 E0', 'hex-lsb')).toBe('E0A1B2C3')
+    expect(canonicalizeUid('3768693443', 'decimal')).toBe('E0A1B2C3')
+    expect(canonicalizeUid('0000004660', 'decimal')).toBe('00001234')
+    expect(canonicalizeUid('178:45763', 'wiegand26')).toBe('B2B2C3')
+    expect(canonicalizeUid('17845763', 'wiegand26')).toBe('B2B2C3')
+  })
+
+  it('keeps values that do not decode as typed', () => {
+    expect(canonicalizeUid(' card-alice ', 'hex-msb')).toBe('CARD-ALICE')
+    expect(decodeUid('E0A1', 'decimal')).toBeNull()
+    expect(decodeUid('300:1', 'wiegand26')).toBeNull()
+  })
+
+  it('offers alternative encodings for lookups, own profile first', () => {
+    const keys = uidLookupKeys('3768693443', 'decimal')
+    expect(keys[0]).toBe('E0A1B2C3')
+    expect(keys).toContain('C3B2A1E0')
+    // Read as hex by a misconfigured reader
+    expect(keys).toContain('3768693443')
+
+    expect(uidLookupKeys('E0A1B2C3', 'hex-msb')).toEqual(
+      expect.arrayContaining(['E0A1B2C3', 'C3B2A1E0', '3768693443', '3283263968'])
+    )
+  })
+
+  it('matches Wiegand-26 numbers against the tail of full UIDs', () => {
+    const wiegand = decodeUid('161:45763', 'wiegand26')!
+    expect(uidTailMatches('E0A1B2C3', wiegand)).toBe(true)
+    expect(uidTailMatches('E0A1B2C4', wiegand)).toBe(false)
+    // LSB-first readers put the first UID bytes last
+    expect(uidTailMatches('E0A1B2C3', decodeUid('178:41440', 'wiegand26')!)).toBe(true)
+  })
+})
@@ -78,7 +78,10 @@ describe('Validation', () => {
 
   describe('validateSerialCommand', () => {
     it('validates allowed commands', () => {
-      const commands = ['STATUS', 'SCAN', 'SMS ON', 'SMS OFF', 'AUTO ON 180', 'REMIND ALL']
+      const commands = [
+        'STATUS', 'SCAN', 'SMS ON', 'SMS OFF', 'AUTO ON 180', 'REMIND ALL',
+        'WRITE ARM', 'WRITE TAG BOOK-42 | MAIN', 'READ TAG', 'RENEW E0A1B2C3 | BOOK-42 | 2024-01-29',
+      ]
       
       commands.forEach(cmd => {
         const result = validateSerialCommand(cmd)
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createWedgeDetector, wedgeBurstToEvent, attachKeyboardWedge, loadWedgeItemPattern, saveWedgeItemPattern, DEFAULT_ITEM_PATTERN } from '../wedge'
+import { ValidationError } from '../error-handling'
+
+function typeBurst(detector: ReturnType<typeof createWedgeDetector>, text: string, start: number, gap: number) {
+  let t = start
+  for (const ch of text) {
+    detector.feed(ch, t)
+    t += gap
+  }
+  return detector.feed('Enter', t)
+}
+
+describe('Keyboard wedge', () => {
+  describe('createWedgeDetector', () => {
+    it('accepts fast bursts ending in Enter', () => {
+      const detector = createWedgeDetector()
+      expect(typeBurst(detector, 'e0a1b2c3', 1000, 8)).toBe('e0a1b2c3')
+    })
+
+    it('ignores human-speed typing', () => {
+      const detector = createWedgeDetector()
+      expect(typeBurst(detector, 'e0a1b2c3', 1000, 180)).toBeNull()
+    })
+
+    it('drops slow keys typed before a burst', () => {
+      const detector = createWedgeDetector()
+      detector.feed('x', 0)
+      detector.feed('y', 500)
+      expect(typeBurst(detector, 'AABBCCDD', 2000, 5)).toBe('AABBCCDD')
+    })
+
+    it('ignores bursts shorter than minLength', () => {
+      const detector = createWedgeDetector({ minLength: 6 })
+      expect(typeBurst(detector, 'ABCD', 0, 5)).toBeNull()
+    })
+  })
+
+  describe('wedgeBurstToEvent', () => {
+    it('normalizes hex bursts into card events', () => {
+      expect(wedgeBurstToEvent('e0:a1:b2:c3')).toEqual({ event: 'card', uid: 'E0A1B2C3' })
+    })
+
+    it('treats everything else as an item tag', () => {
+      expect(wedgeBurstToEvent('BOOK-42')).toEqual({ event: 'item', tag: 'BOOK-42' })
+    })
+
+    it('decodes card numbers with the reader profile', () => {
+      expect(wedgeBurstToEvent('3768693443', 'decimal')).toEqual({ event: 'card', uid: 'E0A1B2C3' })
+      expect(wedgeBurstToEvent('BOOK-42', 'decimal')).toEqual({ event: 'item', tag: 'BOOK-42' })
+    })
+
+    it('keeps numeric item barcodes as items under the decimal profile', () => {
+      expect(wedgeBurstToEvent('9780262033848', 'decimal')).toEqual({ event: 'item', tag: '9780262033848' })
+      // A library's own numeric tags, configured by prefix
+      expect(wedgeBurstToEvent('31000042', 'decimal')).toMatchObject({ event: 'card' })
+      expect(wedgeBurstToEvent('31000042', 'decimal', /^310/)).toEqual({ event: 'item', tag: '31000042' })
+    })
+
+    it('saves only valid item patterns', () => {
+      localStorage.clear()
+      expect(loadWedgeItemPattern()).toBe(DEFAULT_ITEM_PATTERN)
+      expect(() => saveWedgeItemPattern('^(310')).toThrow(ValidationError)
+      expect(saveWedgeItemPattern(' ^310 ').test('3100')).toBe(true)
+      expect(loadWedgeItemPattern()).toBe('^310')
+    })
+  })
+
+  describe('attachKeyboardWedge', () => {
+    it('emits events and strips the burst from the focused input', () => {
+      const input = document.createElement('input')
+      document.body.appendChild(input)
+      const onEvent = vi.fn()
+      const detach = attachKeyboardWedge(window, onEvent)
+
+      // Dispatched back-to-back, so the event timestamps are well inside the burst window
+      for (const ch of 'BOOK-42') {
+        input.value += ch
+        input.dispatchEvent(new KeyboardEvent('keydown', { key: ch, bubbles: true }))
+      }
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }))
+
+      expect(onEvent).toHaveBeenCalledWith({ event: 'item', tag: 'BOOK-42' })
+      expect(input.value).toBe('')
+      detach()
+      input.remove()
+    })
+  })
+})
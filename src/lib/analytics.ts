@@ -1,5 +1,9 @@
 import { differenceInDays, format, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns'
-import { db, Student, Loan, Tx } from './db'
+import { db, Student, Loan, Tx, BookReservation, Fine } from './db'
+import { getFinePolicy, ruleForLoan, overdueCharge } from './fine-policy'
+import { loadLibraryCalendar, openUnitsSince } from './calendar'
+
+export type { BookReservation, Fine, FinePayment } from './db'
 
 // Analytics interfaces
 export interface LibraryStats {
@@ -11,6 +15,12 @@ export interface LibraryStats {
     totalTransactions: number
     averageLoanDuration: number
   }
+  outcomes: {
+    lost: number // loans currently closed as lost
+    damaged: number
+    claimedReturned: number
+    foundThisMonth: number // lost / claimed-returned items checked in as found
+  }
   trends: {
     loansThisWeek: number
     loansLastWeek: number
@@ -30,35 +40,6 @@ export interface LibraryStats {
   }
 }
 
-export interface BookReservation {
-  id: string
-  studentId: number
-  itemTag: string
-  itemTitle?: string
-  reservedAt: string
-  expiresAt: string
-  status: 'ACTIVE' | 'FULFILLED' | 'CANCELLED' | 'EXPIRED'
-  notificationsSent: number
-  priority: number // Higher priority for premium users, etc.
-}
-
-export interface Fine {
-  id: string
-  studentId: number
-  loanId: string
-  itemTag: string
-  type: 'OVERDUE' | 'DAMAGE' | 'LOST' | 'OTHER'
-  amount: number
-  currency: string
-  description: string
-  issuedAt: string
-  dueAt: string
-  paidAt?: string
-  status: 'PENDING' | 'PAID' | 'WAIVED' | 'PARTIAL'
-  paidAmount?: number
-  waivedBy?: string
-  waivedReason?: string
-}
 
 // Analytics functions
 export async function generateLibraryStats(): Promise<LibraryStats> {
@@ -70,10 +51,11 @@ export async function generateLibraryStats(): Promise<LibraryStats> {
   const monthStart = startOfMonth(now)
 
   // Get all data
-  const [students, loans, transactions] = await Promise.all([
+  const [students, loans, transactions, items] = await Promise.all([
     db.students.toArray(),
     db.loans.toArray(),
     db.transactions.toArray(),
+    db.items.toArray(),
   ])
 
   // Overview calculations
@@ -90,8 +72,8 @@ export async function generateLibraryStats(): Promise<LibraryStats> {
   
   const averageLoanDuration = completedLoans.length > 0 ? totalLoanDays / completedLoans.length : 0
 
-  // Unique books count (approximate from transactions)
-  const uniqueBooks = new Set(transactions.map(t => t.item_tag)).size
+  // Holdings from the catalog; withdrawn copies no longer count
+  const uniqueBooks = items.filter(i => i.status !== 'WITHDRAWN').length
 
   // Trends
   const thisWeekTransactions = transactions.filter(t => {
@@ -109,6 +91,14 @@ export async function generateLibraryStats(): Promise<LibraryStats> {
   const returnsThisWeek = thisWeekTransactions.filter(t => t.action === 'RETURN').length
   const returnsLastWeek = lastWeekTransactions.filter(t => t.action === 'RETURN').length
 
+  // Loans that ended other than by a plain return
+  const outcomes = {
+    lost: loans.filter(l => l.status === 'LOST').length,
+    damaged: loans.filter(l => l.status === 'DAMAGED').length,
+    claimedReturned: loans.filter(l => l.status === 'CLAIMED_RETURNED').length,
+    foundThisMonth: transactions.filter(t => t.action === 'FOUND' && new Date(t.occurred_at) >= monthStart).length,
+  }
+
   const newStudentsThisMonth = students.filter(s => 
     s.created_at && new Date(s.created_at) >= monthStart
   ).length
@@ -150,12 +140,14 @@ export async function generateLibraryStats(): Promise<LibraryStats> {
     .slice(0, 10)
 
   // Overdue analysis
+  const calendar = loadLibraryCalendar()
   const overdueStats = new Map<number, { count: number; totalDays: number }>()
   overdueLoans.forEach(loan => {
     if (loan.student_index) {
       const student = students.find(s => s.index_number === loan.student_index)
       if (student?.id) {
-        const daysOverdue = differenceInDays(now, new Date(loan.due_at))
+        // Days the library was closed don't count
+        const daysOverdue = openUnitsSince(calendar, loan.due_at, now)
         const current = overdueStats.get(student.id) || { count: 0, totalDays: 0 }
         overdueStats.set(student.id, {
           count: current.count + 1,
@@ -225,6 +217,7 @@ export async function generateLibraryStats(): Promise<LibraryStats> {
       totalTransactions: transactions.length,
       averageLoanDuration: Math.round(averageLoanDuration * 10) / 10
     },
+    outcomes,
     trends: {
       loansThisWeek,
       loansLastWeek,
@@ -245,10 +238,28 @@ export async function generateLibraryStats(): Promise<LibraryStats> {
   }
 }
 
-// Reservation system
-export class ReservationManager {
-  private reservations: BookReservation[] = []
+// Reservation system, persisted in the reservations table. A reservation waits in
+// the queue (ACTIVE) while the item is out; when it comes back the first in line gets
+// it on hold (READY) until the pickup deadline, and borrowing it fulfils the hold.
+// Holds not collected in time expire and pass to the next in line. A queued
+// reservation's expiry counts from when the item is due back, and it never lapses
+// while the item is still out, so waiting on a long or overdue loan keeps its place.
+
+export const HOLD_PICKUP_DAYS = 3
+
+// Queue order: priority first, then first come first served
+export function byQueuePriority(a: BookReservation, b: BookReservation): number {
+  if (a.priority !== b.priority) return b.priority - a.priority
+  return new Date(a.reservedAt).getTime() - new Date(b.reservedAt).getTime()
+}
+
+// Past its pickup deadline (READY) or expiry date (ACTIVE)
+function lapsed(reservation: BookReservation, at: Date): boolean {
+  const deadline = reservation.status === 'READY' ? reservation.holdUntil : reservation.expiresAt
+  return !!deadline && new Date(deadline) < at
+}
 
+export class ReservationManager {
   async createReservation(
     studentId: number,
     itemTag: string,
@@ -258,21 +269,29 @@ export class ReservationManager {
     try {
       // Check if book is currently available
       const activeLoans = await db.loans.where({ item_tag: itemTag, status: 'ACTIVE' as const }).toArray()
-      if (activeLoans.length === 0) {
+      const onHold = await this.holdFor(itemTag)
+      if (activeLoans.length === 0 && !onHold) {
         return { success: false, error: 'Book is currently available for immediate borrowing' }
       }
+      const student = await db.students.get(studentId)
+      if (student && activeLoans.some(l => l.student_index === student.index_number)) {
+        return { success: false, error: 'Student already has this book on loan' }
+      }
 
       // Check if student already has a reservation for this book
-      const existingReservation = this.reservations.find(r => 
-        r.studentId === studentId && 
-        r.itemTag === itemTag && 
-        r.status === 'ACTIVE'
-      )
-      
+      const existingReservation = await db.reservations
+        .where('itemTag')
+        .equals(itemTag)
+        .filter(r => r.studentId === studentId && (r.status === 'ACTIVE' || r.status === 'READY'))
+        .first()
+
       if (existingReservation) {
         return { success: false, error: 'You already have an active reservation for this book' }
       }
 
+      // The expiry clock starts when the item is due back (or now, if it is on the hold shelf)
+      const dueBack = Math.max(Date.now(), ...activeLoans.map(l => new Date(l.due_at).getTime()))
+
       // Create reservation
       const reservation: BookReservation = {
         id: crypto.randomUUID(),
@@ -280,124 +299,217 @@ export class ReservationManager {
         itemTag,
         itemTitle,
         reservedAt: new Date().toISOString(),
-        expiresAt: new Date(Date.now() + daysToExpire * 24 * 60 * 60 * 1000).toISOString(),
+        expiresAt: new Date(dueBack + daysToExpire * 24 * 60 * 60 * 1000).toISOString(),
         status: 'ACTIVE',
         notificationsSent: 0,
-        priority: 1 // Could be based on user type, membership level, etc.
+        priority: 1, // Could be based on user type, membership level, etc.
+        holdUntil: null,
       }
 
-      this.reservations.push(reservation)
+      await db.reservations.add(reservation)
       return { success: true, reservation }
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Failed to create reservation' }
     }
   }
 
-  async cancelReservation(reservationId: string): Promise<{ success: boolean; error?: string }> {
-    const index = this.reservations.findIndex(r => r.id === reservationId)
-    if (index === -1) {
-      return { success: false, error: 'Reservation not found' }
-    }
+  async cancelReservation(reservationId: string): Promise<{ success: boolean; error?: string; next?: BookReservation | null }> {
+    // Cancelling and passing the hold on happen together, or not at all
+    return db.transaction('rw', db.reservations, async () => {
+      const reservation = await db.reservations.get(reservationId)
+      if (!reservation) {
+        return { success: false, error: 'Reservation not found' }
+      }
+      if (reservation.status !== 'ACTIVE' && reservation.status !== 'READY') {
+        return { success: false, error: `Reservation is already ${reservation.status.toLowerCase()}` }
+      }
 
-    this.reservations[index].status = 'CANCELLED'
-    return { success: true }
+      await db.reservations.update(reservationId, { status: 'CANCELLED' })
+      // A cancelled hold goes to the next patron in line
+      const next = reservation.status === 'READY' ? await this.processBookReturn(reservation.itemTag) : null
+      return { success: true, next }
+    })
   }
 
   async getStudentReservations(studentId: number): Promise<BookReservation[]> {
-    return this.reservations.filter(r => 
-      r.studentId === studentId && 
-      ['ACTIVE', 'FULFILLED'].includes(r.status)
-    )
+    const mine = await db.reservations.where('studentId').equals(studentId).toArray()
+    return mine.filter(r => ['ACTIVE', 'READY', 'FULFILLED'].includes(r.status))
   }
 
-  async processBookReturn(itemTag: string): Promise<void> {
+  // Puts a returned item on hold for the first patron in line; null when nobody is waiting
+  async processBookReturn(itemTag: string, holdDays: number = HOLD_PICKUP_DAYS): Promise<BookReservation | null> {
+    if (await this.holdFor(itemTag)) return null
     // Find active reservations for this book
-    const reservations = this.reservations
-      .filter(r => r.itemTag === itemTag && r.status === 'ACTIVE')
-      .sort((a, b) => {
-        // Sort by priority first, then by reservation date
-        if (a.priority !== b.priority) return b.priority - a.priority
-        return new Date(a.reservedAt).getTime() - new Date(b.reservedAt).getTime()
-      })
+    const reservations = (await db.reservations.where('[itemTag+status]').equals([itemTag, 'ACTIVE']).toArray())
+      .sort(byQueuePriority)
 
     if (reservations.length > 0) {
       // Notify the first person in line
       const topReservation = reservations[0]
-      topReservation.status = 'FULFILLED'
+      topReservation.status = 'READY'
+      topReservation.holdUntil = new Date(Date.now() + holdDays * 24 * 60 * 60 * 1000).toISOString()
       topReservation.notificationsSent++
-      
+      await db.reservations.put(topReservation)
+
       // In a real app, send notification here
       console.log(`Notify student ${topReservation.studentId}: Book ${itemTag} is now available!`)
+      return topReservation
     }
+    return null
   }
 
-  async cleanupExpiredReservations(): Promise<number> {
-    const now = new Date()
+  // Expires queued reservations past expiresAt (unless the item is still out) and holds
+  // past their pickup deadline; each lapsed hold passes to the next patron in line
+  async cleanupExpiredReservations(now = new Date()): Promise<number> {
     let cleaned = 0
-    
-    this.reservations.forEach(reservation => {
-      if (reservation.status === 'ACTIVE' && new Date(reservation.expiresAt) < now) {
-        reservation.status = 'EXPIRED'
-        cleaned++
-      }
-    })
-    
+
+    const open = await db.reservations.where('status').anyOf(['ACTIVE', 'READY']).toArray()
+    const lapsedHolds: string[] = []
+    for (const reservation of open) {
+      if (!lapsed(reservation, now)) continue
+      if (reservation.status === 'ACTIVE' && (await db.loans.where({ item_tag: reservation.itemTag, status: 'ACTIVE' as const }).count())) continue
+      await db.reservations.update(reservation.id, { status: 'EXPIRED' })
+      if (reservation.status === 'READY') lapsedHolds.push(reservation.itemTag)
+      cleaned++
+    }
+    for (const itemTag of lapsedHolds) await this.processBookReturn(itemTag)
+
     return cleaned
   }
 
-  getActiveReservations(): BookReservation[] {
-    return this.reservations.filter(r => r.status === 'ACTIVE')
+  // The hold waiting on the shelf for this item, if any; one past its pickup deadline
+  // no longer counts, even before cleanupExpiredReservations has marked it
+  async holdFor(itemTag: string, at = new Date()): Promise<BookReservation | undefined> {
+    return db.reservations.where('[itemTag+status]').equals([itemTag, 'READY']).filter(r => !lapsed(r, at)).first()
+  }
+
+  // Someone is waiting for this item, so its loan can't be renewed. Queued reservations
+  // count until the item is back (see cleanupExpiredReservations), holds until their deadline.
+  async isReserved(itemTag: string, at = new Date()): Promise<boolean> {
+    const open = await db.reservations.where('[itemTag+status]').anyOf([[itemTag, 'ACTIVE'], [itemTag, 'READY']]).toArray()
+    return open.some(r => r.status === 'ACTIVE' || !lapsed(r, at))
+  }
+
+  async getActiveReservations(): Promise<BookReservation[]> {
+    return (await db.reservations.where('status').anyOf(['ACTIVE', 'READY']).toArray()).sort(byQueuePriority)
   }
 }
 
-// Fine management system
+// Fine management, persisted in the fines table. Overdue fines are assessed when a
+// late item comes back and by a daily job over loans still out; each loan has at most
+// one OVERDUE fine, which grows in place until it is returned or waived. Amounts come
+// from the fine policy (./fine-policy) the fine was first raised under.
+
+export const FINE_PAYMENT_DAYS = 30
+
+export interface FineSettings {
+  blockThreshold: number // borrowing is refused while unpaid fines exceed this
+}
+
+export const DEFAULT_FINE_SETTINGS: FineSettings = {
+  blockThreshold: 10,
+}
+
+const FINE_SETTINGS_KEY = 'fineSettings'
+const ACCRUED_ON_KEY = 'finesAccruedOn'
+
+export function loadFineSettings(): FineSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FINE_SETTINGS_KEY) ?? '{}')
+    return {
+      blockThreshold: Number.isFinite(saved.blockThreshold) ? saved.blockThreshold : DEFAULT_FINE_SETTINGS.blockThreshold,
+    }
+  } catch {
+    return { ...DEFAULT_FINE_SETTINGS }
+  }
+}
+
+export function saveFineSettings(settings: FineSettings) {
+  localStorage.setItem(FINE_SETTINGS_KEY, JSON.stringify(settings))
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function isUnpaid(fine: Fine): boolean {
+  return fine.status === 'PENDING' || fine.status === 'PARTIAL'
+}
+
 export class FineManager {
-  private fines: Fine[] = []
+  // Creates or grows the loan's OVERDUE fine; `changed` is false when it already stood at this amount
+  private async upsertOverdueFine(loan: Loan, now: Date): Promise<{ fine: Fine | null; changed: boolean }> {
+    if (new Date(loan.due_at) >= now) return { fine: null, changed: false }
+    const student = await db.students.where('index_number').equals(loan.student_index || '').first()
+    if (!student) return { fine: null, changed: false }
+
+    const existing = await db.fines.where('[loanId+type]').equals([loan.id, 'OVERDUE']).first()
+    // Fines raised before policies were versioned were computed by version 1
+    const policy = await getFinePolicy(existing ? existing.policyVersion ?? 1 : undefined)
+    const rule = await ruleForLoan(policy, loan)
+    if (!rule) return { fine: existing ?? null, changed: false }
+    const { units, amount } = overdueCharge(policy, rule, loan.due_at, now)
+    if (amount <= 0) return { fine: existing ?? null, changed: false }
+
+    const description = `Overdue fine for ${loan.item_title || loan.item_tag} (${units} ${rule.accrual === 'HOURLY' ? 'hours' : 'days'})`
+    if (existing) {
+      if (existing.status === 'WAIVED' || amount <= existing.amount) return { fine: existing, changed: false }
+      const grown: Fine = {
+        ...existing,
+        amount,
+        description,
+        status: (existing.paidAmount ?? 0) > 0 ? 'PARTIAL' : 'PENDING',
+        paidAt: undefined,
+      }
+      await db.fines.put(grown)
+      return { fine: grown, changed: true }
+    }
+
+    const fine: Fine = {
+      id: crypto.randomUUID(),
+      studentId: student.id!,
+      loanId: loan.id,
+      itemTag: loan.item_tag,
+      type: 'OVERDUE',
+      amount,
+      currency: policy.currency,
+      description,
+      issuedAt: now.toISOString(),
+      dueAt: new Date(now.getTime() + FINE_PAYMENT_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      status: 'PENDING',
+      policyVersion: policy.version,
+    }
+    await db.fines.add(fine)
+    return { fine, changed: true }
+  }
 
-  async calculateOverdueFines(): Promise<Fine[]> {
-    const now = new Date()
+  // The loan's overdue fine as of `now` (null when it isn't late); used on return
+  async assessOverdueFine(loan: Loan, now: Date = new Date()): Promise<Fine | null> {
+    return (await this.upsertOverdueFine(loan, now)).fine
+  }
+
+  // Brings the fines of every overdue loan still out up to date; returns those created or grown
+  async calculateOverdueFines(now: Date = new Date()): Promise<Fine[]> {
     const activeLoans = await db.loans.where({ status: 'ACTIVE' as const }).toArray()
     const overdueLoans = activeLoans.filter(loan => new Date(loan.due_at) < now)
-    
+
     const newFines: Fine[] = []
-    
     for (const loan of overdueLoans) {
-      // Check if fine already exists for this loan
-      const existingFine = this.fines.find(f => 
-        f.loanId === loan.id && 
-        f.type === 'OVERDUE' && 
-        f.status === 'PENDING'
-      )
-      
-      if (!existingFine) {
-        const student = await db.students.where('index_number').equals(loan.student_index || '').first()
-        if (student) {
-          const daysOverdue = differenceInDays(now, new Date(loan.due_at))
-          const amount = Math.min(daysOverdue * 0.50, 25.00) // $0.50 per day, max $25
-          
-          const fine: Fine = {
-            id: crypto.randomUUID(),
-            studentId: student.id!,
-            loanId: loan.id,
-            itemTag: loan.item_tag,
-            type: 'OVERDUE',
-            amount,
-            currency: 'USD',
-            description: `Overdue fine for ${loan.item_title || loan.item_tag} (${daysOverdue} days)`,
-            issuedAt: new Date().toISOString(),
-            dueAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days to pay
-            status: 'PENDING'
-          }
-          
-          this.fines.push(fine)
-          newFines.push(fine)
-        }
-      }
+      const { fine, changed } = await this.upsertOverdueFine(loan, now)
+      if (fine && changed) newFines.push(fine)
     }
-    
     return newFines
   }
 
+  // The daily job: runs calculateOverdueFines at most once per calendar day; null when already run
+  async runDailyAccrual(now: Date = new Date()): Promise<Fine[] | null> {
+    const today = format(now, 'yyyy-MM-dd')
+    if (localStorage.getItem(ACCRUED_ON_KEY) === today) return null
+    const fines = await this.calculateOverdueFines(now)
+    localStorage.setItem(ACCRUED_ON_KEY, today)
+    return fines
+  }
+
   async createManualFine(
     studentId: number,
     loanId: string,
@@ -405,80 +517,96 @@ export class FineManager {
     type: Fine['type'],
     amount: number,
     description: string,
-    daysToPayx: number = 30
+    daysToPayx: number = FINE_PAYMENT_DAYS,
+    policyVersion?: number
   ): Promise<{ success: boolean; fine?: Fine; error?: string }> {
     try {
+      const { currency } = await getFinePolicy(policyVersion)
       const fine: Fine = {
         id: crypto.randomUUID(),
         studentId,
         loanId,
         itemTag,
         type,
-        amount,
-        currency: 'USD',
+        amount: roundMoney(amount),
+        currency,
         description,
         issuedAt: new Date().toISOString(),
         dueAt: new Date(Date.now() + daysToPayx * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'PENDING'
+        status: 'PENDING',
+        policyVersion,
       }
-      
-      this.fines.push(fine)
+
+      await db.fines.add(fine)
       return { success: true, fine }
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Failed to create fine' }
     }
   }
 
-  async payFine(fineId: string, amount: number): Promise<{ success: boolean; error?: string }> {
-    const fine = this.fines.find(f => f.id === fineId)
+  // Records a full or partial payment taken by `receivedBy`; anything above the balance is not recorded
+  async payFine(fineId: string, amount: number, receivedBy: string): Promise<{ success: boolean; fine?: Fine; error?: string }> {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return { success: false, error: 'Payment must be greater than zero' }
+    }
+    const fine = await db.fines.get(fineId)
     if (!fine) {
       return { success: false, error: 'Fine not found' }
     }
-
-    if (fine.status === 'PAID') {
-      return { success: false, error: 'Fine is already paid' }
+    if (!isUnpaid(fine)) {
+      return { success: false, error: `Fine is already ${fine.status.toLowerCase()}` }
     }
 
-    const paidAmount = (fine.paidAmount || 0) + amount
-    
-    if (paidAmount >= fine.amount) {
-      fine.status = 'PAID'
-      fine.paidAmount = fine.amount
-      fine.paidAt = new Date().toISOString()
-    } else {
-      fine.status = 'PARTIAL'
-      fine.paidAmount = paidAmount
+    const now = new Date().toISOString()
+    const received = roundMoney(Math.min(amount, fine.amount - (fine.paidAmount || 0)))
+    const paidAmount = roundMoney((fine.paidAmount || 0) + received)
+    const paid: Fine = {
+      ...fine,
+      paidAmount,
+      payments: [...(fine.payments ?? []), { amount: received, paidAt: now, receivedBy }],
+      status: paidAmount >= fine.amount ? 'PAID' : 'PARTIAL',
+      paidAt: paidAmount >= fine.amount ? now : undefined,
     }
-    
-    return { success: true }
+    await db.fines.put(paid)
+    return { success: true, fine: paid }
   }
 
-  async waiveFine(fineId: string, reason: string, waivedBy: string): Promise<{ success: boolean; error?: string }> {
-    const fine = this.fines.find(f => f.id === fineId)
+  async waiveFine(fineId: string, reason: string, waivedBy: string): Promise<{ success: boolean; fine?: Fine; error?: string }> {
+    if (!reason.trim()) {
+      return { success: false, error: 'A reason is required to waive a fine' }
+    }
+    const fine = await db.fines.get(fineId)
     if (!fine) {
       return { success: false, error: 'Fine not found' }
     }
+    if (!isUnpaid(fine)) {
+      return { success: false, error: `Fine is already ${fine.status.toLowerCase()}` }
+    }
 
-    fine.status = 'WAIVED'
-    fine.waivedBy = waivedBy
-    fine.waivedReason = reason
-    fine.paidAt = new Date().toISOString()
-    
-    return { success: true }
+    const waived: Fine = { ...fine, status: 'WAIVED', waivedBy, waivedReason: reason.trim(), paidAt: new Date().toISOString() }
+    await db.fines.put(waived)
+    return { success: true, fine: waived }
   }
 
   async getStudentFines(studentId: number): Promise<Fine[]> {
-    return this.fines.filter(f => f.studentId === studentId)
+    const fines = await db.fines.where('studentId').equals(studentId).toArray()
+    return fines.sort((a, b) => b.issuedAt.localeCompare(a.issuedAt))
+  }
+
+  async getUnpaidFines(studentId?: number): Promise<Fine[]> {
+    const unpaid = await db.fines.where('status').anyOf(['PENDING', 'PARTIAL']).toArray()
+    return studentId === undefined ? unpaid : unpaid.filter(f => f.studentId === studentId)
   }
 
-  async getUnpaidFines(): Promise<Fine[]> {
-    return this.fines.filter(f => ['PENDING', 'PARTIAL'].includes(f.status))
+  // What the student still owes across unpaid fines
+  async unpaidTotal(studentId: number): Promise<number> {
+    return this.getTotalFineAmount(await this.getUnpaidFines(studentId))
   }
 
   getTotalFineAmount(fines: Fine[]): number {
-    return fines
-      .filter(f => f.status === 'PENDING' || f.status === 'PARTIAL')
-      .reduce((total, fine) => total + fine.amount - (fine.paidAmount || 0), 0)
+    return roundMoney(fines
+      .filter(isUnpaid)
+      .reduce((total, fine) => total + fine.amount - (fine.paidAmount || 0), 0))
   }
 }
 
@@ -0,0 +1,201 @@
+import { format } from 'date-fns'
+import { schemas, validateInput } from './validation'
+import { ValidationError } from './error-handling'
+
+// Library calendar: opening hours per weekday (null = closed every week) and one-off
+// closures such as public holidays. Loans fall due on open days only, and overdue days
+// that fall on closed days are not counted (fines, stats). Kept in localStorage like
+// the other desk settings; closures can be imported from an iCalendar (.ics) file.
+
+export interface OpeningHours {
+  open: string // HH:mm
+  close: string // HH:mm
+}
+
+export interface Closure {
+  start: string // yyyy-MM-dd, local
+  end: string // yyyy-MM-dd, inclusive
+  reason: string
+}
+
+export interface LibraryCalendar {
+  hours: Array<OpeningHours | null> // indexed by weekday, 0 = Sunday
+  closures: Closure[]
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// Open every day until staff say otherwise, so due dates don't move on upgrade
+export const DEFAULT_CALENDAR: LibraryCalendar = {
+  hours: WEEKDAY_NAMES.map(() => ({ open: '08:00', close: '20:00' })),
+  closures: [],
+}
+
+const CALENDAR_KEY = 'libraryCalendar'
+
+function defaultCalendar(): LibraryCalendar {
+  return { hours: DEFAULT_CALENDAR.hours.map(h => h && { ...h }), closures: [] }
+}
+
+export function loadLibraryCalendar(): LibraryCalendar {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CALENDAR_KEY) ?? 'null')
+    const check = validateInput<LibraryCalendar>(saved, schemas.libraryCalendar)
+    return check.valid ? check.data! : defaultCalendar()
+  } catch {
+    return defaultCalendar()
+  }
+}
+
+export function saveLibraryCalendar(calendar: LibraryCalendar): LibraryCalendar {
+  const check = validateInput<LibraryCalendar>(calendar, schemas.libraryCalendar)
+  if (!check.valid) throw new ValidationError(check.errors!.join('; '), 'calendar', calendar)
+  const v = check.data!
+  if (v.closures.some(c => c.end < c.start)) throw new ValidationError('A closure cannot end before it starts', 'closures')
+  const sorted = { ...v, closures: [...v.closures].sort((a, b) => a.start.localeCompare(b.start)) }
+  localStorage.setItem(CALENDAR_KEY, JSON.stringify(sorted))
+  return sorted
+}
+
+// The closure covering this (local) day, if any
+export function closureOn(calendar: LibraryCalendar, day: Date): Closure | undefined {
+  const date = format(day, 'yyyy-MM-dd')
+  return calendar.closures.find(c => c.start <= date && date <= c.end)
+}
+
+export function isOpenDay(calendar: LibraryCalendar, day: Date): boolean {
+  return calendar.hours[day.getDay()] !== null && !closureOn(calendar, day)
+}
+
+// The same time on the first open day from `day` on; unchanged if nothing is open within a year
+export function nextOpenDay(calendar: LibraryCalendar, day: Date): Date {
+  const d = new Date(day)
+  for (let i = 0; i <= 366; i++) {
+    if (isOpenDay(calendar, d)) return d
+    d.setDate(d.getDate() + 1)
+  }
+  return new Date(day)
+}
+
+// Closing time on this (local) day; null when the library is closed all day
+export function closingTime(calendar: LibraryCalendar, day: Date): Date | null {
+  const hours = calendar.hours[day.getDay()]
+  if (!hours || closureOn(calendar, day)) return null
+  const [h, m] = hours.close.split(':').map(Number)
+  const close = new Date(day)
+  close.setHours(h, m, 0, 0)
+  return close
+}
+
+// Due date `days` after `fromIso`, rolled forward to the next open day
+export function dueAfter(fromIso: string, days: number, calendar = loadLibraryCalendar()): string {
+  const d = new Date(fromIso)
+  d.setDate(d.getDate() + days)
+  return nextOpenDay(calendar, d).toISOString()
+}
+
+// Whole days (or hours, with unitMs) elapsed since `dueIso`, leaving out those that
+// start on a closed day
+export function openUnitsSince(calendar: LibraryCalendar, dueIso: string, at: Date, unitMs = 24 * 60 * 60 * 1000): number {
+  const due = new Date(dueIso).getTime()
+  const elapsed = Math.floor((at.getTime() - due) / unitMs)
+  let counted = 0
+  for (let i = 0; i < elapsed; i++) {
+    if (isOpenDay(calendar, new Date(due + i * unitMs))) counted++
+  }
+  return counted
+}
+
+// ---- iCalendar import
+
+export interface IcsImport {
+  closures: Closure[]
+  skipped: number // recurring, unreadable or part-day events
+}
+
+// Unfolds continuation lines (RFC 5545 3.1) and splits NAME;PARAMS:VALUE
+function icsLines(text: string): Array<{ name: string; params: string; value: string }> {
+  const unfolded = text.replace(/\r?\n[ \t]/g, '')
+  return unfolded.split(/\r?\n/).filter(Boolean).map(line => {
+    const colon = line.indexOf(':')
+    const head = colon < 0 ? line : line.slice(0, colon)
+    const [name, ...params] = head.split(';')
+    return { name: name.toUpperCase(), params: params.join(';').toUpperCase(), value: colon < 0 ? '' : line.slice(colon + 1) }
+  })
+}
+
+// 20241225 or 20241225T090000(Z) -> local Date
+function icsDate(value: string): Date | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim())
+  if (!m) return null
+  const [, y, mo, d, h, mi, s, utc] = m
+  if (h === undefined) return new Date(+y, +mo - 1, +d)
+  return utc ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)) : new Date(+y, +mo - 1, +d, +h, +mi, +s)
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim()
+}
+
+// Opening days a timed event covers from opening to closing time, as closures; a
+// two-hour staff meeting covers none and closes nothing
+function coveredDays(calendar: LibraryCalendar, start: Date, end: Date, reason: string): Closure[] {
+  const closures: Closure[] = []
+  let run: Closure | null = null
+  for (const day = new Date(start.getFullYear(), start.getMonth(), start.getDate()); day < end; day.setDate(day.getDate() + 1)) {
+    const hours = calendar.hours[day.getDay()]
+    if (!hours) continue // closed that weekday anyway
+    const at = (hhmm: string) => new Date(day.getFullYear(), day.getMonth(), day.getDate(), ...hhmm.split(':').map(Number))
+    const date = format(day, 'yyyy-MM-dd')
+    if (start <= at(hours.open) && end >= at(hours.close)) {
+      if (run) run.end = date
+      else closures.push((run = { start: date, end: date, reason }))
+    } else {
+      run = null
+    }
+  }
+  return closures
+}
+
+// Every single (non-recurring) event becomes a closure. All-day events close the days
+// they span (DTEND is exclusive); timed events only close days whose opening hours they
+// cover in full, and are skipped when they cover none.
+export function parseIcsClosures(text: string, calendar: LibraryCalendar = loadLibraryCalendar()): IcsImport {
+  const closures: Closure[] = []
+  let skipped = 0
+  let event: Record<string, { params: string; value: string }> | null = null
+  for (const line of icsLines(text)) {
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      event = {}
+    } else if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT' && event) {
+      const start = event.DTSTART ? icsDate(event.DTSTART.value) : null
+      if (!start || event.RRULE) {
+        skipped++
+      } else {
+        const allDay = !/T/.test(event.DTSTART.value)
+        const endRaw = event.DTEND ? icsDate(event.DTEND.value) : null
+        const reason = unescapeText(event.SUMMARY?.value ?? '') || 'Closed'
+        if (allDay) {
+          const end = endRaw && endRaw > start ? new Date(endRaw.getFullYear(), endRaw.getMonth(), endRaw.getDate() - 1) : start
+          closures.push({ start: format(start, 'yyyy-MM-dd'), end: format(end, 'yyyy-MM-dd'), reason })
+        } else {
+          const covered = endRaw ? coveredDays(calendar, start, endRaw, reason) : []
+          if (covered.length) closures.push(...covered)
+          else skipped++
+        }
+      }
+      event = null
+    } else if (event) {
+      event[line.name] = { params: line.params, value: line.value }
+    }
+  }
+  return { closures, skipped }
+}
+
+// Adds imported closures the calendar doesn't have yet; returns how many were new
+export function mergeClosures(calendar: LibraryCalendar, closures: Closure[]): { calendar: LibraryCalendar; added: number } {
+  const key = (c: Closure) => `${c.start}|${c.end}|${c.reason.toLowerCase()}`
+  const known = new Set(calendar.closures.map(key))
+  const fresh = closures.filter(c => !known.has(key(c)) && known.add(key(c)))
+  return { calendar: { ...calendar, closures: [...calendar.closures, ...fresh] }, added: fresh.length }
+}
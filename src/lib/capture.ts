@@ -0,0 +1,106 @@
+import { DeviceEvent, lineToEvents } from './protocol'
+import { ValidationError } from './error-handling'
+
+// Session capture: the raw line traffic of a reader connection with timestamps, so
+// field problems can be downloaded, replayed through the parser and kept as fixtures.
+
+export type CaptureDirection = 'in' | 'out' // in: device -> app, out: app -> device
+
+export interface CaptureEntry {
+  t: number // ms since the capture started
+  dir: CaptureDirection
+  line: string
+  reader?: string // reader id, when the kiosk has several
+}
+
+export interface Capture {
+  version: 1
+  startedAt: string
+  transport?: string
+  entries: CaptureEntry[]
+}
+
+export function createRecorder(now: () => number = Date.now) {
+  let startMs = 0
+  let capture: Capture | null = null
+
+  return {
+    get recording() {
+      return capture !== null
+    },
+    start(transport?: string) {
+      startMs = now()
+      capture = { version: 1, startedAt: new Date(startMs).toISOString(), transport, entries: [] }
+    },
+    record(dir: CaptureDirection, line: string, reader?: string) {
+      capture?.entries.push({ t: now() - startMs, dir, line, ...(reader ? { reader } : {}) })
+    },
+    stop(): Capture | null {
+      const done = capture
+      capture = null
+      return done
+    },
+  }
+}
+
+export function captureToBlob(capture: Capture): Blob {
+  return new Blob([JSON.stringify(capture, null, 2)], { type: 'application/json' })
+}
+
+export function parseCapture(text: string): Capture {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ValidationError('Capture file is not valid JSON')
+  }
+  const cap = data as Partial<Capture>
+  if (!cap || cap.version !== 1 || !Array.isArray(cap.entries)) {
+    throw new ValidationError('Not a reader capture (expected version 1 with entries)')
+  }
+  cap.entries.forEach((e, i) => {
+    if (typeof e?.t !== 'number' || (e.dir !== 'in' && e.dir !== 'out') || typeof e.line !== 'string') {
+      throw new ValidationError(`Capture entry ${i} is malformed`, 'entries', e)
+    }
+  })
+  return cap as Capture
+}
+
+// All events the device side of a capture produces, in order. Handy for fixtures.
+export function captureToEvents(capture: Capture): DeviceEvent[] {
+  return capture.entries.filter(e => e.dir === 'in').flatMap(e => lineToEvents(e.line))
+}
+
+export interface ReplayOptions {
+  speed?: number // 1 = original timing, 10 = ten times faster, Infinity = no delays
+  onOutgoing?: (line: string) => void
+  onDone?: () => void
+}
+
+// Plays the device lines back through the parser at the requested speed.
+// Returns a cancel function.
+export function replayCapture(
+  capture: Capture,
+  onEvent: (evt: DeviceEvent) => void,
+  options: ReplayOptions = {}
+): () => void {
+  const speed = options.speed ?? 1
+  const timers: ReturnType<typeof setTimeout>[] = []
+  const entries = [...capture.entries].sort((a, b) => a.t - b.t)
+
+  const play = (e: CaptureEntry) => {
+    if (e.dir === 'out') options.onOutgoing?.(e.line)
+    else lineToEvents(e.line).forEach(onEvent)
+  }
+
+  if (!Number.isFinite(speed)) {
+    entries.forEach(play)
+    options.onDone?.()
+    return () => {}
+  }
+
+  entries.forEach(e => timers.push(setTimeout(() => play(e), e.t / speed)))
+  const last = entries.length ? entries[entries.length - 1].t : 0
+  timers.push(setTimeout(() => options.onDone?.(), last / speed))
+  return () => timers.forEach(clearTimeout)
+}
@@ -0,0 +1,88 @@
+import { db, Item, ItemStatus, itemsFromHistory } from './db'
+import { schemas, validateInput } from './validation'
+import { ValidationError, DatabaseError } from './error-handling'
+
+// Item catalog. Every tag that circulates should have an entry here; Borrow and
+// Return resolve titles from it and refuse tags it doesn't know unless staff add
+// them on the spot. Status follows circulation: ON_LOAN while borrowed, back to
+// AVAILABLE on return; LOST, DAMAGED or MISSING (claimed returned) when a loan ends
+// that way. Only AVAILABLE and ON_LOAN copies can be lent.
+
+export const ITEM_TYPES = ['BOOK', 'REFERENCE', 'PERIODICAL', 'MEDIA', 'EQUIPMENT', 'RESERVE']
+
+export const ITEM_STATUSES: Record<ItemStatus, string> = {
+  AVAILABLE: 'Available',
+  ON_LOAN: 'On loan',
+  LOST: 'Lost',
+  DAMAGED: 'Damaged',
+  MISSING: 'Missing',
+  WITHDRAWN: 'Withdrawn',
+}
+
+export type ItemInput = Pick<Item, 'tag' | 'title'> & Partial<Omit<Item, 'tag' | 'title' | 'created_at' | 'updated_at'>>
+
+// Adds or updates an entry; the tag is the key, so editing one keeps its history
+export async function saveItem(input: ItemInput): Promise<Item> {
+  const result = validateInput<ItemInput>(input, schemas.item)
+  if (!result.valid) throw new ValidationError(result.errors!.join('; '), 'item', input)
+  const v = result.data!
+  const now = new Date().toISOString()
+  try {
+    return await db.transaction('rw', db.items, async () => {
+      const existing = await db.items.get(v.tag)
+      const item: Item = {
+        tag: v.tag,
+        title: v.title,
+        author: v.author || null,
+        isbn: v.isbn ? v.isbn.replace(/[\s-]/g, '').toUpperCase() : null,
+        call_number: v.call_number || null,
+        item_type: v.item_type || 'BOOK',
+        copy_number: v.copy_number ?? null,
+        location: v.location || null,
+        status: v.status ?? existing?.status ?? 'AVAILABLE',
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+      }
+      await db.items.put(item)
+      return item
+    })
+  } catch (error) {
+    throw new DatabaseError(`Could not save item: ${error instanceof Error ? error.message : String(error)}`, 'items')
+  }
+}
+
+export async function setItemStatus(tag: string, status: ItemStatus) {
+  await db.items.update(tag, { status, updated_at: new Date().toISOString() })
+}
+
+// Why a copy can't go out, or null when it can
+export function lendRefusal(item: Item | undefined): string | null {
+  if (!item) return 'Item is not in the catalog'
+  if (item.status === 'LOST') return `${item.title} is marked lost`
+  if (item.status === 'DAMAGED') return `${item.title} is marked damaged`
+  if (item.status === 'MISSING') return `${item.title} is missing (claimed returned)`
+  if (item.status === 'WITHDRAWN') return `${item.title} has been withdrawn`
+  return null
+}
+
+// Catalogs tags that loans or encoded labels know about but the catalog doesn't yet;
+// the v6 upgrade does this once, this catches data imported afterwards
+export async function backfillItems(): Promise<number> {
+  return db.transaction('rw', [db.items, db.loans, db.taggedItems], async () => {
+    const existing = (await db.items.toCollection().primaryKeys()) as string[]
+    const added = itemsFromHistory(await db.loans.toArray(), await db.taggedItems.toArray(), existing)
+    await db.items.bulkAdd(added)
+    return added.length
+  })
+}
+
+export async function searchItems(query: string, limit = 200): Promise<Item[]> {
+  const q = query.trim().toLowerCase()
+  const all = await db.items.orderBy('title').toArray()
+  const hits = q
+    ? all.filter(i =>
+        [i.tag, i.title, i.author, i.isbn, i.call_number, i.location].some(v => (v ?? '').toLowerCase().includes(q))
+      )
+    : all
+  return hits.slice(0, limit)
+}
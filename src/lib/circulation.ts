@@ -0,0 +1,312 @@
+import { db, Loan, LoanOutcome, Tx, ItemStatus, BookReservation, activeLoanForItem } from './db'
+import { schemas, validateInput } from './validation'
+import { lendRefusal } from './catalog'
+import { DEFAULT_LOAN_RULE, LoanPeriod, loadLoanRules, evaluateBorrow, loanRuleFor, rulePeriod, dueFor } from './loan-rules'
+import { reservationManager, fineManager, loadFineSettings, Fine } from './analytics'
+import { ValidationError, DatabaseError } from './error-handling'
+
+// Circulation: borrow, return, renew, and the other ways a loan ends (lost, damaged,
+// claimed returned) along with the "found" check-in that undoes them. Each runs in one Dexie rw transaction, so
+// the loan, its audit transaction and the catalog status are written together or not
+// at all, and the loan-limit check can't interleave with another borrow. Refusals are
+// ValidationErrors (shown to staff as is); storage failures are DatabaseErrors.
+// Returns put the item on hold for the next patron waiting for it, and a held item
+// can only be borrowed by that patron. Late returns are fined, and patrons owing more
+// than the configured threshold can't borrow.
+// Loan limits, periods and renewals come from the circulation rules (./loan-rules);
+// day loans fall due on open days of the library calendar (./calendar), hour and minute
+// loans to the minute, by closing time where the rule says so.
+// Device commands (SET STUDENT / BORROW / RETURN / RENEW) stay with the caller, after the
+// local write has succeeded.
+
+// What applies where no loan rule says otherwise
+export const MAX_ACTIVE_LOANS = DEFAULT_LOAN_RULE.maxLoans
+export const MAX_RENEWALS = DEFAULT_LOAN_RULE.maxRenewals
+
+export interface BorrowRequest {
+  student_index: string
+  user_uid?: string | null
+  item_tag: string
+  item_title?: string | null
+  days?: number // or minutes, for a short loan; neither: the loan period of the matching rule
+  minutes?: number
+  device_id: string
+}
+
+export interface CirculationResult {
+  loan: Loan
+  tx: Tx
+}
+
+// A return or found check-in also reports the hold it triggered for the next patron
+export interface CheckInResult extends CirculationResult {
+  hold: BookReservation | null
+}
+
+// A return also reports the overdue fine the loan ended with, if it was late
+export interface ReturnResult extends CheckInResult {
+  fine: Fine | null
+}
+
+const CIRCULATION_TABLES = () => [db.loans, db.transactions, db.students, db.items, db.reservations, db.fines, db.finePolicies, db.loanRules]
+
+async function inTransaction<T>(operation: string, work: () => Promise<T>): Promise<T> {
+  try {
+    return await db.transaction('rw', CIRCULATION_TABLES(), work)
+  } catch (error) {
+    if (error instanceof ValidationError) throw error
+    throw new DatabaseError(`Could not ${operation}: ${error instanceof Error ? error.message : String(error)}`, operation)
+  }
+}
+
+function auditTx(loan: Loan, action: Tx['action'], occurred_at: string, device_id: string): Tx {
+  return {
+    id: crypto.randomUUID(),
+    user_uid: loan.user_uid,
+    student_index: loan.student_index,
+    item_tag: loan.item_tag,
+    action,
+    occurred_at,
+    device_id,
+    synced: 0,
+  }
+}
+
+export async function borrow(request: BorrowRequest, now = new Date().toISOString()): Promise<CirculationResult> {
+  const check = validateInput<BorrowRequest>(request, schemas.loan)
+  if (!check.valid) throw new ValidationError(check.errors!.join('; '), 'loan', request)
+  const { student_index, item_tag, days, minutes } = check.data!
+  const requested: LoanPeriod | undefined =
+    days !== undefined ? { amount: days, unit: 'DAYS' } : minutes !== undefined ? { amount: minutes, unit: 'MINUTES' } : undefined
+  const user_uid = check.data!.user_uid || null
+
+  return inTransaction('borrow', async () => {
+    const student = await db.students.where('index_number').equals(student_index).first()
+    if (!student) throw new ValidationError(`Student ${student_index} not found`, 'student_index', student_index)
+
+    const { blockThreshold } = loadFineSettings()
+    const owed = await fineManager.unpaidTotal(student.id!)
+    if (owed > blockThreshold) {
+      throw new ValidationError(
+        `${student.full_name} owes ${owed.toFixed(2)} in unpaid fines (limit ${blockThreshold.toFixed(2)}). Take a payment first.`,
+        'student_index',
+        student_index
+      )
+    }
+
+    const item = await db.items.get(item_tag)
+    const refusal = lendRefusal(item)
+    if (refusal) throw new ValidationError(refusal, 'item_tag', item_tag)
+    const held = await db.loans.where({ student_index, status: 'ACTIVE' as const }).toArray()
+    const heldItems = await db.items.bulkGet(held.map(l => l.item_tag))
+    const decision = evaluateBorrow(
+      await loadLoanRules(),
+      student,
+      item!,
+      heldItems.map(i => ({ item_type: i?.item_type ?? null })),
+      requested
+    )
+    if (decision.refusal) throw new ValidationError(decision.refusal, 'loan_rule', decision.rule.id)
+    const current = await activeLoanForItem(item_tag)
+    if (current) {
+      throw new ValidationError(`${item!.title} is already on loan to ${current.student_index ?? current.user_uid}`, 'item_tag', item_tag)
+    }
+    const hold = await reservationManager.holdFor(item_tag)
+    if (hold && hold.studentId !== student.id) {
+      throw new ValidationError(
+        `${item!.title} is on hold for another patron until ${hold.holdUntil?.slice(0, 10) ?? 'pickup'}`,
+        'item_tag',
+        item_tag
+      )
+    }
+    if (hold) await db.reservations.update(hold.id, { status: 'FULFILLED' })
+
+    const loan: Loan = {
+      id: crypto.randomUUID(),
+      student_index,
+      user_uid,
+      item_tag,
+      item_title: item!.title || check.data!.item_title || null,
+      borrowed_at: now,
+      due_at: dueFor(now, decision.period, decision.rule.dueByClose),
+      returned_at: null,
+      status: 'ACTIVE',
+      device_id: request.device_id,
+      synced: 0,
+      renewals: 0,
+    }
+    const tx = auditTx(loan, 'BORROW', now, request.device_id)
+    await db.loans.add(loan)
+    await db.transactions.add(tx)
+    await db.items.update(item_tag, { status: 'ON_LOAN', updated_at: now })
+    return { loan, tx }
+  })
+}
+
+// `return` is reserved, hence the name
+export async function returnLoan(loan_id: string, device_id: string, now = new Date().toISOString()): Promise<ReturnResult> {
+  return inTransaction('return', async () => {
+    const active = await db.loans.get(loan_id)
+    if (!active) throw new ValidationError('Loan not found', 'loan_id', loan_id)
+    if (active.status !== 'ACTIVE') throw new ValidationError(`${active.item_tag} was already returned`, 'loan_id', loan_id)
+
+    const loan: Loan = { ...active, status: 'RETURNED', returned_at: now }
+    const tx = auditTx(loan, 'RETURN', now, device_id)
+    await db.loans.put(loan)
+    await db.transactions.add(tx)
+    await db.items.update(loan.item_tag, { status: 'AVAILABLE', updated_at: now })
+    const fine = await fineManager.assessOverdueFine(active, new Date(now))
+    return { loan, tx, hold: await reservationManager.processBookReturn(loan.item_tag), fine }
+  })
+}
+
+// Why a loan can't be renewed, or null when it can
+export function renewalRefusal(loan: Loan, reserved: boolean, maxRenewals = MAX_RENEWALS): string | null {
+  if (loan.status !== 'ACTIVE') return `${loan.item_tag} is not on loan`
+  if ((loan.renewals ?? 0) >= maxRenewals) return `${loan.item_title ?? loan.item_tag} has been renewed the maximum ${maxRenewals} time(s)`
+  if (reserved) return `${loan.item_title ?? loan.item_tag} is reserved by another patron`
+  return null
+}
+
+// Writes a renewal inside the caller's transaction (used by renew and by the device queue import)
+export async function recordRenewal(active: Loan, due_at: string, occurred_at: string, device_id: string): Promise<CirculationResult> {
+  const loan: Loan = { ...active, due_at, renewals: (active.renewals ?? 0) + 1 }
+  const tx: Tx = { ...auditTx(loan, 'RENEW', occurred_at, device_id), due_before: active.due_at, due_after: due_at }
+  await db.loans.put(loan)
+  await db.transactions.add(tx)
+  return { loan, tx }
+}
+
+// Extends an active loan to `days` from now (by default the loan period of its rule),
+// never shortening it. Capped at the rule's renewals per loan and refused while someone
+// has the item reserved.
+export async function renew(
+  loan_id: string,
+  device_id: string,
+  days?: number,
+  now = new Date().toISOString()
+): Promise<CirculationResult> {
+  if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > 365)) {
+    throw new ValidationError('Renewal must be between 1 and 365 days', 'days', days)
+  }
+  return inTransaction('renew', async () => {
+    const active = await db.loans.get(loan_id)
+    if (!active) throw new ValidationError('Loan not found', 'loan_id', loan_id)
+    const rule = await loanRuleFor(active)
+    const refusal = renewalRefusal(active, await reservationManager.isReserved(active.item_tag), rule.maxRenewals)
+    if (refusal) throw new ValidationError(refusal, 'loan_id', loan_id)
+
+    const extended = dueFor(now, days !== undefined ? { amount: days, unit: 'DAYS' } : rulePeriod(rule), rule.dueByClose)
+    return recordRenewal(active, extended > active.due_at ? extended : active.due_at, now, device_id)
+  })
+}
+
+// What each outcome does to the loan and to the catalog copy. A damaged item came
+// back, so the loan gets a return time; lost and claimed-returned ones did not.
+const OUTCOMES: Record<LoanOutcome, { itemStatus: ItemStatus; returned: boolean; fineType: Fine['type'] | null }> = {
+  LOST: { itemStatus: 'LOST', returned: false, fineType: 'LOST' },
+  DAMAGED: { itemStatus: 'DAMAGED', returned: true, fineType: 'DAMAGE' },
+  CLAIMED_RETURNED: { itemStatus: 'MISSING', returned: false, fineType: null },
+}
+
+export interface OutcomeFine {
+  amount: number
+  description?: string
+  policyVersion?: number // set when the amount is the policy's replacement cost (see replacementCharge)
+}
+
+export interface OutcomeResult extends CirculationResult {
+  fine?: Fine
+}
+
+// Closes an active loan as lost, damaged or claimed returned. A replacement (lost) or
+// damage fine is raised through the FineManager once the loan is recorded.
+export async function closeLoan(
+  loan_id: string,
+  outcome: LoanOutcome,
+  device_id: string,
+  fine?: OutcomeFine,
+  now = new Date().toISOString()
+): Promise<OutcomeResult> {
+  const rule = OUTCOMES[outcome]
+  if (fine && (!rule.fineType || !Number.isFinite(fine.amount) || fine.amount <= 0)) {
+    throw new ValidationError(rule.fineType ? 'Fine amount must be greater than zero' : `No fine applies to ${outcome}`, 'fine', fine)
+  }
+  const { loan, tx, studentId } = await inTransaction('close loan', async () => {
+    const active = await db.loans.get(loan_id)
+    if (!active) throw new ValidationError('Loan not found', 'loan_id', loan_id)
+    if (active.status !== 'ACTIVE') throw new ValidationError(`${active.item_tag} is not on loan`, 'loan_id', loan_id)
+
+    const loan: Loan = { ...active, status: outcome, returned_at: rule.returned ? now : null }
+    const tx = auditTx(loan, outcome, now, device_id)
+    await db.loans.put(loan)
+    await db.transactions.add(tx)
+    await db.items.update(loan.item_tag, { status: rule.itemStatus, updated_at: now })
+    const student = loan.student_index ? await db.students.where('index_number').equals(loan.student_index).first() : undefined
+    return { loan, tx, studentId: student?.id }
+  })
+
+  if (!fine || !rule.fineType) return { loan, tx }
+  if (studentId === undefined) throw new ValidationError('Loan is recorded, but its student is unknown so no fine was raised', 'student_index')
+  const what = loan.item_title ?? loan.item_tag
+  const raised = await fineManager.createManualFine(
+    studentId,
+    loan.id,
+    loan.item_tag,
+    rule.fineType,
+    fine.amount,
+    fine.description || (rule.fineType === 'LOST' ? `Replacement of ${what}` : `Damage to ${what}`),
+    undefined,
+    fine.policyVersion
+  )
+  if (!raised.success) throw new DatabaseError(`Loan is recorded, but the fine was not: ${raised.error}`, 'fines')
+  return { loan, tx, fine: raised.fine }
+}
+
+// The most recent loan of a tag that ended lost or claimed returned, if any
+export async function missingLoanForItem(item_tag: string): Promise<Loan | undefined> {
+  const loans = await db.loans.where('item_tag').equals(item_tag).toArray()
+  const latest = loans.sort((a, b) => b.borrowed_at.localeCompare(a.borrowed_at))[0]
+  return latest && (latest.status === 'LOST' || latest.status === 'CLAIMED_RETURNED') ? latest : undefined
+}
+
+// A lost or claimed-returned item turned up: the loan becomes an ordinary return, the
+// copy is available again, and an unpaid replacement fine is waived.
+export async function checkInFound(
+  item_tag: string,
+  device_id: string,
+  actor = 'staff',
+  now = new Date().toISOString()
+): Promise<CheckInResult> {
+  const result = await inTransaction('check in found item', async () => {
+    const missing = await missingLoanForItem(item_tag)
+    if (!missing) throw new ValidationError(`${item_tag} is not recorded as lost or claimed returned`, 'item_tag', item_tag)
+
+    const loan: Loan = { ...missing, status: 'RETURNED', returned_at: now }
+    const tx = auditTx(loan, 'FOUND', now, device_id)
+    await db.loans.put(loan)
+    await db.transactions.add(tx)
+    await db.items.update(item_tag, { status: 'AVAILABLE', updated_at: now })
+    return { loan, tx, hold: await reservationManager.processBookReturn(item_tag) }
+  })
+
+  const unpaid = await fineManager.getUnpaidFines()
+  for (const f of unpaid.filter(f => f.loanId === result.loan.id && f.type === 'LOST')) {
+    await fineManager.waiveFine(f.id, 'Item found', actor)
+  }
+  return result
+}
+
+// Whole minutes a loan is past due at `at` (0 while it isn't), for short loans that
+// are late well before a day has passed
+export function minutesOverdue(loan: Pick<Loan, 'due_at'>, at = new Date()): number {
+  return Math.max(0, Math.floor((at.getTime() - new Date(loan.due_at).getTime()) / 60000))
+}
+
+// "45 min", "2 h 5 min", "3 day(s)"
+export function describeMinutes(minutes: number): string {
+  if (minutes >= 24 * 60) return `${Math.floor(minutes / (24 * 60))} day(s)`
+  const h = Math.floor(minutes / 60)
+  const m = minutes % 60
+  return h === 0 ? `${m} min` : m === 0 ? `${h} h` : `${h} h ${m} min`
+}
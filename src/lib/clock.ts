@@ -0,0 +1,123 @@
+import { db, ClockCheck } from './db'
+import { CommandResult } from './commands'
+import { DatabaseError } from './error-handling'
+
+// Device clock checks. Due dates sent with BORROW come from the browser clock, but
+// the firmware schedules reminders on its own RTC, which loses time after a power
+// cut. On connect the app reads the device clock (TIME), measures the drift against
+// the kiosk, and pushes the correct time and zone (TIME SET epoch | tz) once the
+// drift passes the threshold. Every check is kept per device in clockChecks.
+
+export const DRIFT_THRESHOLD_MS = 30000
+
+// The device reports whole seconds; allow for that plus a slow round trip when
+// deciding whether a correction took
+const VERIFY_SLACK_MS = 2000
+
+export interface ClockReading {
+  driftMs: number
+  roundTripMs: number
+  tz: string | null
+}
+
+export interface ClockSyncResult {
+  check: ClockCheck
+  trusted: boolean
+  message: string
+}
+
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+// Reads the device clock and compares it with the kiosk clock at the midpoint of the round trip
+export async function readDeviceClock(
+  send: (command: string) => Promise<CommandResult | null>,
+  now: () => number = Date.now
+): Promise<ClockReading | null> {
+  const sentAt = now()
+  const res = await send('TIME')
+  const receivedAt = now()
+  if (!res?.ok || !res.time) return null
+  const midpoint = (sentAt + receivedAt) / 2
+  return { driftMs: Math.round(res.time.epoch * 1000 - midpoint), roundTripMs: receivedAt - sentAt, tz: res.time.tz }
+}
+
+export function formatDrift(ms: number): string {
+  const abs = Math.abs(ms)
+  const text = abs < 1000 ? `${abs} ms` : abs < 120000 ? `${Math.round(abs / 1000)} s` : `${Math.round(abs / 60000)} min`
+  return ms === 0 ? 'in step' : `${text} ${ms > 0 ? 'ahead' : 'behind'}`
+}
+
+// Reads, corrects when needed, and records the check. A device whose clock can't be
+// read, or that still disagrees after TIME SET, is reported as untrusted.
+export async function syncDeviceClock(
+  send: (command: string) => Promise<CommandResult | null>,
+  device_id: string,
+  options: { thresholdMs?: number; timeZone?: string; now?: () => number } = {}
+): Promise<ClockSyncResult | null> {
+  const thresholdMs = options.thresholdMs ?? DRIFT_THRESHOLD_MS
+  const timeZone = options.timeZone ?? localTimeZone()
+  const now = options.now ?? Date.now
+
+  const reading = await readDeviceClock(send, now)
+  if (!reading) return null
+
+  const check: ClockCheck = {
+    id: crypto.randomUUID(),
+    device_id,
+    checked_at: new Date(now()).toISOString(),
+    drift_ms: reading.driftMs,
+    round_trip_ms: reading.roundTripMs,
+    device_tz: reading.tz,
+    corrected: false,
+    residual_ms: null,
+  }
+
+  let trusted = true
+  let message = `Device clock ${formatDrift(reading.driftMs)}.`
+  const wrongZone = !!reading.tz && reading.tz !== timeZone
+  if (Math.abs(reading.driftMs) > thresholdMs || wrongZone) {
+    const set = await send(`TIME SET ${Math.round(now() / 1000)} | ${timeZone}`)
+    const after = set?.ok ? await readDeviceClock(send, now) : null
+    check.residual_ms = after?.driftMs ?? null
+    check.corrected = !!after && Math.abs(after.driftMs) <= VERIFY_SLACK_MS + after.roundTripMs
+      && (!after.tz || after.tz === timeZone)
+    trusted = check.corrected
+    message = check.corrected
+      ? `Device clock was ${formatDrift(reading.driftMs)}${wrongZone ? ` (zone ${reading.tz})` : ''}; set to ${timeZone} kiosk time.`
+      : `Device clock is ${formatDrift(after?.driftMs ?? reading.driftMs)}${wrongZone ? ` (zone ${after?.tz ?? reading.tz})` : ''} and could not be corrected${set?.error ? ` (${set.error})` : ''}.`
+  }
+
+  try {
+    await db.clockChecks.add(check)
+  } catch (error) {
+    throw new DatabaseError(
+      `Could not record clock check: ${error instanceof Error ? error.message : String(error)}`,
+      'clockChecks'
+    )
+  }
+  return { check, trusted, message }
+}
+
+// Most recent first
+export async function clockHistory(device_id: string, limit = 20): Promise<ClockCheck[]> {
+  return db.clockChecks
+    .where('[device_id+checked_at]')
+    .between([device_id, ''], [device_id, '\uFFFF'])
+    .reverse()
+    .limit(limit)
+    .toArray()
+}
+
+// A device clock can't be trusted when its last check found it off by more than the
+// threshold, or set to another zone, and a correction was not attempted or did not take.
+export function isClockTrusted(
+  check: ClockCheck | undefined,
+  thresholdMs = DRIFT_THRESHOLD_MS,
+  timeZone = localTimeZone()
+): boolean {
+  if (!check || check.corrected) return true
+  const wrongZone = !!check.device_tz && check.device_tz !== timeZone
+  return check.residual_ms === null && Math.abs(check.drift_ms) <= thresholdMs && !wrongZone
+}
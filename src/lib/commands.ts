@@ -0,0 +1,166 @@
+import { DeviceEvent, DeviceInfo, DeviceQueueRecord } from './protocol'
+import { validateSerialCommand } from './validation'
+
+// Request/response channel on top of the line protocol. The firmware handles one
+// command at a time, so the queue keeps a single command in flight and treats the
+// next matching reply as its answer:
+//  STATUS -> the next STATUS line
+//  SCAN   -> SCAN_ARMED (or an ERR)
+//  QUEUE  -> QUEUED lines up to QUEUE_END
+//  READ TAG -> TAG_DATA (or an ERR)
+//  HELLO  -> HELLO (1.x firmware answers ERR or not at all)
+//  TIME   -> TIME (TIME SET is acknowledged like any other command)
+//  others -> OK / ERR
+
+export interface CommandResult {
+  ok: boolean
+  command: string
+  reply?: string
+  error?: string
+  timedOut?: boolean
+  queue?: DeviceQueueRecord[] // QUEUE only
+  tagData?: { tag: string; owner: string | null } // READ TAG only
+  info?: DeviceInfo // HELLO only
+  time?: { epoch: number; tz: string | null } // TIME only
+}
+
+export interface SendOptions {
+  timeoutMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 3000
+
+// Commands the firmware needs longer for (SMS fan-out, modem round-trips)
+const TIMEOUTS: Record<string, number> = {
+  'REMIND ALL': 20000,
+  'REMIND ONE': 10000,
+  QUEUE: 10000,
+  // Both wait for a label to be placed on the pad
+  'WRITE TAG': 15000,
+  'READ TAG': 10000,
+  // Old firmware ignores HELLO; don't hold up the connection waiting for it
+  HELLO: 2000,
+}
+
+type Expectation = 'ack' | 'status' | 'scan' | 'queue' | 'tag' | 'hello' | 'time'
+
+function expectationFor(command: string): Expectation {
+  if (command === 'STATUS') return 'status'
+  if (command === 'SCAN') return 'scan'
+  if (command === 'QUEUE') return 'queue'
+  if (command === 'READ TAG') return 'tag'
+  if (command === 'HELLO') return 'hello'
+  if (command === 'TIME') return 'time'
+  return 'ack'
+}
+
+function timeoutFor(command: string): number {
+  const key = Object.keys(TIMEOUTS).find(k => command.toUpperCase().startsWith(k))
+  return key ? TIMEOUTS[key] : DEFAULT_TIMEOUT_MS
+}
+
+interface Pending {
+  command: string
+  expects: Expectation
+  timeoutMs: number
+  records: DeviceQueueRecord[]
+  resolve: (result: CommandResult) => void
+}
+
+export function createCommandQueue(write: (line: string) => Promise<void>) {
+  const queue: Pending[] = []
+  let inFlight: Pending | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  function settle(result: Omit<CommandResult, 'command'>) {
+    if (!inFlight) return
+    if (timer) clearTimeout(timer)
+    timer = null
+    const done = inFlight
+    inFlight = null
+    done.resolve({ command: done.command, ...result })
+    next()
+  }
+
+  async function next() {
+    if (inFlight || queue.length === 0) return
+    inFlight = queue.shift()!
+    const current = inFlight
+    timer = setTimeout(() => {
+      if (inFlight === current) {
+        settle({ ok: false, timedOut: true, error: `No reply within ${current.timeoutMs} ms` })
+      }
+    }, current.timeoutMs)
+    try {
+      await write(current.command)
+    } catch (error) {
+      if (inFlight === current) {
+        settle({ ok: false, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+  }
+
+  return {
+    send(command: string, options: SendOptions = {}): Promise<CommandResult> {
+      const check = validateSerialCommand(command)
+      if (!check.valid) {
+        return Promise.resolve({ ok: false, command, error: check.error })
+      }
+      const line = command.trim()
+      return new Promise(resolve => {
+        queue.push({
+          command: line,
+          expects: expectationFor(check.sanitized!),
+          timeoutMs: options.timeoutMs ?? timeoutFor(line),
+          records: [],
+          resolve,
+        })
+        next()
+      })
+    },
+
+    // Feed every parsed device event through here.
+    handleEvent(evt: DeviceEvent) {
+      if (!inFlight) return
+      if (evt.event === 'ack') {
+        settle(
+          evt.ok
+            ? { ok: true, reply: evt.detail }
+            : { ok: false, reply: evt.detail, error: evt.detail || 'ERR' }
+        )
+      } else if (evt.event === 'status' && inFlight.expects === 'status') {
+        settle({ ok: true })
+      } else if (evt.event === 'scan' && evt.state === 'armed' && inFlight.expects === 'scan') {
+        settle({ ok: true })
+      } else if (evt.event === 'time' && inFlight.expects === 'time') {
+        settle({ ok: true, time: { epoch: evt.epoch, tz: evt.tz } })
+      } else if (evt.event === 'hello' && inFlight.expects === 'hello') {
+        settle({ ok: true, info: evt.info })
+      } else if (evt.event === 'tag_data' && inFlight.expects === 'tag') {
+        settle({ ok: true, tagData: { tag: evt.tag, owner: evt.owner } })
+      } else if (evt.event === 'queued' && inFlight.expects === 'queue') {
+        inFlight.records.push(evt.record)
+      } else if (evt.event === 'queue_end' && inFlight.expects === 'queue') {
+        const records = inFlight.records
+        settle(
+          records.length === evt.count
+            ? { ok: true, queue: records }
+            : { ok: false, queue: records, error: `Queue dump incomplete (${records.length} of ${evt.count} records)` }
+        )
+      }
+    },
+
+    // Fail everything outstanding, e.g. when the port goes away.
+    reset(reason: string) {
+      const waiting = queue.splice(0)
+      settle({ ok: false, error: reason })
+      waiting.forEach(p => p.resolve({ ok: false, command: p.command, error: reason }))
+    },
+
+    get pending() {
+      return queue.length + (inFlight ? 1 : 0)
+    },
+  }
+}
+
+export type CommandQueue = ReturnType<typeof createCommandQueue>
@@ -0,0 +1,100 @@
+import { Student } from './db'
+import { schemas, validateInput } from './validation'
+import { UidProfile, canonicalizeUid } from './uid'
+
+// Student roster import. Campus exports are CSV with a header row; card numbers
+// arrive in whatever encoding the ID office uses, so they go through the chosen
+// UID profile before they are stored.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      if (row.some(f => f.trim())) rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  row.push(field)
+  if (row.some(f => f.trim())) rows.push(row)
+  return rows
+}
+
+const COLUMN_ALIASES: Record<string, keyof Student> = {
+  index_number: 'index_number',
+  index: 'index_number',
+  student_id: 'index_number',
+  full_name: 'full_name',
+  name: 'full_name',
+  program: 'program',
+  level: 'level',
+  phone: 'phone',
+  card_uid: 'card_uid',
+  card: 'card_uid',
+  uid: 'card_uid',
+}
+
+export interface StudentCsvResult {
+  students: Student[]
+  errors: string[] // "Row 3: ..." per rejected row
+}
+
+export function parseStudentsCsv(text: string, uidProfile?: UidProfile): StudentCsvResult {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return { students: [], errors: ['File is empty'] }
+
+  const columns = header.map(h => COLUMN_ALIASES[h.trim().toLowerCase().replace(/\s+/g, '_')])
+  if (!columns.includes('index_number') || !columns.includes('full_name')) {
+    return { students: [], errors: ['Header must include index_number and full_name columns'] }
+  }
+
+  const students: Student[] = []
+  const errors: string[] = []
+  const now = new Date().toISOString()
+  rows.forEach((cells, i) => {
+    const record: Record<string, string> = {}
+    columns.forEach((col, c) => {
+      if (col && cells[c] !== undefined) record[col] = cells[c].trim()
+    })
+    if (record.card_uid) record.card_uid = canonicalizeUid(record.card_uid, uidProfile)
+
+    const result = validateInput<Student>(record, schemas.student)
+    if (!result.valid) {
+      errors.push(`Row ${i + 2}: ${result.errors!.join('; ')}`)
+      return
+    }
+    const s = result.data!
+    students.push({
+      index_number: s.index_number,
+      full_name: s.full_name,
+      program: s.program || null,
+      level: s.level || null,
+      phone: s.phone || null,
+      card_uid: s.card_uid || null,
+      created_at: now,
+    })
+  })
+  return { students, errors }
+}
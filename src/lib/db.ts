@@ -1,17 +1,24 @@
 import Dexie, { Table } from 'dexie'
 import { exportDB, importInto } from 'dexie-export-import'
+import { UidProfile, uidLookupKeys, uidInterpretations, uidTailMatches } from './uid'
 
 export interface Tx {
   id: string
   user_uid: string | null
   student_index: string | null
   item_tag: string
-  action: 'BORROW' | 'RETURN'
+  action: 'BORROW' | 'RETURN' | 'RENEW' | LoanOutcome | 'FOUND'
   occurred_at: string
   device_id: string
   synced?: number
+  // RENEW only: the due date before and after the renewal
+  due_before?: string | null
+  due_after?: string | null
 }
 
+// How a loan can end other than a plain return
+export type LoanOutcome = 'LOST' | 'DAMAGED' | 'CLAIMED_RETURNED'
+
 export interface Student {
   id?: number
   index_number: string
@@ -32,15 +39,159 @@ export interface Loan {
   borrowed_at: string
   due_at: string
   returned_at: string | null
-  status: 'ACTIVE' | 'RETURNED'
+  status: 'ACTIVE' | 'RETURNED' | LoanOutcome
   device_id: string
   synced?: number
+  renewals?: number // times renewed; missing on loans made before renewals existed
+}
+
+// A device queue record that couldn't be applied automatically; kept until staff review it
+export interface DeviceConflict {
+  id: string
+  device_id: string
+  seq: number
+  op: 'BORROW' | 'RETURN' | 'RENEW'
+  card_uid: string
+  item_tag: string
+  due_date: string | null
+  occurred_at: string
+  reason: string
+  status: 'OPEN' | 'RESOLVED'
+  created_at: string
+  resolved_at: string | null
+}
+
+// A label encoded from the Tag Writer; the tag is verified by reading it back first
+export interface TaggedItem {
+  tag: string
+  title: string | null
+  owner_code: string | null
+  device_id: string
+  written_at: string
+}
+
+// A patron waiting for an item (see ReservationManager in ./analytics)
+export interface BookReservation {
+  id: string
+  studentId: number
+  itemTag: string
+  itemTitle?: string
+  reservedAt: string
+  expiresAt: string
+  status: 'ACTIVE' | 'READY' | 'FULFILLED' | 'CANCELLED' | 'EXPIRED' // READY: on the hold shelf
+  notificationsSent: number
+  priority: number // Higher priority for premium users, etc.
+  holdUntil?: string | null // pickup deadline while READY
+}
+
+// A charge against a student (see FineManager in ./analytics). One OVERDUE fine per
+// loan, grown in place as it accrues; payments and waivers keep who recorded them.
+export interface Fine {
+  id: string
+  studentId: number
+  loanId: string
+  itemTag: string
+  type: 'OVERDUE' | 'DAMAGE' | 'LOST' | 'OTHER'
+  amount: number
+  currency: string
+  description: string
+  issuedAt: string
+  dueAt: string
+  paidAt?: string
+  status: 'PENDING' | 'PAID' | 'WAIVED' | 'PARTIAL'
+  paidAmount?: number
+  payments?: FinePayment[]
+  waivedBy?: string
+  waivedReason?: string
+  policyVersion?: number // the fine policy that computed it; manual amounts have none
+}
+
+// How an overdue or lost item is charged. itemType / patronLevel null match anything;
+// the most specific rule wins (see ./fine-policy)
+export interface FineRule {
+  itemType: string | null
+  patronLevel: string | null
+  accrual: 'DAILY' | 'HOURLY'
+  rate: number // per day or hour overdue
+  graceUnits: number // days or hours overdue before charging starts
+  cap: number | null // most one loan can be charged for lateness
+  replacementCost: number | null // suggested fine when the item is lost
+}
+
+// A saved, immutable version of the fine rules; editing saves the next version
+export interface FinePolicy {
+  version: number
+  currency: string
+  rules: FineRule[]
+  closedWeekdays?: number[] // versions saved before the library calendar: weekdays (0 = Sunday) they never charged
+  created_at: string
+  created_by: string
+}
+
+export type LoanUnit = 'DAYS' | 'HOURS' | 'MINUTES'
+
+// Circulation limits for a group of patrons and an item type; program / level /
+// itemType null match anything, and the most specific rule wins (see ./loan-rules)
+export interface LoanRule {
+  id: string
+  program: string | null
+  level: string | null
+  itemType: string | null
+  maxLoans: number // concurrent loans of this item type (of any item when itemType is null)
+  loanPeriod: number // in loanUnit; also the length of each renewal
+  loanUnit: LoanUnit
+  dueByClose: boolean // hour/minute loans fall due by closing time at the latest
+  maxRenewals: number
+  mayLeave: boolean // false: for use in the library only, never lent out
+}
+
+export interface FinePayment {
+  amount: number
+  paidAt: string
+  receivedBy: string
+}
+
+export type ItemStatus = 'AVAILABLE' | 'ON_LOAN' | 'LOST' | 'DAMAGED' | 'MISSING' | 'WITHDRAWN'
+
+// A catalogued copy, keyed by the tag on its label
+export interface Item {
+  tag: string
+  title: string
+  author: string | null
+  isbn: string | null
+  call_number: string | null
+  item_type: string // BOOK, REFERENCE, PERIODICAL, MEDIA, ...
+  copy_number: number | null
+  location: string | null
+  status: ItemStatus
+  created_at: string
+  updated_at: string
+}
+
+// One reading of a device clock against the kiosk's, kept as drift history
+export interface ClockCheck {
+  id: string
+  device_id: string
+  checked_at: string
+  drift_ms: number // device minus kiosk, before any correction
+  round_trip_ms: number
+  device_tz: string | null
+  corrected: boolean // TIME SET was sent and the re-read agreed
+  residual_ms: number | null // drift after the correction, when one was attempted
 }
 
 class DB extends Dexie {
   transactions!: Table<Tx, string>
   students!: Table<Student, number>
   loans!: Table<Loan, string>
+  deviceConflicts!: Table<DeviceConflict, string>
+  taggedItems!: Table<TaggedItem, string>
+  clockChecks!: Table<ClockCheck, string>
+  items!: Table<Item, string>
+  reservations!: Table<BookReservation, string>
+  fines!: Table<Fine, string>
+  finePolicies!: Table<FinePolicy, number>
+  loanRules!: Table<LoanRule, string>
 
   constructor() {
     super('library_web')
@@ -57,6 +208,79 @@ class DB extends Dexie {
       students: '++id, index_number, card_uid, created_at',
       loans: 'id, status, due_at, student_index, user_uid, item_tag'
     })
+
+    // v3: device queue reconciliation
+    this.version(3).stores({
+      deviceConflicts: 'id, status, device_id, created_at'
+    })
+
+    // v4: labels encoded from the Tag Writer
+    this.version(4).stores({
+      taggedItems: 'tag, written_at'
+    })
+
+    // v5: device clock drift history
+    this.version(5).stores({
+      clockChecks: 'id, device_id, checked_at, [device_id+checked_at]'
+    })
+
+    // v6: item catalog, backfilled from the tags loans and encoded labels already know
+    this.version(6)
+      .stores({
+        items: 'tag, status, item_type, isbn, title'
+      })
+      .upgrade(async tx => {
+        const loans: Loan[] = await tx.table('loans').toArray()
+        const labels: TaggedItem[] = await tx.table('taggedItems').toArray()
+        await tx.table('items').bulkPut(itemsFromHistory(loans, labels, []))
+      })
+
+    // v7: reservations, until now kept in memory only
+    this.version(7).stores({
+      reservations: 'id, itemTag, studentId, status, [itemTag+status]'
+    })
+
+    // v8: fines, until now kept in memory only
+    this.version(8).stores({
+      fines: 'id, studentId, loanId, status, [loanId+type]'
+    })
+
+    // v9: versioned fine policies
+    this.version(9).stores({
+      finePolicies: 'version'
+    })
+
+    // v10: circulation rules by patron group and item type
+    this.version(10).stores({
+      loanRules: 'id'
+    })
+
+    // v11: loan periods in days, hours or minutes
+    this.version(11)
+      .stores({
+        loanRules: 'id'
+      })
+      .upgrade(tx =>
+        tx.table('loanRules').toCollection().modify(rule => {
+          rule.loanPeriod = rule.loanDays
+          rule.loanUnit = 'DAYS'
+          rule.dueByClose = false
+          delete rule.loanDays
+        })
+      )
+
+    // v12: closed days come from the library calendar; versions that skipped their own
+    // closed weekdays keep them, the switch itself is gone
+    this.version(12)
+      .stores({
+        finePolicies: 'version'
+      })
+      .upgrade(tx =>
+        tx.table('finePolicies').toCollection().modify(policy => {
+          if (!policy.skipClosedDays || !policy.closedWeekdays?.length) delete policy.closedWeekdays
+          delete policy.skipClosedDays
+        })
+      )
   }
 }
 
@@ -92,12 +316,44 @@ export async function stats() {
 }
 
 // ---- Queries ----
+// Student holding a card, trying the UID's alternative encodings (see ./uid) before giving up
+export async function findStudentByCard(uid: string, profile?: UidProfile): Promise<Student | undefined> {
+  const keys = uidLookupKeys(uid, profile)
+  const found = await db.students.where('card_uid').anyOfIgnoreCase(keys).toArray()
+  if (found.length) {
+    const rank = (s: Student) => keys.indexOf((s.card_uid ?? '').toUpperCase())
+    return found.sort((a, b) => rank(a) - rank(b))[0]
+  }
+  const short = uidInterpretations(uid, profile).filter(b => b.length === 3)
+  if (short.length === 0) return undefined
+  return db.students.filter(s => !!s.card_uid && short.some(b => uidTailMatches(s.card_uid!, b))).first()
+}
+
+// Adds new students and updates existing ones, matched by index number
+export async function upsertStudents(list: Student[]): Promise<{ added: number; updated: number }> {
+  let added = 0
+  let updated = 0
+  await db.transaction('rw', db.students, async () => {
+    for (const s of list) {
+      const existing = await db.students.where('index_number').equals(s.index_number).first()
+      if (existing) {
+        await db.students.put({ ...existing, ...s, id: existing.id, created_at: existing.created_at })
+        updated++
+      } else {
+        await db.students.add(s)
+        added++
+      }
+    }
+  })
+  return { added, updated }
+}
+
 export async function activeLoansForStudent(indexOrUid: { index_number?: string; card_uid?: string }) {
   let idx: string | null = null
   if (indexOrUid.index_number) {
     idx = indexOrUid.index_number
   } else if (indexOrUid.card_uid) {
-    const stu = await db.students.where('card_uid').equals(indexOrUid.card_uid).first()
+    const stu = await findStudentByCard(indexOrUid.card_uid)
     idx = stu?.index_number ?? null
   }
   if (!idx) return []
@@ -108,6 +364,60 @@ export async function countActiveLoans(index_number: string) {
   return db.loans.where({ status: 'ACTIVE' as const }).filter(l => l.student_index === index_number).count()
 }
 
+export async function activeLoanForItem(item_tag: string) {
+  return db.loans.where({ item_tag, status: 'ACTIVE' as const }).first()
+}
+
+// Best-known title for a tag: the catalog's, else the most recent loan that recorded
+// one, else the title given when its label was encoded
+export async function lookupItemTitle(item_tag: string): Promise<string | null> {
+  const item = await db.items.get(item_tag)
+  if (item) return item.title
+  const loans = await db.loans.where('item_tag').equals(item_tag).toArray()
+  const titled = loans
+    .filter(l => l.item_title)
+    .sort((a, b) => b.borrowed_at.localeCompare(a.borrowed_at))
+  if (titled[0]) return titled[0].item_title
+  return (await db.taggedItems.get(item_tag))?.title ?? null
+}
+
+// Item tags seen anywhere locally, for picking an existing item
+export async function knownItemTags(): Promise<string[]> {
+  const loanTags = (await db.loans.orderBy('item_tag').uniqueKeys()) as string[]
+  const labelTags = (await db.taggedItems.toCollection().primaryKeys()) as string[]
+  const itemTags = (await db.items.toCollection().primaryKeys()) as string[]
+  return Array.from(new Set([...itemTags, ...loanTags, ...labelTags])).sort()
+}
+
+// Catalog entries for tags seen on loans or encoded labels but not yet in `existing`.
+// Titles come from the newest loan that recorded one; status from any active loan.
+export function itemsFromHistory(loans: Loan[], labels: TaggedItem[], existing: string[], now = new Date().toISOString()): Item[] {
+  const known = new Set(existing)
+  const found = new Map<string, { title: string | null; titledAt: string; onLoan: boolean }>()
+  const note = (tag: string, title: string | null, at: string, onLoan: boolean) => {
+    if (known.has(tag)) return
+    const cur = found.get(tag) ?? { title: null, titledAt: '', onLoan: false }
+    if (title && at >= cur.titledAt) Object.assign(cur, { title, titledAt: at })
+    cur.onLoan = cur.onLoan || onLoan
+    found.set(tag, cur)
+  }
+  labels.forEach(l => note(l.tag, l.title, '', false))
+  loans.forEach(l => note(l.item_tag, l.item_title, l.borrowed_at, l.status === 'ACTIVE'))
+  return Array.from(found, ([tag, f]) => ({
+    tag,
+    title: f.title ?? tag,
+    author: null,
+    isbn: null,
+    call_number: null,
+    item_type: 'BOOK',
+    copy_number: null,
+    location: null,
+    status: f.onLoan ? 'ON_LOAN' : 'AVAILABLE',
+    created_at: now,
+    updated_at: now,
+  }))
+}
+
 export function addDays(dateIso: string, days: number) {
   const d = new Date(dateIso)
   d.setDate(d.getDate() + days)
@@ -1,12 +1,11 @@
-import { db, Loan, Tx, addDays, Student } from './db';
+import { db, Loan, Tx, addDays, Student, Item } from './db';
 
 // This function will be called once on app startup to ensure there's some data.
+// It only seeds a fresh database: anything recorded at the desk is left alone.
 export async function seedInitialData() {
 
-    // Clear existing data
-    await db.transactions.clear();
-    await db.students.clear();
-    await db.loans.clear();
+    const seeded = [db.students, db.loans, db.transactions, db.items];
+    if ((await Promise.all(seeded.map(t => t.count()))).some(n => n > 0)) return;
 
     console.log("Seeding initial database data...");
 
@@ -18,6 +17,18 @@ export async function seedInitialData() {
     ];
     await db.students.bulkAdd(studentsToCreate);
 
+    // Catalog the demo books
+    const stamp = new Date().toISOString();
+    const item = (tag: string, title: string, author: string, call_number: string, status: Item['status']): Item => ({
+        tag, title, author, isbn: null, call_number, item_type: 'BOOK', copy_number: 1,
+        location: 'Main Stacks', status, created_at: stamp, updated_at: stamp
+    });
+    await db.items.bulkAdd([
+        item('BOOK-CS101', 'Intro to Algorithms', 'Cormen et al.', 'QA76.6 .C662', 'ON_LOAN'),
+        item('BOOK-ENG202', 'Mechanics of Materials', 'Hibbeler', 'TA405 .H47', 'ON_LOAN'),
+        item('BOOK-CS205', 'Data Structures', 'Weiss', 'QA76.9 .D35', 'AVAILABLE'),
+    ]);
+
     // Create a few loans
     const now = new Date();
     const loansToCreate: Loan[] = [
@@ -0,0 +1,281 @@
+import type { ReaderTransport, TransportHandlers } from './transports'
+import type { DeviceQueueRecord } from './protocol'
+import { compareVersions } from './firmware'
+
+// Software stand-in for the ESP32 firmware, for training and demos without hardware.
+// Speaks the same line protocol as the real device (see ./protocol and ./commands):
+//  TIME                        -> TIME|Epoch:..|Tz:..
+//  TIME SET <epoch> | <tz>     -> OK, setting the clock
+//  HELLO                       -> HELLO|Model:..|Fw:..|Cmds:.. (ERR Unknown command on 1.x)
+//  STATUS                      -> STATUS|SMS:..|Students:..|ActiveBorrows:..|QueuePending:..|Auto:..|IntervalMin:..
+//  SCAN                        -> SCAN_ARMED, then CARD_SCANNED + SCAN_DONE on the next tap
+//  SMS ON|OFF, AUTO ON <m>|OFF -> OK
+//  SET STUDENT uid | name | phone
+//  BORROW uid | tag | due | date, RETURN uid | tag
+//  RENEW uid | tag | due       -> OK, moving the borrow's due date (2.2+)
+//  REMIND ONE uid | tag, REMIND ALL -> OK, or ERR when SMS is off
+//  QUEUE                       -> QUEUED|Seq:..|Op:..|UID:..|Tag:..|Due:..|At:.. lines, then QUEUE_END|Count:n
+//  QUEUE CLEAR <seq>           -> OK, dropping records up to and including seq
+//  WRITE ARM                   -> OK, or ERR No label when the pad is empty
+//  WRITE TAG tag | owner       -> OK once the armed label is written
+//  READ TAG                    -> TAG_DATA|Tag:..|Owner:.., or ERR Blank label
+
+interface DeviceBorrow {
+  uid: string
+  tag: string
+  dueDate: string
+  borrowedDate: string
+}
+
+// Commands each emulated firmware revision reports (see ./firmware)
+const FIRMWARE_COMMANDS: Array<[string, string[]]> = [
+  ['2.2.0', ['RENEW']],
+  ['2.1.0', ['WRITE ARM', 'WRITE TAG', 'READ TAG']],
+  ['2.0.0', ['HELLO', 'QUEUE', 'TIME']],
+  ['1.0.0', ['STATUS', 'SCAN', 'SMS', 'AUTO', 'SET STUDENT', 'BORROW', 'RETURN', 'REMIND']],
+]
+
+export class VirtualDevice {
+  // Set to '1.4.2', '2.0.0' or '2.1.0' to rehearse the older revisions still in the field
+  firmware = '2.2.0'
+  // How far the device clock is ahead of the host's (negative: behind), and its zone
+  clockOffsetMs = 0
+  timeZone = 'UTC'
+  sms = true
+  auto = false
+  intervalMin = 0
+  armed = false
+  writeArmed = false
+  // The label on the pad: null is no label, an empty tag is a blank one
+  label: { tag: string; owner: string } | null = null
+  readonly queue: DeviceQueueRecord[] = []
+  private nextSeq = 1
+  readonly students = new Map<string, { name: string; phone: string }>()
+  readonly borrows: DeviceBorrow[] = []
+
+  constructor(
+    private output: (line: string) => void,
+    private latencyMs = 25
+  ) {}
+
+  boot() {
+    this.emit('RFID-LIB virtual firmware ready')
+  }
+
+  // Simulates a card resting on the pad.
+  tapCard(uid: string) {
+    this.emit(`CARD_SCANNED:${uid.toUpperCase()}`)
+    if (this.armed) {
+      this.armed = false
+      this.emit('SCAN_DONE')
+    }
+  }
+
+  tapItem(tag: string) {
+    this.emit(`ITEM_SCANNED:${tag}`)
+  }
+
+  // Simulates a label resting on the pad; blank unless it was encoded before
+  placeLabel(tag = '', owner = '') {
+    this.label = { tag, owner }
+  }
+
+  removeLabel() {
+    this.label = null
+    this.writeArmed = false
+  }
+
+  // Commands this firmware revision understands
+  get commands(): string[] {
+    return FIRMWARE_COMMANDS.filter(([since]) => compareVersions(this.firmware, since) >= 0)
+      .reverse()
+      .flatMap(([, cmds]) => cmds)
+  }
+
+  get queuePending() {
+    return this.queue.length
+  }
+
+  // A loan, return or renewal handled at the pad while no kiosk was listening
+  recordOffline(op: DeviceQueueRecord['op'], uid: string, tag: string, due?: string, at = new Date().toISOString()) {
+    if (op === 'BORROW') this.borrows.push({ uid: uid.toUpperCase(), tag, dueDate: due ?? '', borrowedDate: at.slice(0, 10) })
+    else if (op === 'RENEW') {
+      const borrow = this.borrows.find(b => b.uid === uid.toUpperCase() && b.tag === tag)
+      if (borrow && due) borrow.dueDate = due
+    } else {
+      const idx = this.borrows.findIndex(b => b.uid === uid.toUpperCase() && b.tag === tag)
+      if (idx >= 0) this.borrows.splice(idx, 1)
+    }
+    this.enqueue(op, uid, tag, due, at)
+  }
+
+  receive(line: string) {
+    const text = line.trim()
+    const upper = text.toUpperCase()
+    const args = (prefix: string) =>
+      text
+        .slice(prefix.length)
+        .split('|')
+        .map(a => a.trim())
+
+    if (!this.commands.some(c => upper === c || upper.startsWith(c + ' '))) return this.emit('ERR Unknown command')
+    if (upper === 'HELLO') {
+      return this.emit(`HELLO|Model:RFID-LIB Virtual|Fw:${this.firmware}|Cmds:${this.commands.join(',')}`)
+    }
+    if (upper === 'STATUS') return this.emit(this.statusLine())
+    if (upper === 'TIME') {
+      return this.emit(`TIME|Epoch:${Math.floor((Date.now() + this.clockOffsetMs) / 1000)}|Tz:${this.timeZone}`)
+    }
+    if (upper.startsWith('TIME SET ')) {
+      const [epoch, tz] = args('TIME SET ')
+      const seconds = Number(epoch)
+      if (!epoch || !Number.isFinite(seconds)) return this.emit('ERR Usage: TIME SET epoch | tz')
+      this.clockOffsetMs = seconds * 1000 - Date.now()
+      if (tz) this.timeZone = tz
+      return this.emit('OK')
+    }
+    if (upper === 'SCAN') {
+      this.armed = true
+      return this.emit('SCAN_ARMED')
+    }
+    if (upper === 'SMS ON' || upper === 'SMS OFF') {
+      this.sms = upper === 'SMS ON'
+      return this.emit('OK')
+    }
+    if (upper.startsWith('AUTO ON')) {
+      const minutes = parseInt(text.slice('AUTO ON'.length).trim() || '0', 10)
+      if (Number.isNaN(minutes) || minutes < 0) return this.emit('ERR Bad interval')
+      this.auto = true
+      this.intervalMin = minutes
+      return this.emit('OK')
+    }
+    if (upper === 'AUTO OFF') {
+      this.auto = false
+      this.intervalMin = 0
+      return this.emit('OK')
+    }
+    if (upper.startsWith('SET STUDENT ')) {
+      const [uid, name = '', phone = ''] = args('SET STUDENT ')
+      if (!uid) return this.emit('ERR Missing UID')
+      this.students.set(uid.toUpperCase(), { name, phone })
+      return this.emit('OK')
+    }
+    if (upper.startsWith('BORROW ')) {
+      const [uid, tag, dueDate, borrowedDate] = args('BORROW ')
+      if (!uid || !tag || !dueDate) return this.emit('ERR Usage: BORROW uid | tag | due | date')
+      if (!this.students.has(uid.toUpperCase())) return this.emit('ERR Unknown student')
+      this.borrows.push({ uid: uid.toUpperCase(), tag, dueDate, borrowedDate: borrowedDate || '' })
+      this.enqueue('BORROW', uid, tag, dueDate)
+      return this.emit('OK')
+    }
+    if (upper.startsWith('RETURN ')) {
+      const [uid, tag] = args('RETURN ')
+      const idx = this.borrows.findIndex(b => b.uid === uid?.toUpperCase() && b.tag === tag)
+      if (idx < 0) return this.emit('ERR No such borrow')
+      this.borrows.splice(idx, 1)
+      this.enqueue('RETURN', uid, tag)
+      return this.emit('OK')
+    }
+    if (upper.startsWith('RENEW ')) {
+      const [uid, tag, dueDate] = args('RENEW ')
+      if (!uid || !tag || !dueDate) return this.emit('ERR Usage: RENEW uid | tag | due')
+      const borrow = this.borrows.find(b => b.uid === uid.toUpperCase() && b.tag === tag)
+      if (!borrow) return this.emit('ERR No such borrow')
+      borrow.dueDate = dueDate
+      this.enqueue('RENEW', uid, tag, dueDate)
+      return this.emit('OK')
+    }
+    if (upper === 'QUEUE') {
+      this.queue.forEach(r => this.emit(queuedLine(r)))
+      return this.emit(`QUEUE_END|Count:${this.queue.length}`)
+    }
+    if (upper.startsWith('QUEUE CLEAR')) {
+      const upTo = parseInt(text.slice('QUEUE CLEAR'.length).trim(), 10)
+      if (Number.isNaN(upTo)) return this.emit('ERR Usage: QUEUE CLEAR seq')
+      this.queue.splice(0, this.queue.filter(r => r.seq <= upTo).length)
+      return this.emit('OK')
+    }
+    if (upper === 'WRITE ARM') {
+      if (!this.label) return this.emit('ERR No label')
+      this.writeArmed = true
+      return this.emit('OK')
+    }
+    if (upper.startsWith('WRITE TAG ')) {
+      const [tag, owner = ''] = args('WRITE TAG ')
+      if (!tag) return this.emit('ERR Usage: WRITE TAG tag | owner')
+      if (!this.writeArmed || !this.label) return this.emit('ERR Not armed')
+      this.writeArmed = false
+      this.label = { tag, owner }
+      return this.emit('OK')
+    }
+    if (upper === 'READ TAG') {
+      if (!this.label) return this.emit('ERR No label')
+      if (!this.label.tag) return this.emit('ERR Blank label')
+      const parts = ['TAG_DATA', `Tag:${this.label.tag}`]
+      if (this.label.owner) parts.push(`Owner:${this.label.owner}`)
+      return this.emit(parts.join('|'))
+    }
+    if (upper.startsWith('REMIND ')) {
+      return this.emit(this.sms ? 'OK' : 'ERR SMS disabled')
+    }
+    this.emit('ERR Unknown command')
+  }
+
+  statusLine() {
+    return [
+      'STATUS',
+      `SMS:${this.sms ? 'ON' : 'OFF'}`,
+      `Students:${this.students.size}`,
+      `ActiveBorrows:${this.borrows.length}`,
+      `QueuePending:${this.queuePending}`,
+      `Auto:${this.auto ? 'ON' : 'OFF'}`,
+      `IntervalMin:${this.intervalMin}`,
+    ].join('|')
+  }
+
+  private enqueue(op: DeviceQueueRecord['op'], uid: string, tag: string, due?: string, at = new Date().toISOString()) {
+    this.queue.push({ seq: this.nextSeq++, op, uid: uid.toUpperCase(), tag, ...(due ? { due } : {}), at })
+  }
+
+  private emit(line: string) {
+    if (this.latencyMs > 0) setTimeout(() => this.output(line), this.latencyMs)
+    else this.output(line)
+  }
+}
+
+function queuedLine(r: DeviceQueueRecord) {
+  const parts = ['QUEUED', `Seq:${r.seq}`, `Op:${r.op}`, `UID:${r.uid}`, `Tag:${r.tag}`]
+  if (r.due) parts.push(`Due:${r.due}`)
+  parts.push(`At:${r.at}`)
+  return parts.join('|')
+}
+
+// ReaderTransport backed by a VirtualDevice. The device keeps its memory across
+// close/open, like the real board does across USB reconnects.
+export class EmulatorTransport implements ReaderTransport {
+  readonly kind = 'emulator'
+  readonly label = 'Virtual device'
+  readonly device: VirtualDevice
+  private handlers: TransportHandlers | null = null
+
+  constructor(latencyMs?: number) {
+    this.device = new VirtualDevice(line => this.handlers?.onData(line + '\n'), latencyMs)
+  }
+
+  async open(handlers: TransportHandlers) {
+    this.handlers = handlers
+    this.device.boot()
+    return true
+  }
+
+  async close() {
+    const handlers = this.handlers
+    this.handlers = null
+    handlers?.onClose()
+  }
+
+  async write(line: string) {
+    if (!this.handlers) throw new Error('Virtual device is closed')
+    this.device.receive(line)
+  }
+}
@@ -0,0 +1,119 @@
+import { db, FinePolicy, FineRule, Loan } from './db'
+import { schemas, validateInput } from './validation'
+import { ValidationError, DatabaseError } from './error-handling'
+import { LibraryCalendar, loadLibraryCalendar, openUnitsSince } from './calendar'
+
+// Fine policy engine. A policy is a list of rules keyed by item type and patron
+// level; the most specific matching rule decides the rate (per day or per hour),
+// the grace period, the cap per loan and the replacement cost of a lost copy.
+// Policies are versioned: saving an edit stores the next version, and a fine keeps
+// accruing under the version it was first raised with. Closed days come from the
+// library calendar; versions saved before it also keep the weekdays they closed.
+
+export const DEFAULT_FINE_POLICY: FinePolicy = {
+  version: 1,
+  currency: 'USD',
+  rules: [{ itemType: null, patronLevel: null, accrual: 'DAILY', rate: 0.5, graceUnits: 0, cap: 25, replacementCost: null }],
+  created_at: '1970-01-01T00:00:00.000Z',
+  created_by: 'system',
+}
+
+export type FinePolicyInput = Pick<FinePolicy, 'currency' | 'rules'>
+
+// A specific version, or the latest when none is given; version 1 is the built-in default
+export async function getFinePolicy(version?: number): Promise<FinePolicy> {
+  const saved = version === undefined ? await db.finePolicies.orderBy('version').last() : await db.finePolicies.get(version)
+  return saved ?? DEFAULT_FINE_POLICY
+}
+
+export async function finePolicyHistory(): Promise<FinePolicy[]> {
+  const saved = await db.finePolicies.orderBy('version').reverse().toArray()
+  return saved.some(p => p.version === 1) ? saved : [...saved, DEFAULT_FINE_POLICY]
+}
+
+// Saves the edited rules as the next version; earlier versions are never changed
+export async function saveFinePolicy(input: FinePolicyInput, created_by: string): Promise<FinePolicy> {
+  const result = validateInput<FinePolicyInput>(input, schemas.finePolicy)
+  if (!result.valid) throw new ValidationError(result.errors!.join('; '), 'finePolicy', input)
+  const v = result.data!
+  try {
+    return await db.transaction('rw', db.finePolicies, async () => {
+      const latest = await getFinePolicy()
+      const policy: FinePolicy = {
+        version: latest.version + 1,
+        currency: v.currency,
+        rules: v.rules.map(r => ({
+          ...r,
+          itemType: r.itemType ?? null,
+          patronLevel: r.patronLevel ?? null,
+          cap: r.cap ?? null,
+          replacementCost: r.replacementCost ?? null,
+        })),
+        created_at: new Date().toISOString(),
+        created_by,
+      }
+      await db.finePolicies.add(policy)
+      return policy
+    })
+  } catch (error) {
+    throw new DatabaseError(`Could not save fine policy: ${error instanceof Error ? error.message : String(error)}`, 'finePolicies')
+  }
+}
+
+// The most specific rule for this item type and patron level (an item-type match
+// outranks a level match); null when no rule applies, i.e. no fine
+export function ruleFor(policy: FinePolicy, itemType: string | null, patronLevel: string | null): FineRule | null {
+  const type = itemType?.toUpperCase() ?? null
+  const level = patronLevel?.trim() || null
+  let best: FineRule | null = null
+  let bestScore = -1
+  for (const rule of policy.rules) {
+    if (rule.itemType !== null && rule.itemType !== type) continue
+    if (rule.patronLevel !== null && rule.patronLevel !== level) continue
+    const score = (rule.itemType !== null ? 2 : 0) + (rule.patronLevel !== null ? 1 : 0)
+    if (score > bestScore) {
+      best = rule
+      bestScore = score
+    }
+  }
+  return best
+}
+
+export interface OverdueCharge {
+  units: number // chargeable days or hours, after closed days and the grace period
+  amount: number
+}
+
+// What a loan due at `due_at` owes at `at` under one rule. Each whole day (or hour)
+// past the due time counts unless it starts on a day the library calendar has closed
+// (the same count the overdue stats use); the first graceUnits are free.
+export function overdueCharge(
+  policy: FinePolicy,
+  rule: FineRule,
+  due_at: string,
+  at: Date,
+  calendar: LibraryCalendar = loadLibraryCalendar()
+): OverdueCharge {
+  const unitMs = rule.accrual === 'HOURLY' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000
+  const closed = policy.closedWeekdays ?? []
+  const days = closed.length ? { ...calendar, hours: calendar.hours.map((h, day) => (closed.includes(day) ? null : h)) } : calendar
+  const units = Math.max(0, openUnitsSince(days, due_at, at, unitMs) - rule.graceUnits)
+  const amount = Math.round(units * rule.rate * 100) / 100
+  return { units, amount: rule.cap === null ? amount : Math.min(amount, rule.cap) }
+}
+
+// The rule that applies to a loan, from its catalog item type and its student's level
+export async function ruleForLoan(policy: FinePolicy, loan: Loan): Promise<FineRule | null> {
+  const item = await db.items.get(loan.item_tag)
+  const student = loan.student_index ? await db.students.where('index_number').equals(loan.student_index).first() : undefined
+  return ruleFor(policy, item?.item_type ?? null, student?.level ?? null)
+}
+
+// The replacement fine the current policy suggests for a lost loan, if it sets one
+export async function replacementCharge(loan: Loan): Promise<{ amount: number; currency: string; policyVersion: number } | null> {
+  const policy = await getFinePolicy()
+  const rule = await ruleForLoan(policy, loan)
+  if (!rule || rule.replacementCost === null) return null
+  return { amount: rule.replacementCost, currency: policy.currency, policyVersion: policy.version }
+}
+
@@ -0,0 +1,133 @@
+import { CommandResult } from './commands'
+import { DeviceInfo } from './protocol'
+
+// Firmware handshake. On connect the app sends HELLO; current firmware answers with
+// its model, version and command set:
+//   HELLO|Model:RFID-LIB-ESP32|Fw:2.1.0|Cmds:STATUS,SCAN,SMS,AUTO,...
+// The revisions in the field:
+//   1.x  no HELLO (ERR or silence); the original command set, no device queue
+//   2.0  HELLO, adds QUEUE and TIME / TIME SET
+//   2.1  adds WRITE ARM / WRITE TAG / READ TAG
+//   2.2  adds RENEW (renewals at the pad, and due-date updates from the kiosk)
+// Features the app offers for a reader follow from the commands it reported, and
+// the result is remembered per reader so the UI knows before it reconnects.
+
+export type Capability = 'sms' | 'auto' | 'queue' | 'clock' | 'tagWriting'
+
+export const CAPABILITIES: Record<Capability, string> = {
+  sms: 'SMS reminders',
+  auto: 'Automatic reminders',
+  queue: 'Offline queue',
+  clock: 'Clock sync',
+  tagWriting: 'Tag writing',
+}
+
+export interface DeviceProfile extends DeviceInfo {
+  readerId: string
+  capabilities: Record<Capability, boolean>
+  legacy: boolean // no HELLO: 1.x firmware, command set assumed
+  checkedAt: string
+}
+
+export const MIN_FIRMWARE = '2.0.0'
+
+// What 1.x firmware understands; it can't tell us itself
+export const LEGACY_COMMANDS = ['STATUS', 'SCAN', 'SMS', 'AUTO', 'SET STUDENT', 'BORROW', 'RETURN', 'REMIND']
+
+// Answered by every revision, or needed to find out which one it is
+const ALWAYS_ALLOWED = ['HELLO', 'STATUS']
+
+const PROFILES_KEY = 'deviceProfiles'
+
+// -1 / 0 / 1 for dotted numeric versions ("2.1" == "2.1.0"); anything after a
+// non-digit in a part ("2.1.0-rc1") is ignored
+export function compareVersions(a: string, b: string): number {
+  const parts = (v: string) => v.split('.').map(p => parseInt(p, 10) || 0)
+  const pa = parts(a)
+  const pb = parts(b)
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const d = (pa[i] ?? 0) - (pb[i] ?? 0)
+    if (d !== 0) return d < 0 ? -1 : 1
+  }
+  return 0
+}
+
+// A command is supported when the device listed it or the word(s) it starts with
+// ("SMS" covers "SMS ON"; "REMIND" covers "REMIND ONE ...").
+export function supportsCommand(commands: string[], command: string): boolean {
+  const upper = command.trim().toUpperCase()
+  if (ALWAYS_ALLOWED.some(c => upper === c)) return true
+  return commands.some(c => upper === c || upper.startsWith(c + ' '))
+}
+
+export function capabilitiesFor(commands: string[]): Record<Capability, boolean> {
+  const has = (...cmds: string[]) => cmds.every(c => supportsCommand(commands, c))
+  return {
+    sms: has('SMS ON', 'REMIND ONE'),
+    auto: has('AUTO ON'),
+    queue: has('QUEUE'),
+    clock: has('TIME', 'TIME SET'),
+    tagWriting: has('WRITE ARM', 'WRITE TAG', 'READ TAG'),
+  }
+}
+
+export function profileFromInfo(readerId: string, info: DeviceInfo, at = new Date().toISOString()): DeviceProfile {
+  const commands = info.commands.map(c => c.trim().toUpperCase()).filter(Boolean)
+  return { readerId, ...info, commands, capabilities: capabilitiesFor(commands), legacy: false, checkedAt: at }
+}
+
+export function legacyProfile(readerId: string, at = new Date().toISOString()): DeviceProfile {
+  return {
+    readerId,
+    model: 'Unknown',
+    firmware: '1.x',
+    commands: LEGACY_COMMANDS,
+    capabilities: capabilitiesFor(LEGACY_COMMANDS),
+    legacy: true,
+    checkedAt: at,
+  }
+}
+
+// Asks the device who it is. No HELLO reply (ERR or a timeout) means 1.x firmware.
+export async function handshake(
+  send: (command: string) => Promise<CommandResult>,
+  readerId: string
+): Promise<DeviceProfile> {
+  const result = await send('HELLO')
+  return result.ok && result.info ? profileFromInfo(readerId, result.info) : legacyProfile(readerId)
+}
+
+export function isFirmwareTooOld(profile: DeviceProfile): boolean {
+  return profile.legacy || compareVersions(profile.firmware, MIN_FIRMWARE) < 0
+}
+
+// Staff-facing warning for outdated firmware, naming what they're missing
+export function firmwareWarning(profile: DeviceProfile, readerName: string): string | null {
+  if (!isFirmwareTooOld(profile)) return null
+  const missing = (Object.keys(CAPABILITIES) as Capability[])
+    .filter(c => !profile.capabilities[c])
+    .map(c => CAPABILITIES[c])
+  return (
+    `${readerName} runs firmware ${profile.firmware}; ${MIN_FIRMWARE} or newer is required.` +
+    (missing.length ? ` Unavailable until it is updated: ${missing.join(', ')}.` : '')
+  )
+}
+
+export function loadDeviceProfiles(): Record<string, DeviceProfile> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '{}')
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {}
+  } catch {
+    return {}
+  }
+}
+
+export function saveDeviceProfile(profile: DeviceProfile) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify({ ...loadDeviceProfiles(), [profile.readerId]: profile }))
+}
+
+export function forgetDeviceProfile(readerId: string) {
+  const profiles = loadDeviceProfiles()
+  delete profiles[readerId]
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+}
@@ -0,0 +1,187 @@
+import { db, Loan, LoanRule, LoanUnit, Student } from './db'
+import { schemas, validateInput } from './validation'
+import { ValidationError, DatabaseError } from './error-handling'
+import { LibraryCalendar, loadLibraryCalendar, dueAfter, closingTime } from './calendar'
+
+// Circulation rules. Each rule covers patrons by program and/or level and an item
+// type, and sets how many such items they may hold at once, for how long, how often
+// a loan may be renewed and whether the item may leave the building at all. The most
+// specific rule wins (item type, then level, then program); the built-in default
+// applies where no stored rule matches. Borrowing checks the rule for the item's
+// type and the patron's general rule (item type "any") for their total.
+// Loan periods run in days, or in hours or minutes for short loans (laptops,
+// calculators, course reserves), which can be made to fall due by closing time.
+
+export const DEFAULT_LOAN_RULE: LoanRule = {
+  id: 'default',
+  program: null,
+  level: null,
+  itemType: null,
+  maxLoans: 3,
+  loanPeriod: 14,
+  loanUnit: 'DAYS',
+  dueByClose: false,
+  maxRenewals: 2,
+  mayLeave: true,
+}
+
+// Day loans unless a unit is given
+export type LoanRuleInput = Omit<LoanRule, 'id' | 'loanUnit' | 'dueByClose'> &
+  Partial<Pick<LoanRule, 'loanUnit' | 'dueByClose'>> & { id?: string }
+
+type Patron = Pick<Student, 'program' | 'level'>
+
+export interface LoanPeriod {
+  amount: number
+  unit: LoanUnit
+}
+
+const UNIT_MINUTES: Record<LoanUnit, number> = { DAYS: 24 * 60, HOURS: 60, MINUTES: 1 }
+const UNIT_NAMES: Record<LoanUnit, string> = { DAYS: 'day', HOURS: 'hour', MINUTES: 'minute' }
+
+export function rulePeriod(rule: LoanRule): LoanPeriod {
+  return { amount: rule.loanPeriod, unit: rule.loanUnit }
+}
+
+export function periodMinutes(period: LoanPeriod): number {
+  return period.amount * UNIT_MINUTES[period.unit]
+}
+
+// "14 day(s)", "3 hour(s)", "90 minute(s)"
+export function describePeriod(period: LoanPeriod): string {
+  return `${period.amount} ${UNIT_NAMES[period.unit]}(s)`
+}
+
+// What staff type for a loan period: "7" or "7d" (days), "3h", "90m"; null if unreadable
+export function parseLoanPeriod(text: string): LoanPeriod | null {
+  const m = /^(\d+)\s*(d|h|m)?$/i.exec(text.trim())
+  if (!m || +m[1] < 1) return null
+  const units = { D: 'DAYS', H: 'HOURS', M: 'MINUTES' } as const
+  return { amount: +m[1], unit: units[(m[2] ?? 'd').toUpperCase() as keyof typeof units] }
+}
+
+// When a loan of `period` made at `fromIso` falls due. Day loans land on the next open
+// day of the library calendar; hour and minute loans run to the minute, cut short at
+// that day's closing time when `byClose` is set.
+export function dueFor(
+  fromIso: string,
+  period: LoanPeriod,
+  byClose: boolean,
+  calendar: LibraryCalendar = loadLibraryCalendar()
+): string {
+  if (period.unit === 'DAYS') return dueAfter(fromIso, period.amount, calendar)
+  const from = new Date(fromIso)
+  const due = new Date(from.getTime() + periodMinutes(period) * 60 * 1000)
+  const close = byClose ? closingTime(calendar, from) : null
+  return (close && close > from && close < due ? close : due).toISOString()
+}
+
+export async function loadLoanRules(): Promise<LoanRule[]> {
+  return db.loanRules.toArray()
+}
+
+// Replaces the stored rules with the edited list
+export async function saveLoanRules(input: LoanRuleInput[]): Promise<LoanRule[]> {
+  const rules: LoanRule[] = []
+  for (const entry of input) {
+    const result = validateInput<LoanRuleInput>(entry, schemas.loanRule)
+    if (!result.valid) throw new ValidationError(result.errors!.join('; '), 'loanRule', entry)
+    const v = result.data!
+    rules.push({
+      ...v,
+      id: v.id || crypto.randomUUID(),
+      program: v.program ?? null,
+      level: v.level ?? null,
+      itemType: v.itemType ?? null,
+      loanUnit: v.loanUnit ?? 'DAYS',
+      dueByClose: v.dueByClose ?? false,
+    })
+  }
+  const keys = rules.map(r => [r.program?.toLowerCase(), r.level?.toLowerCase(), r.itemType].join('|'))
+  if (new Set(keys).size !== keys.length) {
+    throw new ValidationError('Only one rule per program, level and item type', 'loanRule')
+  }
+  try {
+    await db.transaction('rw', db.loanRules, async () => {
+      await db.loanRules.clear()
+      await db.loanRules.bulkAdd(rules)
+    })
+    return rules
+  } catch (error) {
+    throw new DatabaseError(`Could not save loan rules: ${error instanceof Error ? error.message : String(error)}`, 'loanRules')
+  }
+}
+
+function same(ruleValue: string | null, value: string | null | undefined): boolean {
+  return ruleValue === null || ruleValue.trim().toLowerCase() === (value ?? '').trim().toLowerCase()
+}
+
+// The most specific rule for this patron and item type (null: the patron's general rule)
+export function matchLoanRule(rules: LoanRule[], patron: Patron, itemType: string | null): LoanRule {
+  const type = itemType?.toUpperCase() ?? null
+  let best = DEFAULT_LOAN_RULE
+  let bestScore = -1
+  for (const rule of rules) {
+    if (rule.itemType !== null && rule.itemType !== type) continue
+    if (!same(rule.level, patron.level) || !same(rule.program, patron.program)) continue
+    const score = (rule.itemType !== null ? 4 : 0) + (rule.level !== null ? 2 : 0) + (rule.program !== null ? 1 : 0)
+    if (score > bestScore) {
+      best = rule
+      bestScore = score
+    }
+  }
+  return best
+}
+
+// "Level 100 Nursing students", "Level 100 students", "Students"
+export function describePatrons(rule: LoanRule): string {
+  const parts = [rule.level && `Level ${rule.level}`, rule.program, rule.level || rule.program ? 'students' : 'Students']
+  return parts.filter(Boolean).join(' ')
+}
+
+function describeItems(rule: LoanRule, count: number): string {
+  const noun = count === 1 ? 'item' : 'items'
+  return rule.itemType ? `${rule.itemType.toLowerCase()} ${noun}` : noun
+}
+
+export interface BorrowDecision {
+  rule: LoanRule
+  period: LoanPeriod
+  refusal: string | null // why the loan is not allowed, in words staff can read out
+}
+
+// Applies the rules to a patron borrowing an item, given the patron's current loans
+// and the item types they are for. `requested` is the period staff asked for, if any.
+export function evaluateBorrow(
+  rules: LoanRule[],
+  patron: Patron,
+  item: { item_type: string | null },
+  active: Array<{ item_type: string | null }>,
+  requested?: LoanPeriod
+): BorrowDecision {
+  const rule = matchLoanRule(rules, patron, item.item_type)
+  const general = matchLoanRule(rules, patron, null)
+  const decide = (refusal: string | null): BorrowDecision => ({ rule, period: requested ?? rulePeriod(rule), refusal })
+
+  if (!rule.mayLeave) {
+    return decide(`${describePatrons(rule)} may only use ${describeItems(rule, 2)} in the library`)
+  }
+  if (requested && periodMinutes(requested) > periodMinutes(rulePeriod(rule))) {
+    return decide(`${describePatrons(rule)} may borrow ${describeItems(rule, 2)} for up to ${describePeriod(rulePeriod(rule))}`)
+  }
+  if (rule.itemType !== null) {
+    const held = active.filter(l => l.item_type?.toUpperCase() === rule.itemType).length
+    if (held >= rule.maxLoans) return decide(`${describePatrons(rule)} may hold ${rule.maxLoans} ${describeItems(rule, rule.maxLoans)}`)
+  }
+  if (active.length >= general.maxLoans) {
+    return decide(`${describePatrons(general)} may hold ${general.maxLoans} ${describeItems(general, general.maxLoans)}`)
+  }
+  return decide(null)
+}
+
+// The rule governing an existing loan, from its student and catalog item
+export async function loanRuleFor(loan: Loan, rules?: LoanRule[]): Promise<LoanRule> {
+  const student = loan.student_index ? await db.students.where('index_number').equals(loan.student_index).first() : undefined
+  const item = await db.items.get(loan.item_tag)
+  return matchLoanRule(rules ?? (await loadLoanRules()), student ?? {}, item?.item_type ?? null)
+}
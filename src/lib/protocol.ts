@@ -0,0 +1,349 @@
+// Reader protocol parser, independent of any port or stream.
+// Accepts both dialects the readers speak:
+//
+//  Pipe/prefix firmware lines          JSON lines
+//  CARD_SCANNED:E0A1B2C3               {"event":"card","uid":"E0A1B2C3"}
+//  ITEM_SCANNED:BOOK-42                {"event":"item","tag":"BOOK-42"}
+//  SCAN_ARMED / SCAN_DONE              {"event":"scan","state":"armed"}
+//  STATUS|SMS:ON|Students:0|...        {"event":"status","data":{...}}
+//  OK / OK BORROW / ERR No such card   {"event":"ack","ok":false,"detail":"No such card"}
+//  QUEUED|Seq:3|Op:BORROW|UID:..|...   {"event":"queued","seq":3,"op":"BORROW","uid":"..","tag":"..","due":"..","at":".."}
+//  QUEUE_END|Count:2                   {"event":"queue_end","count":2}
+//  TAG_DATA|Tag:BOOK-42|Owner:MAIN     {"event":"tag_data","tag":"BOOK-42","owner":"MAIN"}
+//  HELLO|Model:..|Fw:2.1.0|Cmds:A,B    {"event":"hello","model":"..","firmware":"2.1.0","commands":["A","B"]}
+//  TIME|Epoch:1704103200|Tz:UTC        {"event":"time","epoch":1704103200,"tz":"UTC"}
+
+export interface DeviceStatus {
+  sms: string
+  students: number
+  activeBorrows: number
+  queuePending: number
+  auto: string
+  intervalMin: number
+}
+
+// One entry of the device's offline ledger, as dumped by the QUEUE command
+export interface DeviceQueueRecord {
+  seq: number
+  op: 'BORROW' | 'RETURN' | 'RENEW'
+  uid: string
+  tag: string
+  due?: string // YYYY-MM-DD: the due date of a borrow, or the new one of a renewal
+  at: string // when the device recorded it
+}
+
+// What the firmware says about itself in reply to HELLO (see ./firmware)
+export interface DeviceInfo {
+  model: string
+  firmware: string
+  commands: string[]
+}
+
+export type DeviceParseErrorKind =
+  | 'malformed_line'
+  | 'malformed_json'
+  | 'unknown_event'
+  | 'missing_field'
+  | 'invalid_value'
+
+export interface DeviceParseError {
+  kind: DeviceParseErrorKind
+  message: string
+  line: string
+}
+
+export type DeviceEvent =
+  | { event: 'raw'; line: string }
+  | { event: 'card'; uid: string }
+  | { event: 'item'; tag: string }
+  | { event: 'scan'; state: 'armed' | 'done' }
+  | { event: 'status'; data: DeviceStatus }
+  | { event: 'ack'; ok: boolean; detail: string }
+  | { event: 'queued'; record: DeviceQueueRecord }
+  | { event: 'queue_end'; count: number }
+  | { event: 'tag_data'; tag: string; owner: string | null }
+  | { event: 'hello'; info: DeviceInfo }
+  | { event: 'time'; epoch: number; tz: string | null } // device clock, Unix seconds
+  | { event: 'parse_error'; error: DeviceParseError }
+
+// `event: null` means the line was well-formed but carries nothing beyond the raw text
+// (boot banners, debug prints, ...).
+export type ParseResult = { ok: true; event: DeviceEvent | null } | { ok: false; error: DeviceParseError }
+
+function fail(kind: DeviceParseErrorKind, message: string, line: string): ParseResult {
+  return { ok: false, error: { kind, message, line } }
+}
+
+function toCount(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return 0
+  const n = Number(value)
+  return Number.isFinite(n) && n >= 0 ? n : null
+}
+
+function buildStatus(fields: Record<string, unknown>, line: string): ParseResult {
+  const counts: Record<string, number> = {}
+  for (const key of ['students', 'activeBorrows', 'queuePending', 'intervalMin']) {
+    const n = toCount(fields[key])
+    if (n === null) return fail('invalid_value', `Status field "${key}" is not a number`, line)
+    counts[key] = n
+  }
+  return {
+    ok: true,
+    event: {
+      event: 'status',
+      data: {
+        sms: String(fields.sms ?? ''),
+        students: counts.students,
+        activeBorrows: counts.activeBorrows,
+        queuePending: counts.queuePending,
+        auto: String(fields.auto ?? ''),
+        intervalMin: counts.intervalMin,
+      },
+    },
+  }
+}
+
+function parsePipeStatus(line: string): ParseResult {
+  // STATUS|SMS:ON|Students:0|ActiveBorrows:0|QueuePending:0|Auto:OFF|IntervalMin:0
+  const obj: Record<string, string> = {}
+  for (const part of line.split('|').slice(1)) {
+    const sep = part.indexOf(':')
+    if (sep < 0) return fail('malformed_line', `Status segment "${part}" has no key:value`, line)
+    obj[part.slice(0, sep).trim()] = part.slice(sep + 1).trim()
+  }
+  return buildStatus(
+    {
+      sms: obj.SMS,
+      students: obj.Students,
+      activeBorrows: obj.ActiveBorrows,
+      queuePending: obj.QueuePending,
+      auto: obj.Auto,
+      intervalMin: obj.IntervalMin,
+    },
+    line
+  )
+}
+
+function buildQueueRecord(fields: Record<string, unknown>, line: string): ParseResult {
+  const seq = Number(fields.seq)
+  if (!Number.isInteger(seq) || seq < 0) return fail('invalid_value', 'Queue record "seq" is not a number', line)
+  const op = String(fields.op ?? '').toUpperCase()
+  if (op !== 'BORROW' && op !== 'RETURN' && op !== 'RENEW') {
+    return fail('invalid_value', 'Queue record "op" must be BORROW, RETURN or RENEW', line)
+  }
+  for (const key of ['uid', 'tag', 'at']) {
+    if (typeof fields[key] !== 'string' || !(fields[key] as string).trim()) {
+      return fail('missing_field', `Queue record requires "${key}"`, line)
+    }
+  }
+  const due = typeof fields.due === 'string' && fields.due.trim() ? fields.due.trim() : undefined
+  return {
+    ok: true,
+    event: {
+      event: 'queued',
+      record: {
+        seq,
+        op,
+        uid: (fields.uid as string).trim(),
+        tag: (fields.tag as string).trim(),
+        ...(due ? { due } : {}),
+        at: (fields.at as string).trim(),
+      },
+    },
+  }
+}
+
+function buildQueueEnd(count: unknown, line: string): ParseResult {
+  const n = toCount(count)
+  if (n === null) return fail('invalid_value', 'Queue end "count" is not a number', line)
+  return { ok: true, event: { event: 'queue_end', count: n } }
+}
+
+// QUEUED|Seq:3|Op:BORROW|..., QUEUE_END|Count:2, TAG_DATA|Tag:..|Owner:..,
+// HELLO|Model:..|Fw:.. and TIME|Epoch:..|Tz:.. share STATUS's key:value segments
+function pipeFields(line: string): Record<string, string> | null {
+  const obj: Record<string, string> = {}
+  for (const part of line.split('|').slice(1)) {
+    const sep = part.indexOf(':')
+    if (sep < 0) return null
+    obj[part.slice(0, sep).trim().toLowerCase()] = part.slice(sep + 1).trim()
+  }
+  return obj
+}
+
+function buildTagData(fields: Record<string, unknown>, line: string): ParseResult {
+  const tag = typeof fields.tag === 'string' ? fields.tag.trim() : ''
+  if (!tag) return fail('missing_field', 'Tag data requires "tag"', line)
+  const owner = typeof fields.owner === 'string' && fields.owner.trim() ? fields.owner.trim() : null
+  return { ok: true, event: { event: 'tag_data', tag, owner } }
+}
+
+function buildHello(model: unknown, firmware: unknown, commands: unknown, line: string): ParseResult {
+  if (typeof firmware !== 'string' || !firmware.trim()) return fail('missing_field', 'Hello requires a firmware version', line)
+  const list = Array.isArray(commands)
+    ? commands.filter((c): c is string => typeof c === 'string')
+    : typeof commands === 'string'
+      ? commands.split(',')
+      : []
+  return {
+    ok: true,
+    event: {
+      event: 'hello',
+      info: {
+        model: typeof model === 'string' && model.trim() ? model.trim() : 'Unknown',
+        firmware: firmware.trim(),
+        commands: list.map(c => c.trim().toUpperCase()).filter(Boolean),
+      },
+    },
+  }
+}
+
+function buildTime(epoch: unknown, tz: unknown, line: string): ParseResult {
+  if (epoch === undefined || epoch === null || epoch === '') return fail('missing_field', 'Time requires "epoch"', line)
+  const n = Number(epoch)
+  if (!Number.isFinite(n) || n < 0) return fail('invalid_value', `Time epoch "${epoch}" is not a number`, line)
+  const zone = typeof tz === 'string' && tz.trim() ? tz.trim() : null
+  return { ok: true, event: { event: 'time', epoch: n, tz: zone } }
+}
+
+function requireString(obj: Record<string, unknown>, key: string, line: string): string | ParseResult {
+  const value = obj[key]
+  if (typeof value !== 'string' || !value.trim()) {
+    return fail('missing_field', `"${obj.event}" event requires a "${key}" string`, line)
+  }
+  return value.trim()
+}
+
+function parseJsonLine(line: string): ParseResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(line)
+  } catch {
+    return fail('malformed_json', 'Line is not valid JSON', line)
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return fail('malformed_json', 'JSON line must be an object', line)
+  }
+  const obj = parsed as Record<string, unknown>
+  if (typeof obj.event !== 'string') {
+    return fail('missing_field', 'JSON line requires an "event" field', line)
+  }
+
+  switch (obj.event) {
+    case 'card': {
+      const uid = requireString(obj, 'uid', line)
+      return typeof uid === 'string' ? { ok: true, event: { event: 'card', uid } } : uid
+    }
+    case 'item': {
+      const tag = requireString(obj, 'tag', line)
+      return typeof tag === 'string' ? { ok: true, event: { event: 'item', tag } } : tag
+    }
+    case 'scan': {
+      if (obj.state !== 'armed' && obj.state !== 'done') {
+        return fail('invalid_value', 'Scan state must be "armed" or "done"', line)
+      }
+      return { ok: true, event: { event: 'scan', state: obj.state } }
+    }
+    case 'ack': {
+      if (typeof obj.ok !== 'boolean') {
+        return fail('missing_field', '"ack" event requires an "ok" boolean', line)
+      }
+      const detail = typeof obj.detail === 'string' ? obj.detail : ''
+      return { ok: true, event: { event: 'ack', ok: obj.ok, detail } }
+    }
+    case 'status': {
+      const data = obj.data && typeof obj.data === 'object' ? (obj.data as Record<string, unknown>) : obj
+      return buildStatus(data, line)
+    }
+    case 'queued':
+      return buildQueueRecord(obj, line)
+    case 'queue_end':
+      return buildQueueEnd(obj.count, line)
+    case 'tag_data':
+      return buildTagData(obj, line)
+    case 'hello':
+      return buildHello(obj.model, obj.firmware, obj.commands, line)
+    case 'time':
+      return buildTime(obj.epoch, obj.tz, line)
+    default:
+      return fail('unknown_event', `Unknown event "${obj.event}"`, line)
+  }
+}
+
+export function parseDeviceLine(input: string): ParseResult {
+  const line = input.trim()
+  if (!line) return { ok: true, event: null }
+
+  if (line.startsWith('{')) return parseJsonLine(line)
+
+  if (line.startsWith('CARD_SCANNED:')) {
+    const uid = line.slice('CARD_SCANNED:'.length).trim()
+    if (!uid) return fail('missing_field', 'CARD_SCANNED without a UID', line)
+    return { ok: true, event: { event: 'card', uid } }
+  }
+  if (line.startsWith('ITEM_SCANNED:')) {
+    const tag = line.slice('ITEM_SCANNED:'.length).trim()
+    if (!tag) return fail('missing_field', 'ITEM_SCANNED without a tag', line)
+    return { ok: true, event: { event: 'item', tag } }
+  }
+  if (line === 'SCAN_ARMED') return { ok: true, event: { event: 'scan', state: 'armed' } }
+  if (line === 'SCAN_DONE') return { ok: true, event: { event: 'scan', state: 'done' } }
+  if (line.startsWith('STATUS|')) return parsePipeStatus(line)
+  if (line.startsWith('QUEUED|') || line.startsWith('QUEUE_END')) {
+    const fields = pipeFields(line)
+    if (!fields) return fail('malformed_line', 'Queue line segment has no key:value', line)
+    return line.startsWith('QUEUED|') ? buildQueueRecord(fields, line) : buildQueueEnd(fields.count, line)
+  }
+  if (line.startsWith('HELLO|')) {
+    const fields = pipeFields(line)
+    if (!fields) return fail('malformed_line', 'Hello segment has no key:value', line)
+    return buildHello(fields.model, fields.fw, fields.cmds, line)
+  }
+  if (line.startsWith('TIME|')) {
+    const fields = pipeFields(line)
+    if (!fields) return fail('malformed_line', 'Time segment has no key:value', line)
+    return buildTime(fields.epoch, fields.tz, line)
+  }
+  if (line.startsWith('TAG_DATA|')) {
+    const fields = pipeFields(line)
+    if (!fields) return fail('malformed_line', 'Tag data segment has no key:value', line)
+    return buildTagData(fields, line)
+  }
+
+  const ack = /^(OK|ERR)(?:[\s:]+(.*))?$/.exec(line)
+  if (ack) return { ok: true, event: { event: 'ack', ok: ack[1] === 'OK', detail: (ack[2] ?? '').trim() } }
+
+  return { ok: true, event: null }
+}
+
+// Splits an arbitrary chunked text stream into trimmed, non-empty lines.
+export function createLineBuffer() {
+  let buffer = ''
+  return {
+    push(chunk: string): string[] {
+      buffer += chunk
+      const lines: string[] = []
+      let idx
+      while ((idx = buffer.search(/\r?\n/)) >= 0) {
+        const line = buffer.slice(0, idx).trim()
+        buffer = buffer.slice(buffer[idx] === '\r' ? idx + 2 : idx + 1)
+        if (line) lines.push(line)
+      }
+      return lines
+    },
+    flush(): string[] {
+      const line = buffer.trim()
+      buffer = ''
+      return line ? [line] : []
+    },
+  }
+}
+
+// Raw line first (for the log), then the parsed event or parse error.
+export function lineToEvents(line: string): DeviceEvent[] {
+  const events: DeviceEvent[] = [{ event: 'raw', line }]
+  const result = parseDeviceLine(line)
+  if (!result.ok) events.push({ event: 'parse_error', error: result.error })
+  else if (result.event) events.push(result.event)
+  return events
+}
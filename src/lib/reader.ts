@@ -0,0 +1,177 @@
+import { DeviceEvent, createLineBuffer, lineToEvents } from './protocol'
+import { CommandResult, SendOptions, createCommandQueue } from './commands'
+import { ReaderTransport } from './transports'
+
+export type { CommandResult } from './commands'
+
+// Reader connection on top of any ReaderTransport: splits the transport's text into
+// lines, parses them, correlates command replies, and reconnects with backoff when
+// the link drops without being asked to.
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+
+export interface ReaderConnectionOptions {
+  onEvent: (evt: DeviceEvent) => void
+  onStateChange?: (state: ConnectionState, attempt: number) => void
+  // Fired after every successful (re)connection, e.g. to re-issue STATUS
+  onConnected?: (reconnected: boolean) => void
+  // Every raw line in either direction, for session capture
+  onTraffic?: (direction: 'in' | 'out', line: string) => void
+  baseDelayMs?: number
+  maxDelayMs?: number
+}
+
+export class ReaderConnection {
+  state: ConnectionState = 'disconnected'
+
+  private attempt = 0
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private manualClose = false
+  private opening = false
+  private wantConnected = false
+  private unwatch: (() => void) | null = null
+  private readonly baseDelayMs: number
+  private readonly maxDelayMs: number
+  private readonly commands = createCommandQueue(line => this.write(line))
+
+  constructor(
+    private transport: ReaderTransport,
+    private options: ReaderConnectionOptions
+  ) {
+    this.baseDelayMs = options.baseDelayMs ?? 1000
+    this.maxDelayMs = options.maxDelayMs ?? 30000
+    this.watch()
+  }
+
+  get transportLabel() {
+    return this.transport.label
+  }
+
+  // User-initiated: may prompt (e.g. the serial port picker).
+  connect(): Promise<boolean> {
+    this.wantConnected = true
+    return this.tryOpen(true, false)
+  }
+
+  // Startup: reopen without prompting, if the transport can.
+  resume(): Promise<boolean> {
+    this.wantConnected = true
+    return this.tryOpen(false, false)
+  }
+
+  async disconnect() {
+    this.wantConnected = false
+    this.clearRetry()
+    this.manualClose = true
+    if (this.state === 'connected') await this.transport.close()
+    this.setState('disconnected')
+  }
+
+  async setTransport(transport: ReaderTransport) {
+    await this.disconnect()
+    this.unwatch?.()
+    this.transport = transport
+    this.watch()
+  }
+
+  async write(line: string) {
+    if (this.state !== 'connected') throw new Error('Not connected to device')
+    await this.transport.write(line)
+    this.options.onTraffic?.('out', line)
+  }
+
+  // Queued command; resolves with the firmware's OK/ERR (or a timeout).
+  send(command: string, options?: SendOptions): Promise<CommandResult> {
+    if (this.state !== 'connected') {
+      return Promise.resolve({ ok: false, command, error: 'Not connected to device' })
+    }
+    return this.commands.send(command, options)
+  }
+
+  dispose() {
+    this.wantConnected = false
+    this.clearRetry()
+    this.unwatch?.()
+    this.unwatch = null
+    if (this.state === 'connected') this.transport.close()
+  }
+
+  private watch() {
+    this.unwatch = this.transport.watch?.(() => {
+      // Device came back: don't wait for the backoff timer.
+      if (this.wantConnected && this.state !== 'connected') this.reconnectNow()
+    }) ?? null
+  }
+
+  private setState(state: ConnectionState) {
+    this.state = state
+    this.options.onStateChange?.(state, this.attempt)
+  }
+
+  private async tryOpen(interactive: boolean, reconnected: boolean): Promise<boolean> {
+    if (!reconnected) this.setState('connecting')
+    const lines = createLineBuffer()
+    const transport = this.transport
+    const ok = await transport.open(
+      {
+        onData: chunk => {
+          for (const line of lines.push(chunk)) {
+            this.options.onTraffic?.('in', line)
+            for (const evt of lineToEvents(line)) {
+              this.commands.handleEvent(evt)
+              this.options.onEvent(evt)
+            }
+          }
+        },
+        onClose: () => this.handleClosed(transport),
+      },
+      interactive
+    )
+    if (!ok) {
+      if (!reconnected) this.setState('disconnected')
+      return false
+    }
+    this.clearRetry()
+    this.attempt = 0
+    this.manualClose = false
+    this.setState('connected')
+    this.options.onConnected?.(reconnected)
+    return true
+  }
+
+  private handleClosed(transport: ReaderTransport) {
+    this.commands.reset('Port closed')
+    // A transport we already swapped out has nothing left to report.
+    if (transport !== this.transport) return
+    if (this.manualClose || !this.wantConnected) {
+      this.setState('disconnected')
+    } else {
+      this.scheduleReconnect()
+    }
+  }
+
+  private async reconnectNow() {
+    this.clearRetry()
+    if (!this.wantConnected || this.state === 'connected' || this.opening) return
+    this.opening = true
+    try {
+      if (await this.tryOpen(false, true)) return
+    } finally {
+      this.opening = false
+    }
+    this.scheduleReconnect()
+  }
+
+  private scheduleReconnect() {
+    this.clearRetry()
+    this.attempt++
+    this.setState('reconnecting')
+    const delay = Math.min(this.baseDelayMs * Math.pow(2, this.attempt - 1), this.maxDelayMs)
+    this.retryTimer = setTimeout(() => this.reconnectNow(), delay)
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.retryTimer = null
+  }
+}
@@ -0,0 +1,126 @@
+import { DeviceEvent, DeviceStatus } from './protocol'
+import { TransportSettings } from './transports'
+import { ConnectionState } from './reader'
+import { UidProfile } from './uid'
+
+// Readers attached to this kiosk. A circulation desk typically has a patron-card
+// reader and a separate item pad; each reader's role decides which scans it may
+// feed into the UI, and its id is stamped on the loans and transactions it produced.
+
+export type ReaderRole = 'card' | 'item' | 'both'
+
+export interface ReaderConfig {
+  id: string
+  name: string
+  role: ReaderRole
+  transport: TransportSettings
+  uidProfile?: UidProfile // how this reader encodes card UIDs; hex MSB-first if unset
+}
+
+// What the UI tracks per reader while the app runs
+export interface ReaderRuntime {
+  state: ConnectionState
+  attempt: number
+  status: DeviceStatus | null
+}
+
+// Pseudo readers for input that doesn't come through a ReaderConnection
+export const KEYBOARD_WEDGE_READER: ReaderConfig = {
+  id: 'keyboard-wedge',
+  name: 'Keyboard wedge',
+  role: 'both',
+  transport: { kind: 'mock' },
+}
+export const MANUAL_DEVICE_ID = 'web-kiosk'
+
+const READERS_KEY = 'readers'
+const LEGACY_TRANSPORT_KEY = 'readerTransport'
+
+export function slugifyReaderName(name: string, taken: string[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'reader'
+  let id = base
+  for (let n = 2; taken.includes(id) || id === KEYBOARD_WEDGE_READER.id; n++) id = `${base}-${n}`
+  return id
+}
+
+export function createReaderConfig(
+  name: string,
+  role: ReaderRole,
+  transport: TransportSettings,
+  existing: ReaderConfig[]
+): ReaderConfig {
+  const trimmed = name.trim() || 'Reader'
+  return {
+    id: slugifyReaderName(trimmed, existing.map(r => r.id)),
+    name: trimmed,
+    role,
+    transport,
+  }
+}
+
+export function loadReaders(): ReaderConfig[] {
+  try {
+    const raw = localStorage.getItem(READERS_KEY)
+    if (raw) return JSON.parse(raw) as ReaderConfig[]
+    // Single-reader installs saved just a transport choice
+    const legacy = localStorage.getItem(LEGACY_TRANSPORT_KEY)
+    const transport: TransportSettings = legacy ? JSON.parse(legacy) : { kind: 'serial' }
+    return [{ id: 'desk-reader', name: 'Desk reader', role: 'both', transport }]
+  } catch {
+    return [{ id: 'desk-reader', name: 'Desk reader', role: 'both', transport: { kind: 'serial' } }]
+  }
+}
+
+export function saveReaders(readers: ReaderConfig[]) {
+  localStorage.setItem(READERS_KEY, JSON.stringify(readers))
+  localStorage.removeItem(LEGACY_TRANSPORT_KEY)
+}
+
+// Whether a scan from a reader with this role should reach the UI.
+// Non-scan events (status, acks, raw lines...) always pass.
+export function roleAccepts(role: ReaderRole, evt: DeviceEvent): boolean {
+  if (evt.event === 'card') return role !== 'item'
+  if (evt.event === 'item') return role !== 'card'
+  return true
+}
+
+// Where device commands (SET STUDENT, BORROW, RETURN, reminders) go: the first
+// connected reader that handles patron cards, else the first connected one.
+export function pickCommandReader(
+  readers: ReaderConfig[],
+  isConnected: (id: string) => boolean
+): ReaderConfig | null {
+  const connected = readers.filter(r => isConnected(r.id))
+  return connected.find(r => r.role !== 'item') ?? connected[0] ?? null
+}
+
+// Labels are encoded on a reader that handles items: the first connected one,
+// else the first connected reader.
+export function pickWriterReader(
+  readers: ReaderConfig[],
+  isConnected: (id: string) => boolean
+): ReaderConfig | null {
+  const connected = readers.filter(r => isConnected(r.id))
+  return connected.find(r => r.role !== 'card') ?? connected[0] ?? null
+}
+
+// The last card and item each came from which reader, so the records they end up
+// in can name it. A value typed by hand no longer matches and falls back to the kiosk.
+export interface ScanSources {
+  card?: { uid: string; reader: string }
+  item?: { tag: string; reader: string }
+}
+
+export function producingReaderId(
+  sources: ScanSources,
+  item_tag: string,
+  card_uid: string | null
+): string {
+  if (sources.item && sources.item.tag === item_tag) return sources.item.reader
+  if (card_uid && sources.card && sources.card.uid === card_uid) return sources.card.reader
+  return MANUAL_DEVICE_ID
+}
@@ -0,0 +1,232 @@
+import { format } from 'date-fns'
+import { db, Loan, Tx, DeviceConflict, lookupItemTitle, findStudentByCard, itemsFromHistory } from './db'
+import { DeviceQueueRecord } from './protocol'
+import { DatabaseError } from './error-handling'
+import { renewalRefusal, recordRenewal } from './circulation'
+import { loanRuleFor, loadLoanRules, evaluateBorrow, dueFor } from './loan-rules'
+import { reservationManager, fineManager } from './analytics'
+import { UidProfile, canonicalizeUid } from './uid'
+
+// Device queue reconciliation: the firmware keeps its own ledger of borrows,
+// returns and renewals (including ones made at the pad while no browser was listening). QUEUE
+// dumps it; each record is matched against the local loans and transactions:
+//  matched  -> the kiosk already has it (it sent the command itself, or a previous pull)
+//  imported -> the kiosk missed it; the loan/return is written locally now
+//  conflict -> can't be applied safely; stored in deviceConflicts for staff review
+// Once the result is committed the caller clears the device queue up to lastSeq.
+
+export type ReconcileOutcome = 'matched' | 'imported' | 'conflict'
+
+export interface ReconcileSummary {
+  matched: number
+  imported: number
+  conflicts: number
+  lastSeq: number | null
+  results: Array<{ record: DeviceQueueRecord; outcome: ReconcileOutcome; reason?: string }>
+}
+
+const sameDay = (a: string | null | undefined, b: string) => !!a && a.slice(0, 10) === b.slice(0, 10)
+const sameCard = (a: string | null | undefined, b: string) => !!a && a.toUpperCase() === b.toUpperCase()
+
+// Loans made by index number carry no card UID; fall back to the card's owner
+async function belongsTo(r: DeviceQueueRecord) {
+  const student = await findStudentByCard(r.uid)
+  const owns = (l: Loan) =>
+    sameCard(l.user_uid, r.uid) || (!!student && !l.user_uid && l.student_index === student.index_number)
+  return { student, owns }
+}
+
+function conflictId(device_id: string, r: DeviceQueueRecord) {
+  // Stable across re-pulls, so an uncleared queue doesn't duplicate review entries
+  return [device_id, r.op, r.uid.toUpperCase(), r.tag, r.at].join('|')
+}
+
+async function applyBorrow(r: DeviceQueueRecord, device_id: string): Promise<[ReconcileOutcome, string?]> {
+  const loans = await db.loans.where('item_tag').equals(r.tag).toArray()
+  const { student, owns } = await belongsTo(r)
+  if (loans.some(l => owns(l) && sameDay(l.borrowed_at, r.at))) return ['matched']
+  if (!student) return ['conflict', `Unknown card ${r.uid}`]
+
+  const active = loans.find(l => l.status === 'ACTIVE')
+  if (active) {
+    return ['conflict', `Item is already on loan to ${active.student_index ?? active.user_uid ?? 'another patron'}`]
+  }
+
+  const hold = await reservationManager.holdFor(r.tag)
+  if (hold && hold.studentId !== student.id) return ['conflict', 'Item is on hold for another patron']
+
+  // The pad doesn't know the circulation rules: a borrow over a limit goes to staff review
+  const item = await db.items.get(r.tag)
+  const held = await db.loans.where({ student_index: student.index_number, status: 'ACTIVE' as const }).toArray()
+  const heldItems = await db.items.bulkGet(held.map(l => l.item_tag))
+  const decision = evaluateBorrow(
+    await loadLoanRules(),
+    student,
+    { item_type: item?.item_type ?? null },
+    heldItems.map(i => ({ item_type: i?.item_type ?? null }))
+  )
+  if (decision.refusal) return ['conflict', decision.refusal]
+  if (hold) await db.reservations.update(hold.id, { status: 'FULFILLED' })
+
+  // Without a due date from the device, the loan gets the rule's period (hours or days)
+  const due = r.due ? new Date(`${r.due}T23:59:59`) : new Date(dueFor(r.at, decision.period, decision.rule.dueByClose))
+  if (Number.isNaN(due.getTime())) return ['conflict', `Unreadable due date "${r.due}"`]
+  const due_at = due.toISOString()
+
+  const loan: Loan = {
+    id: crypto.randomUUID(),
+    student_index: student.index_number,
+    user_uid: student.card_uid ?? r.uid,
+    item_tag: r.tag,
+    item_title: await lookupItemTitle(r.tag),
+    borrowed_at: r.at,
+    due_at,
+    returned_at: null,
+    status: 'ACTIVE',
+    device_id,
+    synced: 0,
+    renewals: 0,
+  }
+  const tx: Tx = {
+    id: crypto.randomUUID(),
+    user_uid: loan.user_uid,
+    student_index: loan.student_index,
+    item_tag: r.tag,
+    action: 'BORROW',
+    occurred_at: r.at,
+    device_id,
+    synced: 0,
+  }
+  await db.loans.add(loan)
+  await db.transactions.add(tx)
+  // Already lent at the pad, so an uncatalogued tag is catalogued from the loan (as the v6 backfill does)
+  if (item) await db.items.update(r.tag, { status: 'ON_LOAN', updated_at: r.at })
+  else await db.items.bulkAdd(itemsFromHistory([loan], [], [], r.at))
+  return ['imported']
+}
+
+async function applyReturn(r: DeviceQueueRecord, device_id: string): Promise<[ReconcileOutcome, string?]> {
+  const loans = await db.loans.where('item_tag').equals(r.tag).toArray()
+  const { owns } = await belongsTo(r)
+  const active = loans.find(l => l.status === 'ACTIVE')
+
+  if (!active) {
+    const done = loans.some(l => l.status === 'RETURNED' && owns(l) && sameDay(l.returned_at, r.at))
+    // The kiosk closed it as lost/damaged/claimed returned and dropped it from the device
+    const closed = await db.transactions
+      .where('action')
+      .anyOf(['LOST', 'DAMAGED', 'CLAIMED_RETURNED'])
+      .filter(t => t.item_tag === r.tag && sameCard(t.user_uid, r.uid) && sameDay(t.occurred_at, r.at))
+      .count()
+    return done || closed > 0 ? ['matched'] : ['conflict', 'No active loan for this item']
+  }
+  if (!owns(active)) {
+    return ['conflict', `Item is on loan to ${active.student_index ?? active.user_uid}, not card ${r.uid}`]
+  }
+
+  await db.loans.put({ ...active, status: 'RETURNED', returned_at: r.at })
+  await db.items.update(r.tag, { status: 'AVAILABLE', updated_at: r.at })
+  await reservationManager.processBookReturn(r.tag)
+  // Fined as of when it came back to the pad, not when the queue was pulled
+  await fineManager.assessOverdueFine(active, new Date(r.at))
+  const tx: Tx = {
+    id: crypto.randomUUID(),
+    user_uid: active.user_uid,
+    student_index: active.student_index,
+    item_tag: r.tag,
+    action: 'RETURN',
+    occurred_at: r.at,
+    device_id,
+    synced: 0,
+  }
+  await db.transactions.add(tx)
+  return ['imported']
+}
+
+// A renewal made at the pad. Already matched when the loan is due on or after the
+// renewed date (the kiosk renewed it and told the device); otherwise the kiosk's
+// renewal rules still apply. The device works in local dates.
+async function applyRenew(r: DeviceQueueRecord, device_id: string): Promise<[ReconcileOutcome, string?]> {
+  const active = await db.loans.where({ item_tag: r.tag, status: 'ACTIVE' as const }).first()
+  const { owns } = await belongsTo(r)
+  if (!active) return ['conflict', 'No active loan for this item']
+  if (!owns(active)) return ['conflict', `Item is on loan to ${active.student_index ?? active.user_uid}, not card ${r.uid}`]
+  if (!r.due) return ['conflict', 'Renewal carries no due date']
+  if (format(new Date(active.due_at), 'yyyy-MM-dd') >= r.due) return ['matched']
+
+  const due = new Date(`${r.due}T23:59:59`)
+  if (Number.isNaN(due.getTime())) return ['conflict', `Unreadable due date "${r.due}"`]
+  const refusal = renewalRefusal(active, await reservationManager.isReserved(r.tag), (await loanRuleFor(active)).maxRenewals)
+  if (refusal) return ['conflict', refusal]
+  await recordRenewal(active, due.toISOString(), r.at, device_id)
+  return ['imported']
+}
+
+// Applies a QUEUE dump in sequence order inside one transaction: either every
+// record is accounted for locally, or nothing is written and the queue stays put.
+// Card UIDs are read with the device's UID profile.
+export async function reconcileDeviceQueue(
+  records: DeviceQueueRecord[],
+  device_id: string,
+  uidProfile?: UidProfile
+): Promise<ReconcileSummary> {
+  const ordered = records
+    .map(r => ({ ...r, uid: canonicalizeUid(r.uid, uidProfile) }))
+    .sort((a, b) => a.seq - b.seq)
+  const summary: ReconcileSummary = { matched: 0, imported: 0, conflicts: 0, lastSeq: null, results: [] }
+
+  try {
+    await db.transaction('rw', [db.loans, db.transactions, db.students, db.deviceConflicts, db.taggedItems, db.items, db.reservations, db.fines, db.finePolicies, db.loanRules], async () => {
+      for (const record of ordered) {
+        const [outcome, reason]: [ReconcileOutcome, string?] = Number.isNaN(Date.parse(record.at))
+          ? ['conflict', `Unreadable timestamp "${record.at}"`]
+          : record.op === 'BORROW'
+            ? await applyBorrow(record, device_id)
+            : record.op === 'RENEW'
+              ? await applyRenew(record, device_id)
+              : await applyReturn(record, device_id)
+
+        if (outcome === 'conflict') {
+          const id = conflictId(device_id, record)
+          if (!(await db.deviceConflicts.get(id))) {
+            const conflict: DeviceConflict = {
+              id,
+              device_id,
+              seq: record.seq,
+              op: record.op,
+              card_uid: record.uid,
+              item_tag: record.tag,
+              due_date: record.due ?? null,
+              occurred_at: record.at,
+              reason: reason!,
+              status: 'OPEN',
+              created_at: new Date().toISOString(),
+              resolved_at: null,
+            }
+            await db.deviceConflicts.add(conflict)
+          }
+          summary.conflicts++
+        } else {
+          summary[outcome]++
+        }
+        summary.results.push({ record, outcome, ...(reason ? { reason } : {}) })
+        summary.lastSeq = record.seq
+      }
+    })
+  } catch (error) {
+    throw new DatabaseError(
+      `Could not reconcile device queue: ${error instanceof Error ? error.message : String(error)}`,
+      'reconcile'
+    )
+  }
+  return summary
+}
+
+export async function openDeviceConflicts(): Promise<DeviceConflict[]> {
+  const open = await db.deviceConflicts.where('status').equals('OPEN').toArray()
+  return open.sort((a, b) => a.occurred_at.localeCompare(b.occurred_at))
+}
+
+export async function resolveDeviceConflict(id: string) {
+  await db.deviceConflicts.update(id, { status: 'RESOLVED', resolved_at: new Date().toISOString() })
+}
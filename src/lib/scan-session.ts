@@ -0,0 +1,145 @@
+import { DeviceEvent } from './protocol'
+
+// Scan session: sits between the reader connections and the UI.
+//  - Debounce: a card or label resting on the pad is reported over and over. A repeat
+//    of the same value from the same reader within debounceMs is dropped, and the
+//    window slides for as long as it keeps repeating.
+//  - Scan state: SCAN_ARMED / SCAN_DONE move idle -> armed -> done. A card read while
+//    armed always gets through, since staff asked for it.
+//  - Desk patron: the last card accepted is "at the desk" until patronTimeoutMs pass
+//    without a card or item scan, so follow-up item scans attach to that student.
+
+export type ScanState = 'idle' | 'armed' | 'done'
+
+export interface DeskPatron {
+  uid: string
+  reader: string
+  since: number
+  expiresAt: number
+}
+
+export interface ScanSessionSettings {
+  debounceMs: number
+  patronTimeoutMs: number
+}
+
+export interface ScanSessionOptions extends Partial<ScanSessionSettings> {
+  now?: () => number
+  onStateChange?: (state: ScanState) => void
+  onPatronChange?: (patron: DeskPatron | null) => void
+}
+
+export const DEFAULT_SCAN_SESSION: ScanSessionSettings = {
+  debounceMs: 1500,
+  patronTimeoutMs: 120000,
+}
+
+const SETTINGS_KEY = 'scanSession'
+
+export function loadScanSessionSettings(): ScanSessionSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}')
+    return {
+      debounceMs: Number.isFinite(saved.debounceMs) ? saved.debounceMs : DEFAULT_SCAN_SESSION.debounceMs,
+      patronTimeoutMs: Number.isFinite(saved.patronTimeoutMs) ? saved.patronTimeoutMs : DEFAULT_SCAN_SESSION.patronTimeoutMs,
+    }
+  } catch {
+    return { ...DEFAULT_SCAN_SESSION }
+  }
+}
+
+export function saveScanSessionSettings(settings: ScanSessionSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+}
+
+export function createScanSession(options: ScanSessionOptions = {}) {
+  const now = options.now ?? (() => Date.now())
+  const settings: ScanSessionSettings = {
+    debounceMs: options.debounceMs ?? DEFAULT_SCAN_SESSION.debounceMs,
+    patronTimeoutMs: options.patronTimeoutMs ?? DEFAULT_SCAN_SESSION.patronTimeoutMs,
+  }
+  let state: ScanState = 'idle'
+  let patron: DeskPatron | null = null
+  let expiry: ReturnType<typeof setTimeout> | null = null
+  const lastSeen = new Map<string, number>()
+
+  function setState(next: ScanState) {
+    if (next === state) return
+    state = next
+    options.onStateChange?.(next)
+  }
+
+  function setPatron(next: DeskPatron | null) {
+    if (expiry) clearTimeout(expiry)
+    expiry = null
+    patron = next
+    if (next) expiry = setTimeout(() => setPatron(null), Math.max(0, next.expiresAt - now()))
+    options.onPatronChange?.(next)
+  }
+
+  // Records the sighting either way; true when it falls inside the window of the last one
+  function isRepeat(key: string): boolean {
+    const at = now()
+    const last = lastSeen.get(key)
+    lastSeen.set(key, at)
+    if (lastSeen.size > 200) {
+      lastSeen.forEach((seen, k) => {
+        if (at - seen >= settings.debounceMs) lastSeen.delete(k)
+      })
+    }
+    return last !== undefined && at - last < settings.debounceMs
+  }
+
+  return {
+    get state() {
+      return state
+    },
+    get patron() {
+      return patron
+    },
+    get settings(): ScanSessionSettings {
+      return { ...settings }
+    },
+
+    // The event to hand to the UI, or null when it is a repeat to drop
+    accept(evt: DeviceEvent, reader: string): DeviceEvent | null {
+      switch (evt.event) {
+        case 'scan':
+          if (evt.state === 'armed') setState('armed')
+          else if (state === 'armed') setState('done')
+          return evt
+        case 'card': {
+          const repeat = isRepeat(`card|${reader}|${evt.uid.toUpperCase()}`)
+          if (repeat && state !== 'armed') return null
+          const at = now()
+          const since = patron?.uid === evt.uid ? patron.since : at
+          setPatron({ uid: evt.uid, reader, since, expiresAt: at + settings.patronTimeoutMs })
+          return evt
+        }
+        case 'item':
+          if (isRepeat(`item|${reader}|${evt.tag}`)) return null
+          if (patron) setPatron({ ...patron, expiresAt: now() + settings.patronTimeoutMs })
+          return evt
+        default:
+          return evt
+      }
+    },
+
+    configure(next: Partial<ScanSessionSettings>) {
+      Object.assign(settings, next)
+      if (patron) setPatron({ ...patron, expiresAt: now() + settings.patronTimeoutMs })
+    },
+
+    clearPatron() {
+      if (patron) setPatron(null)
+    },
+
+    dispose() {
+      if (expiry) clearTimeout(expiry)
+      expiry = null
+      lastSeen.clear()
+    },
+  }
+}
+
+export type ScanSession = ReturnType<typeof createScanSession>
@@ -1,87 +1,175 @@
 // Web Serial bridge for the ESP32 firmware (115200 baud, line-based).
 // Keeps your old API: requestPort(), readLines(port, onEvent, onClose)
+// and provides WebSerialTransport for ReaderConnection (./reader).
 //
-// onEvent receives objects like:
+// onEvent receives typed DeviceEvents (see ./protocol):
 //  { event: 'card', uid: 'E0A1B2C3' }
+//  { event: 'item', tag: 'BOOK-42' }
 //  { event: 'scan', state: 'armed' | 'done' }
 //  { event: 'status', data: { sms, students, activeBorrows, queuePending, auto, intervalMin } }
+//  { event: 'parse_error', error: { kind, message, line } }
 //  { event: 'raw', line: '...' }   // for logs/UI
 
+import { DeviceEvent, createLineBuffer, lineToEvents } from "./protocol";
+import type { ReaderTransport, TransportHandlers } from "./transports";
+
+export type { DeviceEvent, DeviceStatus } from "./protocol";
+
+const BAUD_RATE = 115200;
+
 export async function requestPort(): Promise<SerialPort | null> {
   if (!("serial" in navigator)) {
     alert("Web Serial API not available. Use Chrome/Edge on desktop.");
     return null;
   }
-  const port = await (navigator as any).serial.requestPort();
-  await port.open({ baudRate: 115200 });
+  const port = await navigator.serial.requestPort();
+  await port.open({ baudRate: BAUD_RATE });
   return port;
 }
 
-export function readLines(
+// Ports this origin was granted earlier; no picker needed to reopen them.
+export async function getKnownPorts(): Promise<SerialPort[]> {
+  if (!("serial" in navigator)) return [];
+  try {
+    return await navigator.serial.getPorts();
+  } catch {
+    return [];
+  }
+}
+
+async function openPort(port: SerialPort) {
+  await port.open({ baudRate: BAUD_RATE });
+}
+
+export async function writeLine(port: SerialPort, line: string) {
+  if (!port.writable) throw new Error("Port is not writable");
+  const writer = port.writable.getWriter();
+  try {
+    await writer.write(new TextEncoder().encode(line + "\n"));
+  } finally {
+    writer.releaseLock();
+  }
+}
+
+// Streams decoded text until the port closes. Returns a stop() that cancels the
+// reader; onClose still fires afterwards.
+export function readText(
   port: SerialPort,
-  onEvent: (data: any) => void,
+  onData: (chunk: string) => void,
   onClose?: () => void
-) {
-  const textDecoder = new TextDecoderStream();
-  const readable = (port as any).readable as ReadableStream<Uint8Array>;
-  const writer = (port as any).writable as WritableStream<Uint8Array>;
-  const reader = readable.pipeThrough(textDecoder).getReader();
-
-  let buffer = "";
+): () => Promise<void> {
+  if (!port.readable) throw new Error("Port is not readable");
+  const reader = port.readable.getReader();
+  // Streaming decode keeps multi-byte characters split across chunks intact
+  const decoder = new TextDecoder();
 
-  (async () => {
+  const done = (async () => {
     try {
       for (;;) {
         const { value, done } = await reader.read();
         if (done) break;
-        buffer += value || "";
-        let idx;
-        while ((idx = buffer.search(/\r?\n/)) >= 0) {
-          const line = buffer.slice(0, idx).trim();
-          buffer = buffer.slice(idx + 1);
-          if (!line) continue;
-
-          // Always pass raw line (useful for your log console)
-          onEvent({ event: "raw", line });
-
-          // Parse key firmware lines -> friendly events
-          if (line.startsWith("CARD_SCANNED:")) {
-            const uid = line.replace("CARD_SCANNED:", "").trim();
-            onEvent({ event: "card", uid });
-            continue;
-          }
-          if (line === "SCAN_ARMED") { onEvent({ event: "scan", state: "armed" }); continue; }
-          if (line === "SCAN_DONE")  { onEvent({ event: "scan", state: "done"  }); continue; }
-
-          if (line.startsWith("STATUS|")) {
-            // STATUS|SMS:ON|Students:0|ActiveBorrows:0|QueuePending:0|Auto:OFF|IntervalMin:0
-            const parts = line.split("|").slice(1);
-            const obj: any = {};
-            for (const p of parts) {
-              const [k, v] = p.split(":");
-              obj[k] = v;
-            }
-            onEvent({
-              event: "status",
-              data: {
-                sms: obj.SMS,
-                students: Number(obj.Students || 0),
-                activeBorrows: Number(obj.ActiveBorrows || 0),
-                queuePending: Number(obj.QueuePending || 0),
-                auto: obj.Auto,
-                intervalMin: Number(obj.IntervalMin || 0),
-              },
-            });
-            continue;
-          }
-        }
+        const text = value ? decoder.decode(value, { stream: true }) : "";
+        if (text) onData(text);
       }
     } catch (_) {
       // reader cancelled/closed
     } finally {
-      try { reader.releaseLock(); } catch {}
-      try { (port as any).close(); } catch {}
+      try {
+        reader.releaseLock();
+      } catch {
+        // Older implementations throw while a read is still settling; the port closes regardless
+      }
+      await port.close().catch(() => {});
       onClose && onClose();
     }
   })();
+
+  return async () => {
+    await reader.cancel().catch(() => {});
+    await done;
+  };
+}
+
+export function readLines(
+  port: SerialPort,
+  onEvent: (evt: DeviceEvent) => void,
+  onClose?: () => void
+): () => Promise<void> {
+  const lines = createLineBuffer();
+  return readText(
+    port,
+    chunk => {
+      for (const line of lines.push(chunk)) {
+        // Raw line first (useful for your log console), then the parsed event
+        for (const evt of lineToEvents(line)) onEvent(evt);
+      }
+    },
+    onClose
+  );
+}
+
+// ---- ReaderTransport over Web Serial ----
+
+function samePort(a: SerialPortInfo | null, b: SerialPortInfo) {
+  return !!a && a.usbVendorId === b.usbVendorId && a.usbProductId === b.usbProductId;
+}
+
+export class WebSerialTransport implements ReaderTransport {
+  readonly kind = "serial";
+  readonly label = "Web Serial";
+  private port: SerialPort | null = null;
+  private lastInfo: SerialPortInfo | null = null;
+  private stopReading: (() => Promise<void>) | null = null;
+
+  // interactive: show the picker; otherwise reopen a previously granted port that
+  // is not in use, preferring the one we had last.
+  async open(handlers: TransportHandlers, interactive: boolean): Promise<boolean> {
+    let port: SerialPort | null = null;
+    try {
+      if (interactive) {
+        port = await requestPort();
+      } else {
+        // Ports with a readable stream are already open for another reader.
+        const ports = (await getKnownPorts()).filter(p => !p.readable);
+        port = ports.find(p => samePort(this.lastInfo, p.getInfo())) ?? ports[0] ?? null;
+        if (port) await openPort(port);
+      }
+    } catch {
+      return false;
+    }
+    if (!port) return false;
+
+    this.port = port;
+    this.lastInfo = port.getInfo();
+    this.stopReading = readText(port, handlers.onData, () => {
+      this.stopReading = null;
+      this.port = null;
+      handlers.onClose();
+    });
+    return true;
+  }
+
+  async close() {
+    await this.stopReading?.();
+  }
+
+  async write(line: string) {
+    if (!this.port) throw new Error("Not connected to device");
+    await writeLine(this.port, line);
+  }
+
+  // Replugging fires "connect"; unplugging ends the read loop, whose onClose
+  // lets the connection schedule a reconnect.
+  watch(onAvailable: () => void): () => void {
+    if (!("serial" in navigator)) return () => {};
+    const onUnplug = (e: Event) => {
+      if (e.target === this.port) this.stopReading?.();
+    };
+    navigator.serial.addEventListener("connect", onAvailable);
+    navigator.serial.addEventListener("disconnect", onUnplug);
+    return () => {
+      navigator.serial.removeEventListener("connect", onAvailable);
+      navigator.serial.removeEventListener("disconnect", onUnplug);
+    };
+  }
 }
@@ -2,6 +2,9 @@ import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { Student, Loan, Tx } from './db'
 import { User } from './auth'
+import { ConnectionState } from './reader'
+import { DeviceStatus } from './protocol'
+import { ReaderRuntime } from './readers'
 
 // UI State
 interface UIState {
@@ -47,10 +50,9 @@ interface AppState {
 
 // Serial/Device State
 interface DeviceState {
-  connected: boolean
-  port: SerialPort | null
-  status: Record<string, unknown> | null
+  readers: Record<string, ReaderRuntime> // keyed by reader id (see ./readers)
   lastScannedUID: string
+  lastScanReader: string | null
   log: string[]
 }
 
@@ -88,9 +90,10 @@ interface AppStore extends UIState, AuthState, AppState, DeviceState {
   updateStats: (stats: Partial<AppState['stats']>) => void
   
   // Device Actions
-  setDeviceConnection: (connected: boolean, port?: SerialPort | null) => void
-  setDeviceStatus: (status: Record<string, unknown>) => void
-  setLastScannedUID: (uid: string) => void
+  setReaderState: (id: string, state: ConnectionState, attempt?: number) => void
+  setReaderStatus: (id: string, status: DeviceStatus) => void
+  removeReader: (id: string) => void
+  setLastScannedUID: (uid: string, reader?: string) => void
   addLogEntry: (entry: string) => void
   clearLog: () => void
 
@@ -130,10 +133,9 @@ const initialAppState: AppState = {
 }
 
 const initialDeviceState: DeviceState = {
-  connected: false,
-  port: null,
-  status: null,
+  readers: {},
   lastScannedUID: '',
+  lastScanReader: null,
   log: [],
 }
 
@@ -258,14 +260,30 @@ export const useAppStore = create<AppStore>()(
       })),
 
       // Device Actions
-      setDeviceConnection: (connected, port) => set({ 
-        connected, 
-        port: port ?? null 
-      }),
+      setReaderState: (id, readerState, attempt = 0) => set((state) => ({
+        readers: {
+          ...state.readers,
+          [id]: {
+            state: readerState,
+            attempt,
+            // A status snapshot is only meaningful while the link is up
+            status: readerState === 'connected' ? state.readers[id]?.status ?? null : null,
+          },
+        },
+      })),
       
-      setDeviceStatus: (status) => set({ status }),
+      setReaderStatus: (id, status) => set((state) => ({
+        readers: {
+          ...state.readers,
+          [id]: { ...(state.readers[id] ?? { state: 'connected', attempt: 0 }), status },
+        },
+      })),
+      
+      removeReader: (id) => set((state) => ({
+        readers: Object.fromEntries(Object.entries(state.readers).filter(([k]) => k !== id)),
+      })),
       
-      setLastScannedUID: (uid) => set({ lastScannedUID: uid }),
+      setLastScannedUID: (uid, reader) => set({ lastScannedUID: uid, lastScanReader: reader ?? null }),
       
       addLogEntry: (entry) => set((state) => ({
         log: [
@@ -340,9 +358,10 @@ export const useAuth = () => useAppStore((state) => ({
   sessionExpiry: state.sessionExpiry,
 }))
 export const useDevice = () => useAppStore((state) => ({
-  connected: state.connected,
-  status: state.status,
+  readers: state.readers,
+  connected: Object.values(state.readers).some(r => r.state === 'connected'),
   lastScannedUID: state.lastScannedUID,
+  lastScanReader: state.lastScanReader,
   log: state.log,
 }))
 export const useUI = () => useAppStore((state) => ({
@@ -387,8 +406,9 @@ export const useDataActions = () => useAppStore((state) => ({
 }))
 
 export const useDeviceActions = () => useAppStore((state) => ({
-  setDeviceConnection: state.setDeviceConnection,
-  setDeviceStatus: state.setDeviceStatus,
+  setReaderState: state.setReaderState,
+  setReaderStatus: state.setReaderStatus,
+  removeReader: state.removeReader,
   setLastScannedUID: state.setLastScannedUID,
   addLogEntry: state.addLogEntry,
   clearLog: state.clearLog,
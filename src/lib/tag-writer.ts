@@ -0,0 +1,148 @@
+import { db, TaggedItem, Item } from './db'
+import { CommandResult } from './commands'
+import { schemas, validateInput } from './validation'
+
+// Tag Writer: encodes an item tag (and optionally the owning library's code) on a
+// blank label resting on the reader. Each step reports its own outcome and the run
+// stops at the first one that fails:
+//  check  -> tag, title and owner code are valid
+//  arm    -> WRITE ARM: the reader has a label and is ready to write it
+//  write  -> WRITE TAG tag | owner
+//  verify -> READ TAG reads the label back; it must match what was written
+//  record -> the tag is saved to taggedItems and, when new, added to the catalog
+
+export type TagWriteStep = 'check' | 'arm' | 'write' | 'verify' | 'record'
+
+export const TAG_WRITE_STEPS: Record<TagWriteStep, string> = {
+  check: 'Check details',
+  arm: 'Arm reader',
+  write: 'Write label',
+  verify: 'Read back',
+  record: 'Save locally',
+}
+
+export interface TagWriteRequest {
+  item_tag: string
+  item_title?: string | null
+  owner_code?: string | null
+}
+
+export interface TagWriteReport {
+  step: TagWriteStep
+  ok: boolean
+  detail: string
+}
+
+export interface TagWriteResult {
+  ok: boolean
+  reports: TagWriteReport[]
+  item?: TaggedItem
+}
+
+const OWNER_CODE_KEY = 'ownerLibraryCode'
+
+// Next free tag in the BOOK-0001 style, for items that don't have one yet
+export function suggestItemTag(existing: string[], prefix = 'BOOK-'): string {
+  const pattern = new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&')}(\\d+)$`, 'i')
+  const highest = existing.reduce((max, tag) => {
+    const m = pattern.exec(tag)
+    return m ? Math.max(max, Number(m[1])) : max
+  }, 0)
+  return `${prefix}${String(highest + 1).padStart(4, '0')}`
+}
+
+// Minimal catalog record for a freshly labelled item; staff fill in the rest on the Catalog screen
+function catalogEntry(tag: string, title: string | null, at: string): Item {
+  return {
+    tag,
+    title: title || tag,
+    author: null,
+    isbn: null,
+    call_number: null,
+    item_type: 'BOOK',
+    copy_number: null,
+    location: null,
+    status: 'AVAILABLE',
+    created_at: at,
+    updated_at: at,
+  }
+}
+
+function commandError(result: CommandResult | null): string {
+  if (!result) return 'Reader is not connected'
+  return result.timedOut ? `Timed out: ${result.error}` : result.error || 'Reader refused the command'
+}
+
+// `send` is the reader's command channel (ReaderConnection.send or equivalent);
+// device_id names the reader in the local record.
+export async function writeItemTag(
+  request: TagWriteRequest,
+  send: (command: string) => Promise<CommandResult | null>,
+  device_id: string,
+  onStep?: (report: TagWriteReport) => void
+): Promise<TagWriteResult> {
+  const reports: TagWriteReport[] = []
+  const report = (step: TagWriteStep, ok: boolean, detail: string) => {
+    const r = { step, ok, detail }
+    reports.push(r)
+    onStep?.(r)
+    return ok
+  }
+
+  const check = validateInput<TagWriteRequest>(request, schemas.itemLabel)
+  if (!check.valid) {
+    report('check', false, check.errors!.join('; '))
+    return { ok: false, reports }
+  }
+  const tag = check.data!.item_tag
+  const owner = check.data!.owner_code?.toUpperCase() || null
+  const title = check.data!.item_title || null
+  report('check', true, owner ? `${tag} for ${owner}` : tag)
+
+  const armed = await send('WRITE ARM')
+  if (!report('arm', !!armed?.ok, armed?.ok ? 'Label detected' : commandError(armed))) {
+    return { ok: false, reports }
+  }
+
+  const written = await send(owner ? `WRITE TAG ${tag} | ${owner}` : `WRITE TAG ${tag}`)
+  if (!report('write', !!written?.ok, written?.ok ? 'Label written' : commandError(written))) {
+    return { ok: false, reports }
+  }
+
+  const read = await send('READ TAG')
+  if (!read?.ok || !read.tagData) {
+    report('verify', false, commandError(read))
+    return { ok: false, reports }
+  }
+  const { tag: readTag, owner: readOwner } = read.tagData
+  if (readTag !== tag || (readOwner ?? null) !== owner) {
+    const got = readOwner ? `${readTag} | ${readOwner}` : readTag
+    report('verify', false, `Label reads back as ${got}; write it again or use a new label`)
+    return { ok: false, reports }
+  }
+  report('verify', true, 'Label matches')
+
+  const item: TaggedItem = { tag, title, owner_code: owner, device_id, written_at: new Date().toISOString() }
+  try {
+    await db.transaction('rw', db.taggedItems, db.items, async () => {
+      await db.taggedItems.put(item)
+      if (!(await db.items.get(tag))) {
+        await db.items.add(catalogEntry(tag, title, item.written_at))
+      }
+    })
+  } catch (error) {
+    report('record', false, `Label is written but was not saved: ${error instanceof Error ? error.message : String(error)}`)
+    return { ok: false, reports }
+  }
+  report('record', true, 'Saved to local data')
+  return { ok: true, reports, item }
+}
+
+// Owner code most kiosks stamp on every label they write
+export function loadOwnerCode(): string {
+  return localStorage.getItem(OWNER_CODE_KEY) ?? ''
+}
+
+export function saveOwnerCode(code: string) {
+  localStorage.setItem(OWNER_CODE_KEY, code.trim().toUpperCase())
+}
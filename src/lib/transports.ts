@@ -0,0 +1,134 @@
+import { WebSerialTransport } from './serial'
+import { EmulatorTransport } from './emulator'
+
+// A reader link that moves text in both directions. Transports know nothing about
+// the protocol: they hand raw text to the connection, which splits it into lines
+// and runs every line through the same parser (./protocol).
+
+export type TransportKind = 'serial' | 'websocket' | 'mock' | 'emulator'
+
+export interface TransportHandlers {
+  onData: (chunk: string) => void
+  onClose: () => void
+}
+
+export interface ReaderTransport {
+  readonly kind: TransportKind
+  readonly label: string
+  // `interactive` allows user prompts (the Web Serial port picker). Resolves false
+  // when nothing could be opened; never rejects.
+  open(handlers: TransportHandlers, interactive: boolean): Promise<boolean>
+  close(): Promise<void>
+  write(line: string): Promise<void>
+  // Optional hint that the device came back (cable re-plugged) or went away.
+  watch?(onAvailable: () => void): () => void
+}
+
+export interface TransportSettings {
+  kind: TransportKind
+  url?: string
+}
+
+export const DEFAULT_BRIDGE_URL = 'ws://localhost:8765'
+export function createTransport(settings: TransportSettings): ReaderTransport {
+  switch (settings.kind) {
+    case 'websocket':
+      return new WebSocketTransport(settings.url || DEFAULT_BRIDGE_URL)
+    case 'mock':
+      return new MockTransport()
+    case 'emulator':
+      return new EmulatorTransport()
+    default:
+      return new WebSerialTransport()
+  }
+}
+
+// ---- WebSocket line bridge ----
+// For browsers without Web Serial: a small local process owns the serial port and
+// relays it over a WebSocket, one line per message in each direction.
+
+export class WebSocketTransport implements ReaderTransport {
+  readonly kind = 'websocket'
+  private socket: WebSocket | null = null
+
+  constructor(readonly url: string) {}
+
+  get label() {
+    return `Bridge ${this.url}`
+  }
+
+  open(handlers: TransportHandlers): Promise<boolean> {
+    return new Promise(resolve => {
+      let opened = false
+      let socket: WebSocket
+      try {
+        socket = new WebSocket(this.url)
+      } catch {
+        resolve(false)
+        return
+      }
+      socket.onopen = () => {
+        opened = true
+        this.socket = socket
+        resolve(true)
+      }
+      socket.onmessage = e => {
+        const text = typeof e.data === 'string' ? e.data : ''
+        handlers.onData(text.endsWith('\n') ? text : text + '\n')
+      }
+      socket.onclose = () => {
+        if (this.socket === socket) this.socket = null
+        if (opened) handlers.onClose()
+        else resolve(false)
+      }
+    })
+  }
+
+  async close() {
+    this.socket?.close()
+  }
+
+  async write(line: string) {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('Bridge is not connected')
+    }
+    this.socket.send(line + '\n')
+  }
+}
+
+// ---- In-memory mock ----
+// Lets tests and demos drive the app without hardware: emit() plays device lines,
+// onWrite observes (and may answer) commands sent by the app.
+
+export class MockTransport implements ReaderTransport {
+  readonly kind = 'mock'
+  readonly label = 'Mock reader'
+  readonly written: string[] = []
+  onWrite?: (line: string) => void
+  private handlers: TransportHandlers | null = null
+
+  get isOpen() {
+    return this.handlers !== null
+  }
+
+  async open(handlers: TransportHandlers) {
+    this.handlers = handlers
+    return true
+  }
+
+  async close() {
+    const handlers = this.handlers
+    this.handlers = null
+    handlers?.onClose()
+  }
+
+  async write(line: string) {
+    if (!this.handlers) throw new Error('Mock reader is closed')
+    this.written.push(line)
+    this.onWrite?.(line)
+  }
+
+  emit(line: string) {
+    this.handlers?.onData(line + '\n')
+  }
+}
@@ -0,0 +1,128 @@
+import { validateAndFormatUID } from './validation'
+
+// Card UID profiles. The same card reads differently depending on who reads it: our
+// ESP32 reports the UID bytes MSB-first in hex, the campus ID system prints them
+// LSB-first, as a 10-digit decimal, or as a Wiegand-26 facility + card number.
+// Each input (reader, keyboard, CSV import) names its profile, and every UID is
+// stored in one canonical form: the bytes MSB-first as upper-case hex.
+
+export type UidProfile = 'hex-msb' | 'hex-lsb' | 'decimal' | 'wiegand26'
+
+export const UID_PROFILES: Record<UidProfile, string> = {
+  'hex-msb': 'Hex, MSB first',
+  'hex-lsb': 'Hex, LSB first',
+  decimal: 'Decimal (10-digit)',
+  wiegand26: 'Wiegand-26 (facility + card)',
+}
+
+export const DEFAULT_UID_PROFILE: UidProfile = 'hex-msb'
+
+const KEYBOARD_PROFILE_KEY = 'keyboardUidProfile'
+
+function hexToBytes(hex: string): number[] {
+  const even = hex.length % 2 ? '0' + hex : hex
+  return even.match(/../g)!.map(b => parseInt(b, 16))
+}
+
+function bytesToHex(bytes: number[]): string {
+  return bytes.map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase()
+}
+
+// Decimal printouts are big-endian numbers; 4-byte UIDs are the common case
+function numberToBytes(n: number): number[] {
+  const bytes: number[] = []
+  for (let v = n; v > 0 || bytes.length < 4; v = Math.floor(v / 256)) bytes.unshift(v % 256)
+  return bytes
+}
+
+function bytesToNumber(bytes: number[]): number {
+  return bytes.reduce((n, b) => n * 256 + b, 0)
+}
+
+// The UID bytes (MSB-first) a value encodes under a profile, or null if it doesn't fit.
+export function decodeUid(raw: string, profile: UidProfile): number[] | null {
+  const text = (raw ?? '').trim()
+  switch (profile) {
+    case 'hex-msb':
+    case 'hex-lsb': {
+      const uid = validateAndFormatUID(text)
+      if (!uid.valid) return null
+      const bytes = hexToBytes(uid.formatted!)
+      return profile === 'hex-lsb' ? bytes.reverse() : bytes
+    }
+    case 'decimal':
+      // Past 15 digits the value no longer fits a double exactly
+      return /^\d{1,15}$/.test(text) ? numberToBytes(Number(text)) : null
+    case 'wiegand26': {
+      // "123:45678", "123,45678", "123-45678" or the printed 8-digit FFFCCCCC
+      const m = /^(\d{1,3})\s*[:,/\s-]\s*(\d{1,5})$/.exec(text) ?? /^(\d{3})(\d{5})$/.exec(text)
+      if (!m) return null
+      const facility = Number(m[1])
+      const card = Number(m[2])
+      if (facility > 0xff || card > 0xffff) return null
+      return [facility, card >> 8, card & 0xff]
+    }
+  }
+}
+
+// Stored form of an incoming UID. Values that don't decode (e.g. demo labels such
+// as CARD-ALICE) are kept as typed, upper-cased.
+export function canonicalizeUid(raw: string, profile: UidProfile = DEFAULT_UID_PROFILE): string {
+  const bytes = decodeUid(raw, profile)
+  return bytes ? bytesToHex(bytes) : (raw ?? '').trim().toUpperCase()
+}
+
+// Every byte sequence the value could mean: its own profile first, then the others.
+export function uidInterpretations(raw: string, profile: UidProfile = DEFAULT_UID_PROFILE): number[][] {
+  const order = [profile, ...(Object.keys(UID_PROFILES) as UidProfile[]).filter(p => p !== profile)]
+  const seen = new Set<string>()
+  const result: number[][] = []
+  for (const p of order) {
+    const bytes = decodeUid(raw, p)
+    if (bytes && !seen.has(bytesToHex(bytes))) {
+      seen.add(bytesToHex(bytes))
+      result.push(bytes)
+    }
+  }
+  return result
+}
+
+// card_uid values worth trying for a lookup, most likely first. Covers rows stored
+// before profiles existed (decimal or reversed hex) and misconfigured readers.
+export function uidLookupKeys(raw: string, profile: UidProfile = DEFAULT_UID_PROFILE): string[] {
+  const keys = [canonicalizeUid(raw, profile)]
+  for (const bytes of uidInterpretations(raw, profile)) {
+    const reversed = [...bytes].reverse()
+    keys.push(bytesToHex(bytes), bytesToHex(reversed))
+    if (bytes.length <= 6) {
+      for (const b of [bytes, reversed]) {
+        const n = String(bytesToNumber(b))
+        keys.push(n, n.padStart(10, '0'))
+      }
+    }
+  }
+  keys.push((raw ?? '').trim().toUpperCase())
+  return Array.from(new Set(keys))
+}
+
+// Wiegand-26 carries only 24 bits of the UID; compare them with the tail of a stored
+// UID in either byte order.
+export function uidTailMatches(stored: string, short: number[]): boolean {
+  const bytes = decodeUid(stored, 'hex-msb')
+  if (!bytes || bytes.length <= short.length) return false
+  const tail = bytesToHex(short)
+  return (
+    bytesToHex(bytes.slice(-short.length)) === tail ||
+    bytesToHex([...bytes].reverse().slice(-short.length)) === tail
+  )
+}
+
+// Profile for UIDs typed or wedged in through the keyboard
+export function loadKeyboardUidProfile(): UidProfile {
+  const saved = localStorage.getItem(KEYBOARD_PROFILE_KEY) as UidProfile | null
+  return saved && saved in UID_PROFILES ? saved : DEFAULT_UID_PROFILE
+}
+
+export function saveKeyboardUidProfile(profile: UidProfile) {
+  localStorage.setItem(KEYBOARD_PROFILE_KEY, profile)
+}
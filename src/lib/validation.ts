@@ -58,17 +58,139 @@ export const schemas = {
         'string.pattern.base': 'Item tag must contain only letters, numbers, hyphens, underscores, dots, and slashes',
       }),
     item_title: Joi.string().trim().max(200).allow('', null),
-    days: Joi.number().integer().min(1).max(365).required(),
+    // At most one of days / minutes; both omitted: the loan period of the matching loan rule
+    days: Joi.number().integer().min(1).max(365),
+    minutes: Joi.number().integer().min(1).max(24 * 60),
+  }).oxor('days', 'minutes'),
+
+  loanRule: Joi.object({
+    id: Joi.string().trim().max(100),
+    program: Joi.string().trim().max(100).allow(null).empty(''),
+    level: Joi.string().trim().max(50).allow(null).empty(''),
+    itemType: Joi.string().trim().uppercase().max(30).allow(null).empty(''),
+    maxLoans: Joi.number().integer().min(0).max(100).required(),
+    loanUnit: Joi.string().valid('DAYS', 'HOURS', 'MINUTES').default('DAYS'),
+    loanPeriod: Joi.number()
+      .integer()
+      .min(1)
+      .when('loanUnit', {
+        switch: [
+          { is: 'MINUTES', then: Joi.number().max(24 * 60) },
+          { is: 'HOURS', then: Joi.number().max(24) },
+        ],
+        otherwise: Joi.number().max(365),
+      })
+      .required(),
+    dueByClose: Joi.boolean().default(false),
+    maxRenewals: Joi.number().integer().min(0).max(20).required(),
+    mayLeave: Joi.boolean().default(true),
+  }),
+
+  item: Joi.object({
+    tag: Joi.string()
+      .trim()
+      .min(1)
+      .max(100)
+      .pattern(/^[A-Z0-9\-_./]+$/i)
+      .required()
+      .messages({
+        'string.pattern.base': 'Item tag must contain only letters, numbers, hyphens, underscores, dots, and slashes',
+      }),
+    title: Joi.string().trim().min(1).max(200).required(),
+    author: Joi.string().trim().max(200).allow('', null),
+    isbn: Joi.string()
+      .trim()
+      .pattern(/^(?:\d[\s-]?){9}[\dX]$|^(?:\d[\s-]?){12}\d$/i)
+      .allow('', null)
+      .messages({
+        'string.pattern.base': 'ISBN must have 10 or 13 digits',
+      }),
+    call_number: Joi.string().trim().max(50).allow('', null),
+    item_type: Joi.string().trim().uppercase().max(30).default('BOOK'),
+    copy_number: Joi.number().integer().min(1).max(999).allow(null),
+    location: Joi.string().trim().max(100).allow('', null),
+    status: Joi.string().valid('AVAILABLE', 'ON_LOAN', 'LOST', 'DAMAGED', 'MISSING', 'WITHDRAWN'),
+  }),
+
+  // What the Tag Writer encodes on a label; kept short to fit NTAG user memory
+  itemLabel: Joi.object({
+    item_tag: Joi.string()
+      .trim()
+      .min(1)
+      .max(48)
+      .pattern(/^[A-Z0-9\-_./]+$/i)
+      .required()
+      .messages({
+        'string.pattern.base': 'Item tag must contain only letters, numbers, hyphens, underscores, dots, and slashes',
+      }),
+    item_title: Joi.string().trim().max(200).allow('', null),
+    owner_code: Joi.string()
+      .trim()
+      .max(16)
+      .pattern(/^[A-Z0-9\-_]+$/i)
+      .allow('', null)
+      .messages({
+        'string.pattern.base': 'Owner library code must contain only letters, numbers, hyphens, and underscores',
+      }),
   }),
 
   transaction: Joi.object({
     user_uid: Joi.string().trim().allow(null),
     student_index: Joi.string().trim().allow(null),
     item_tag: Joi.string().trim().min(1).max(100).required(),
-    action: Joi.string().valid('BORROW', 'RETURN').required(),
+    action: Joi.string().valid('BORROW', 'RETURN', 'RENEW', 'LOST', 'DAMAGED', 'CLAIMED_RETURNED', 'FOUND').required(),
     device_id: Joi.string().trim().max(100).required(),
   }),
 
+  finePolicy: Joi.object({
+    currency: Joi.string().trim().uppercase().pattern(/^[A-Z]{3}$/).required().messages({
+      'string.pattern.base': 'Currency must be a 3-letter code',
+    }),
+    rules: Joi.array()
+      .min(1)
+      .items(
+        Joi.object({
+          itemType: Joi.string().trim().uppercase().max(30).allow(null).empty(''),
+          patronLevel: Joi.string().trim().max(50).allow(null).empty(''),
+          accrual: Joi.string().valid('DAILY', 'HOURLY').required(),
+          rate: Joi.number().min(0).max(1000).required(),
+          graceUnits: Joi.number().integer().min(0).max(720).default(0),
+          cap: Joi.number().min(0).max(100000).allow(null),
+          replacementCost: Joi.number().min(0).max(100000).allow(null),
+        })
+      )
+      .unique((a, b) => (a.itemType ?? null) === (b.itemType ?? null) && (a.patronLevel ?? null) === (b.patronLevel ?? null))
+      .required()
+      .messages({
+        'array.unique': 'Only one rule per item type and patron level',
+        'array.min': 'A fine policy needs at least one rule',
+      }),
+  }),
+
+  libraryCalendar: Joi.object({
+    hours: Joi.array()
+      .length(7)
+      .items(
+        Joi.object({
+          open: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).required(),
+          close: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).required(),
+        })
+          .custom((h, helpers) => (h.close > h.open ? h : helpers.error('any.invalid')))
+          .messages({ 'string.pattern.base': 'Opening hours must be HH:mm', 'any.invalid': 'Closing time must be after opening time' })
+          .allow(null)
+      )
+      .required(),
+    closures: Joi.array()
+      .items(
+        Joi.object({
+          start: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+          end: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+          reason: Joi.string().trim().max(200).allow('').default(''),
+        }).messages({ 'string.pattern.base': 'Closure dates must be yyyy-MM-dd' })
+      )
+      .default([]),
+  }),
+
   search: Joi.object({
     query: Joi.string().trim().max(100).allow(''),
     limit: Joi.number().integer().min(1).max(1000).default(100),
@@ -165,7 +287,8 @@ export function validateSerialCommand(command: string): { valid: boolean; saniti
   // Only allow specific commands
   const allowedCommands = [
     'STATUS', 'SCAN', 'SMS ON', 'SMS OFF', 'AUTO ON', 'AUTO OFF',
-    'REMIND ALL', 'SET STUDENT', 'BORROW', 'RETURN', 'REMIND ONE'
+    'REMIND ALL', 'SET STUDENT', 'BORROW', 'RETURN', 'REMIND ONE', 'QUEUE',
+    'WRITE ARM', 'WRITE TAG', 'READ TAG', 'HELLO', 'TIME', 'RENEW'
   ]
   
   const baseCommand = sanitized.split(' ')[0]
@@ -0,0 +1,118 @@
+import { DeviceEvent } from './protocol'
+import { UidProfile, DEFAULT_UID_PROFILE, decodeUid, canonicalizeUid } from './uid'
+import { ValidationError } from './error-handling'
+
+// Keyboard-wedge (HID) readers "type" the tag followed by Enter. They key far faster
+// than a person, so a burst of characters with tiny gaps that ends in Enter is taken
+// as a scan; anything slower is left alone as human typing.
+
+export interface WedgeOptions {
+  maxIntervalMs?: number // largest gap between two reader keystrokes
+  minLength?: number // shorter bursts are ignored (stray double-taps)
+  uidProfile?: UidProfile // how the reader types card UIDs
+  itemPattern?: RegExp // bursts matching this are item barcodes, even if they decode as a UID
+}
+
+// EAN-13 / UPC-A barcodes (ISBNs and the like): too long for a 32-bit decimal card number
+export const DEFAULT_ITEM_PATTERN = '^\\d{12,13}$'
+
+const DEFAULTS: Required<WedgeOptions> = {
+  maxIntervalMs: 35,
+  minLength: 4,
+  uidProfile: DEFAULT_UID_PROFILE,
+  itemPattern: new RegExp(DEFAULT_ITEM_PATTERN),
+}
+
+const ENABLED_KEY = 'keyboardWedge'
+const ITEM_PATTERN_KEY = 'keyboardWedgeItemPattern'
+
+export function isWedgeEnabled(): boolean {
+  return localStorage.getItem(ENABLED_KEY) === '1'
+}
+
+export function setWedgeEnabled(enabled: boolean) {
+  if (enabled) localStorage.setItem(ENABLED_KEY, '1')
+  else localStorage.removeItem(ENABLED_KEY)
+}
+
+// Which wedge bursts are item barcodes, as a regular expression (see wedgeBurstToEvent)
+export function loadWedgeItemPattern(): string {
+  return localStorage.getItem(ITEM_PATTERN_KEY) ?? DEFAULT_ITEM_PATTERN
+}
+
+export function saveWedgeItemPattern(pattern: string): RegExp {
+  let compiled: RegExp
+  try {
+    compiled = new RegExp(pattern.trim())
+  } catch {
+    throw new ValidationError('Item barcode pattern is not a valid regular expression', 'itemPattern', pattern)
+  }
+  localStorage.setItem(ITEM_PATTERN_KEY, pattern.trim())
+  return compiled
+}
+
+// Feed keys with their timestamps; returns the burst text when Enter completes one.
+export function createWedgeDetector(options: WedgeOptions = {}) {
+  const { maxIntervalMs, minLength } = { ...DEFAULTS, ...options }
+  let buffer = ''
+  let lastAt = -Infinity
+
+  return {
+    feed(key: string, at: number): string | null {
+      const gap = at - lastAt
+      lastAt = at
+      if (key === 'Enter') {
+        const burst = buffer
+        buffer = ''
+        return burst.length >= minLength && gap <= maxIntervalMs ? burst : null
+      }
+      if (key.length !== 1) return null // Shift, Tab, arrows...
+      // A slow key starts over: whatever came before was a person typing.
+      buffer = gap <= maxIntervalMs ? buffer + key : key
+      return null
+    },
+    reset() {
+      buffer = ''
+      lastAt = -Infinity
+    },
+  }
+}
+
+// Bursts matching the item pattern are item tags; otherwise those that decode as a UID
+// under the reader's profile are card scans (already in canonical form), and anything
+// else is an item tag. Without the pattern every numeric barcode would read as a card
+// under the decimal profile.
+export function wedgeBurstToEvent(
+  burst: string,
+  profile: UidProfile = DEFAULT_UID_PROFILE,
+  itemPattern: RegExp = DEFAULTS.itemPattern
+): DeviceEvent {
+  if (!itemPattern.test(burst.trim()) && decodeUid(burst, profile)) return { event: 'card', uid: canonicalizeUid(burst, profile) }
+  return { event: 'item', tag: burst.trim() }
+}
+
+// Listens on `target` (capture phase) and reports scans as the same events readLines
+// produces. The reader's keystrokes are removed from whatever input had focus.
+export function attachKeyboardWedge(
+  target: Window | HTMLElement,
+  onEvent: (evt: DeviceEvent) => void,
+  options: WedgeOptions = {}
+): () => void {
+  const detector = createWedgeDetector(options)
+
+  const onKeyDown = (e: Event) => {
+    const ke = e as KeyboardEvent
+    const burst = detector.feed(ke.key, ke.timeStamp)
+    if (burst === null) return
+    ke.preventDefault()
+    const el = ke.target as HTMLInputElement | null
+    if (el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA') && el.value.endsWith(burst)) {
+      el.value = el.value.slice(0, -burst.length)
+    }
+    onEvent({ event: 'raw', line: `[WEDGE] ${burst}` })
+    onEvent(wedgeBurstToEvent(burst, options.uidProfile, options.itemPattern))
+  }
+
+  target.addEventListener('keydown', onKeyDown, true)
+  return () => target.removeEventListener('keydown', onKeyDown, true)
+}
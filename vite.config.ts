@@ -31,6 +31,8 @@ export default defineConfig({
     globals: true,
     environment: 'jsdom',
     setupFiles: ['./src/test/setup.ts'],
+    // Worker threads ignore a runtime TZ change; this suite switches zones
+    poolMatchGlobs: [['**/reconcile.test.ts', 'child_process']],
     coverage: {
       reporter: ['text', 'json', 'html'],
       exclude: ['node_modules/', 'src/test/', '**/*.d.ts'],